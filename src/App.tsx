@@ -46,6 +46,7 @@ function App() {
         onClear={() => chatbotRef.current?.clearInput()}
         onNavigateHistory={(direction) => chatbotRef.current?.navigateHistory(direction)}
         onFocusInput={() => chatbotRef.current?.focusInput()}
+        onToggleInsights={() => chatbotRef.current?.toggleInsights()}
       >
         <ChatbotUI ref={chatbotRef} onClose={closeChatbot} />
       </Modal>
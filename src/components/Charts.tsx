@@ -0,0 +1,112 @@
+import React from 'react';
+import { formatValue } from '../utils/richContent';
+import type { BarChartContent, TimeSeriesContent } from '../utils/richContent';
+
+const WIDTH = 320;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 52 };
+const SERIES_COLORS = ['#003399', '#4F9DD8', '#F2A900', '#2E8540', '#C0392B', '#6C757D'];
+
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return Math.ceil(value / magnitude) * magnitude;
+}
+
+function valueRange(values: number[]): [number, number] {
+  const min = Math.min(0, ...values);
+  const max = niceMax(Math.max(...values));
+  return [min, max === min ? min + 1 : max];
+}
+
+interface TimeSeriesChartProps {
+  chart: TimeSeriesContent;
+  /** Id of the element holding the chart's text summary */
+  describedBy?: string;
+}
+
+export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ chart, describedBy }) => {
+  const periods = Array.from(new Set(chart.series.flatMap(s => s.points.map(p => p.label)))).sort();
+  const [min, max] = valueRange(chart.series.flatMap(s => s.points.map(p => p.value)));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (period: string) =>
+    PADDING.left + (periods.length === 1 ? plotWidth / 2 : (periods.indexOf(period) / (periods.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+  const description = `${chart.title}: line chart of ${chart.series.length} series from ${periods[0]} to ${periods[periods.length - 1]}, in ${chart.unit}`;
+
+  return (
+    <figure className="rich-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={description} aria-describedby={describedBy}>
+        <title>{description}</title>
+        <line x1={PADDING.left} y1={y(min)} x2={WIDTH - PADDING.right} y2={y(min)} className="chart-axis" />
+        <text x={PADDING.left - 6} y={y(max)} className="chart-tick" textAnchor="end" dominantBaseline="middle">{formatValue(max)}</text>
+        <text x={PADDING.left - 6} y={y(min)} className="chart-tick" textAnchor="end" dominantBaseline="middle">{formatValue(min)}</text>
+        {[periods[0], periods[periods.length - 1]].map(period => (
+          <text key={period} x={x(period)} y={HEIGHT - 8} className="chart-tick" textAnchor="middle">{period}</text>
+        ))}
+        {chart.series.map((series, index) => (
+          <g key={series.name}>
+            <polyline
+              points={series.points.map(p => `${x(p.label)},${y(p.value)}`).join(' ')}
+              fill="none"
+              stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+              strokeWidth={2}
+            />
+            {series.points.map(p => (
+              <circle key={p.label} cx={x(p.label)} cy={y(p.value)} r={2.5} fill={SERIES_COLORS[index % SERIES_COLORS.length]} />
+            ))}
+          </g>
+        ))}
+      </svg>
+      {chart.series.length > 1 && (
+        <figcaption className="chart-legend">
+          {chart.series.map((series, index) => (
+            <span key={series.name} className="chart-legend-item">
+              <span className="chart-swatch" style={{ background: SERIES_COLORS[index % SERIES_COLORS.length] }} aria-hidden="true" />
+              {series.name}
+            </span>
+          ))}
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+interface BarChartProps {
+  chart: BarChartContent;
+  describedBy?: string;
+}
+
+export const BarChart: React.FC<BarChartProps> = ({ chart, describedBy }) => {
+  const [min, max] = valueRange(chart.bars.map(b => b.value));
+  const rowHeight = 22;
+  const labelWidth = 96;
+  const height = chart.bars.length * rowHeight + 8;
+  const plotWidth = WIDTH - labelWidth - 56;
+  const x = (value: number) => labelWidth + ((value - min) / (max - min)) * plotWidth;
+
+  const description = `${chart.title}: bar chart comparing ${chart.bars.length} values in ${chart.unit}`;
+
+  return (
+    <figure className="rich-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} role="img" aria-label={description} aria-describedby={describedBy}>
+        <title>{description}</title>
+        {chart.bars.map((bar, index) => {
+          const top = 4 + index * rowHeight;
+          const start = x(Math.min(0, bar.value));
+          return (
+            <g key={`${bar.label}-${index}`}>
+              <text x={labelWidth - 6} y={top + rowHeight / 2} className="chart-tick" textAnchor="end" dominantBaseline="middle">{bar.label}</text>
+              <rect x={start} y={top + 3} width={Math.max(1, Math.abs(x(bar.value) - x(0)))} height={rowHeight - 6} fill={SERIES_COLORS[0]} rx={2} />
+              <text x={Math.max(x(bar.value), x(0)) + 4} y={top + rowHeight / 2} className="chart-tick" dominantBaseline="middle">{formatValue(bar.value)}</text>
+            </g>
+          );
+        })}
+      </svg>
+      <figcaption className="chart-legend">{chart.unit}</figcaption>
+    </figure>
+  );
+};
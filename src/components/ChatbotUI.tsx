@@ -2,56 +2,90 @@ import React, { useState, useRef, useEffect, useCallback, forwardRef, useImperat
 import { processAndRespond } from '../utils/messageProcessor';
 import { useKeyboardNavigation } from '../hooks/useKeyboardNavigation';
 import { useAriaLive, getAccessibleFieldProps } from '../utils/accessibility';
-import { Trash2 } from 'lucide-react';
+import { Trash2, MessagesSquare } from 'lucide-react';
 import * as TooltipPrimitive from '@radix-ui/react-tooltip';
-import chatInsightsStore from '../state/globalChatState';
-import ChatStorage from '../utils/chatStorage';
+import ChatStorage, { mergeMessages } from '../utils/chatStorage';
+import chatSync from '../utils/chatSync';
+import type { ChatSession, SessionContext, SessionSummary, TurnContext } from '../utils/chatStorage';
+import dialogManager from '../utils/dialogManager';
+import conversationContext from '../state/conversationContext';
+import {
+  createBotReply,
+  createFailedReply,
+  createUserMessage,
+  editMessageText,
+  findMessage,
+  messagesBefore,
+  removeMessage,
+  replaceReplies,
+  repliesTo,
+  supersedeReply,
+  updateMessage,
+} from '../utils/messageModel';
+import type { ChatMessage } from '../utils/messageModel';
+import { ConversationImportError, TRANSCRIPT_FORMATS, buildTranscriptFile, parseConversationExport } from '../utils/conversationExport';
+import type { TranscriptFormat } from '../utils/conversationExport';
+import FeedbackLog, { INTENT_LABELS, buildFeedbackFile, createFeedbackEntry } from '../utils/feedbackLog';
+import type { FeedbackEntry, FeedbackRating } from '../utils/feedbackLog';
+import type { Intent } from '../utils/intentDetection';
 import './ChatbotUI.css';
 import Message from './Message';
 import Button from './Button';
 import HelpPanel from './HelpPanel';
+import InsightsPanel from './InsightsPanel';
+import SessionList from './SessionList';
 import Tooltip from './Tooltip';
 
+// Same id in every tab, so merging two copies of a new conversation keeps one greeting
+const welcomeMessage = (): ChatMessage => ({
+  id: 'welcome',
+  text: 'Hello! I\'m here to help with Eurostat energy data. What can I do for you?',
+  sender: 'bot',
+  timestamp: new Date(),
+  status: 'delivered',
+});
 
-interface Message {
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: Date;
-  metadata?: {
-    actions?: Array<{
-      type: 'mailto' | 'link' | 'button';
-      label: string;
-      url: string;
-    }>;
-  };
-}
+// Query context that belongs to the conversation on screen
+const captureContext = (beforeLatest?: TurnContext | null): SessionContext => ({
+  conversation: conversationContext.snapshot(),
+  frame: dialogManager.pending,
+  ...(beforeLatest ? { beforeLatest } : {}),
+});
 
 interface ChatbotUIProps {
   onClose?: () => void;
 }
 
 export interface ChatbotUIHandlers {
-  handleSend: () => void;
+  handleSend: (text?: string) => void;
   clearInput: () => void;
   clearChat: () => void;
   navigateHistory: (direction: 'up' | 'down') => void;
   focusInput: () => void;
+  toggleInsights: () => void;
 }
 
+// ?debug in the page URL opens the insights panel from the start
+const debugRequested = () => typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('debug');
+
 const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, ref) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      text: 'Hello! I\'m here to help with Eurostat energy data. What can I do for you?',
-      sender: 'bot',
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [welcomeMessage()]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [messageHistory, setMessageHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [showHelp, setShowHelp] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<FeedbackEntry[]>([]);
+  const [showInsights, setShowInsights] = useState(debugRequested);
+  // Context the latest question was answered from; only that question can be asked again,
+  // since every earlier one was understood against a context that is gone
+  const turnStart = useRef<TurnContext | null>(null);
+  const [latestQuestionId, setLatestQuestionId] = useState<string | null>(null);
 
   // Accessibility announcements
   const announceMessage = useAriaLive('polite');
@@ -63,14 +97,35 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
 
   useEffect(scrollToBottom, [messages]);
 
-  // Load chat history on mount
+  const startTurn = useCallback((context: TurnContext | null) => {
+    turnStart.current = context;
+    setLatestQuestionId(context?.questionId ?? null);
+  }, []);
+
+  const refreshSessions = useCallback(async () => {
+    setSessions(await ChatStorage.listSessions());
+  }, []);
+
+  // Show a conversation and put back the query context its follow-ups refer to
+  const applySession = useCallback((session: ChatSession) => {
+    setSessionId(session.id);
+    setMessages(session.messages.length > 0 ? session.messages : [welcomeMessage()]);
+    setMessageHistory(session.messageHistory);
+    setHistoryIndex(-1);
+    setInput('');
+    conversationContext.restore(session.context?.conversation ?? null);
+    dialogManager.restore(session.context?.frame ?? null);
+    startTurn(session.context?.beforeLatest ?? null);
+  }, [startTurn]);
+
+  // Load the active conversation on mount
   useEffect(() => {
     const loadChatHistory = async () => {
       try {
-        const savedHistory = await ChatStorage.loadChatHistory();
-        if (savedHistory && savedHistory.messages.length > 0) {
-          setMessages(savedHistory.messages);
-          setMessageHistory(savedHistory.messageHistory);
+        const session = await ChatStorage.loadActiveSession();
+        applySession(session);
+        await refreshSessions();
+        if (session.messages.length > 0) {
           announceStatus('Previous chat history loaded');
         }
       } catch (error) {
@@ -81,7 +136,31 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
     loadChatHistory();
 
 
-  }, [announceStatus]);
+  }, [announceStatus, applySession, refreshSessions]);
+
+  useEffect(() => {
+    FeedbackLog.list().then(setFeedback);
+  }, []);
+
+  // Changes made in other tabs: merge new messages into the conversation on screen and
+  // keep the list current. The query context stays this tab's own.
+  useEffect(() => chatSync.subscribe(async event => {
+    if (event.sessionId === sessionId) {
+      const session = event.type === 'session-updated'
+        ? await ChatStorage.loadSession(sessionId)
+        : await ChatStorage.loadActiveSession();
+      if (session?.id !== sessionId) {
+        if (session) applySession(session);
+        announceStatus('This conversation was deleted in another tab');
+      } else if (session) {
+        setMessages(current => {
+          const merged = mergeMessages(current, session.messages, session.clearedAt, session.deletedMessageIds);
+          return merged.length > 0 ? merged : [welcomeMessage()];
+        });
+      }
+    }
+    await refreshSessions();
+  }), [sessionId, applySession, refreshSessions, announceStatus]);
 
   // Message history navigation
   const navigateHistory = useCallback((direction: 'up' | 'down') => {
@@ -112,91 +191,247 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
 
   // Clear chat
   const clearChat = useCallback(async () => {
-    setMessages([
-      {
-        text: 'Hello! I\'m here to help with Eurostat energy data. What can I do for you?',
-        sender: 'bot',
-        timestamp: new Date(),
-      },
-    ]);
+    // Empty the stored conversation first: the new welcome message must postdate the clear
+    // or it would be dropped when other tabs merge. The other conversations are kept.
+    if (sessionId) await ChatStorage.clearChatHistory(sessionId);
+    setMessages([welcomeMessage()]);
     setMessageHistory([]);
     setHistoryIndex(-1);
     setInput('');
-    // Clear chat insights store
-    chatInsightsStore.clear();
-    // Clear stored chat history
-    await ChatStorage.clearChatHistory();
+    // Drop any half-asked data query and the query follow-ups refer to
+    dialogManager.reset();
+    conversationContext.clear();
+    startTurn(null);
+    await refreshSessions();
     announceStatus('Chat cleared. Starting fresh conversation.');
+  }, [sessionId, announceStatus, refreshSessions, startTurn]);
+
+  /* ---------- Conversations ---------- */
+
+  const openSession = useCallback(async (session: ChatSession | null, announcement: string) => {
+    if (!session) return;
+    applySession(session);
+    setShowSessions(false);
+    await refreshSessions();
+    announceStatus(announcement);
+  }, [applySession, refreshSessions, announceStatus]);
+
+  const createConversation = useCallback(async () => {
+    const session = await ChatStorage.createSession();
+    await openSession(session, 'New conversation started');
+  }, [openSession]);
+
+  const switchConversation = useCallback(async (id: string) => {
+    if (id === sessionId) {
+      setShowSessions(false);
+      return;
+    }
+    const session = await ChatStorage.switchSession(id);
+    await openSession(session, `Switched to ${session?.title ?? 'conversation'}`);
+  }, [sessionId, openSession]);
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    await ChatStorage.renameSession(id, title);
+    await refreshSessions();
+  }, [refreshSessions]);
+
+  const duplicateConversation = useCallback(async (id: string) => {
+    const session = await ChatStorage.duplicateSession(id);
+    await openSession(session, `Duplicated as ${session?.title ?? 'a new conversation'}`);
+  }, [openSession]);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    const next = await ChatStorage.deleteSession(id);
+    if (next.id === sessionId) {
+      await refreshSessions();
+      announceStatus('Conversation deleted');
+      return;
+    }
+    applySession(next);
+    await refreshSessions();
+    announceStatus(`Conversation deleted. Now showing ${next.title}`);
+  }, [sessionId, applySession, refreshSessions, announceStatus]);
+
+  const exportConversation = useCallback(async (id: string, format: TranscriptFormat) => {
+    const session = await ChatStorage.loadSession(id);
+    if (!session) return;
+    const file = buildTranscriptFile(session, format);
+    const link = document.createElement('a');
+    link.href = file.url;
+    link.download = file.filename;
+    link.click();
+    announceStatus(`${session.title} exported as ${TRANSCRIPT_FORMATS[format].label}`);
   }, [announceStatus]);
 
+  const importConversation = useCallback(async (file: File) => {
+    try {
+      const { session: record, droppedMessages } = parseConversationExport(await file.text());
+      const session = await ChatStorage.importSession(record);
+      setImportError(null);
+      // Messages with malformed content or links to anything but https, mailto or a file are left out
+      const skipped = droppedMessages > 0
+        ? `, without ${droppedMessages} damaged message${droppedMessages === 1 ? '' : 's'}`
+        : '';
+      await openSession(session, `Imported ${session.title}${skipped}`);
+    } catch (error) {
+      const reason = error instanceof ConversationImportError ? error.message : 'The file could not be read';
+      console.error('Failed to import conversation:', error);
+      setImportError(`Could not import ${file.name}. ${reason}.`);
+      announceStatus(`Import failed. ${reason}`);
+    }
+  }, [openSession, announceStatus]);
+
   // Focus input
   const focusInput = useCallback(() => {
     inputRef.current?.focus();
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const handleSend = useCallback(async () => {
-    if (!input.trim() || loading) return;
+  // Answers a question that is already on screen; an earlier reply to it is replaced. Given
+  // the reply being replaced, the new answer takes its place and keeps it as a version.
+  const answer = useCallback(async (question: ChatMessage, conversation: ChatMessage[], previous?: ChatMessage): Promise<ChatMessage[]> => {
+    setLoading(true);
+    // The latest question answered again starts from the context it was first asked in: an
+    // old "yes" still has its proposal and a follow-up refines the query it referred to
+    const start = turnStart.current;
+    if (start?.questionId === question.id) {
+      conversationContext.restore(start.conversation);
+      dialogManager.restore(start.frame);
+    }
+    startTurn({ questionId: question.id, ...captureContext() });
+    let reply: ChatMessage;
+    try {
+      // Process the message and generate response (complete pipeline), with the
+      // conversation as it stood before the question to correctly detect a first message
+      const { response, turnId } = await processAndRespond(question.text, messagesBefore(conversation, question.id));
+      reply = createBotReply(question, response, turnId);
+      announceMessage('Bot response received');
+    } catch {
+      reply = createFailedReply(question);
+      announceStatus('Error occurred while processing message');
+    } finally {
+      setLoading(false);
+      announceStatus('Ready for next message');
+    }
+
+    if (previous) reply = supersedeReply(previous, reply);
+    const answered = replaceReplies(updateMessage(conversation, question.id, { status: reply.status, turnId: reply.turnId }), reply);
+    setMessages(answered);
+    return answered;
+  }, [announceMessage, announceStatus, startTurn]);
+
+  // Save the conversation, with the query context follow-ups will refer to. The saved copy
+  // also holds whatever another tab added to this conversation meanwhile.
+  const persist = useCallback(async (conversation: ChatMessage[], history: string[], removedIds: string[] = []) => {
+    if (!sessionId) return;
+    if (removedIds.length > 0) await ChatStorage.deleteMessages(sessionId, removedIds);
+    const saved = await ChatStorage.saveSession(sessionId, conversation, history, captureContext(turnStart.current));
+    if (saved) setMessages(saved.messages.length > 0 ? saved.messages : [welcomeMessage()]);
+    await refreshSessions();
+  }, [sessionId, refreshSessions]);
+
+  // Sends the typed input, or the given text (suggestion chips) without touching the input
+  const handleSend = useCallback(async (text?: string) => {
+    const currentInput = text ?? input;
+    if (!currentInput.trim() || loading) return;
 
-    const currentInput = input;
     const newMessageHistory = [...messageHistory, currentInput];
 
     // Add to message history
     setMessageHistory(newMessageHistory);
     setHistoryIndex(-1);
 
-    const userMessage: Message = {
-      text: currentInput,
-      sender: 'user',
-      timestamp: new Date(),
-    };
-
-    const messagesWithUser = [...messages, userMessage];
-    setMessages(messagesWithUser);
+    const question = createUserMessage(currentInput);
+    const conversation = [...messages, question];
+    setMessages(conversation);
     announceMessage('Message sent');
 
-    setInput('');
-    setLoading(true);
-
-    let finalMessages = messagesWithUser;
-    const finalMessageHistory = newMessageHistory;
+    if (text === undefined) setInput('');
+
+    const answered = await answer(question, conversation);
+    await persist(answered, newMessageHistory);
+  }, [input, loading, messages, messageHistory, announceMessage, answer, persist]);
+
+  // Ask a question again, from the question or one of its replies: retries a failed turn
+  // and regenerates a delivered answer. The answer being replaced stays in its history.
+  const askAgain = useCallback(async (id: string, announcement: string) => {
+    const target = findMessage(messages, id);
+    const question = target?.parentId ? findMessage(messages, target.parentId) : target;
+    if (!question || question.sender !== 'user' || question.id !== turnStart.current?.questionId || loading) return;
+
+    const replies = repliesTo(messages, question.id);
+    const previous = replies[replies.length - 1];
+    const staleReplies = replies.filter(msg => msg !== previous).map(msg => msg.id);
+    const conversation = updateMessage(messages.filter(msg => !staleReplies.includes(msg.id)), question.id, { status: 'pending' });
+    setMessages(conversation);
+    announceStatus(announcement);
+
+    const answered = await answer({ ...question, status: 'pending' }, conversation, previous);
+    await persist(answered, messageHistory, staleReplies);
+  }, [messages, messageHistory, loading, answer, persist, announceStatus]);
+
+  const retryMessage = useCallback((id: string) => askAgain(id, 'Retrying message'), [askAgain]);
+  const regenerateMessage = useCallback((id: string) => askAgain(id, 'Regenerating answer'), [askAgain]);
+
+  // Change a question's text; it is answered again in place
+  const editMessage = useCallback(async (id: string, text: string) => {
+    const question = findMessage(messages, id);
+    if (!question || question.sender !== 'user' || !text.trim() || loading) return;
+
+    const staleReplies = repliesTo(messages, id).map(msg => msg.id);
+    const conversation = editMessageText(messages.filter(msg => msg.parentId !== id), id, text.trim());
+    setMessages(conversation);
+    announceStatus('Message edited');
+
+    const answered = await answer(findMessage(conversation, id) ?? question, conversation);
+    await persist(answered, messageHistory, staleReplies);
+  }, [messages, messageHistory, loading, answer, persist, announceStatus]);
+
+  // Remove a message; a question goes together with its replies
+  const deleteMessage = useCallback(async (id: string) => {
+    if (loading) return;
+    const { messages: remaining, removedIds } = removeMessage(messages, id);
+    setMessages(remaining.length > 0 ? remaining : [welcomeMessage()]);
+    announceStatus(removedIds.length > 1 ? 'Message and its reply deleted' : 'Message deleted');
+    await persist(remaining, messageHistory, removedIds);
+  }, [messages, messageHistory, loading, persist, announceStatus]);
+
+  const rateMessage = useCallback(async (id: string, rating: FeedbackRating) => {
+    const reply = findMessage(messages, id);
+    const question = reply?.parentId ? findMessage(messages, reply.parentId) : undefined;
+    const entry = reply && question ? createFeedbackEntry(question, reply, rating) : null;
+    if (!entry) return;
+    setFeedback(await FeedbackLog.rate(entry));
+    announceStatus(rating === 'up' ? 'Thanks for the feedback' : 'Thanks. What did you mean?');
+  }, [messages, announceStatus]);
+
+  const correctIntent = useCallback(async (id: string, intent: Intent) => {
+    const turnId = findMessage(messages, id)?.turnId;
+    if (!turnId) return;
+    setFeedback(await FeedbackLog.correct(turnId, intent));
+    announceStatus(`Noted: ${INTENT_LABELS[intent]}`);
+  }, [messages, announceStatus]);
+
+  const exportFeedback = useCallback(async () => {
+    const file = buildFeedbackFile(await FeedbackLog.list());
+    const link = document.createElement('a');
+    link.href = file.url;
+    link.download = file.filename;
+    link.click();
+    announceStatus('Answer feedback exported as labeled data');
+  }, [announceStatus]);
 
-    try {
-      // Process the message and generate response (complete pipeline)
-      // Pass messages BEFORE adding user message to correctly detect first message
-      const responseResult = await processAndRespond(currentInput, messages, finalMessageHistory);
-
-      const botMessage: Message = {
-        text: responseResult.text,
-        sender: 'bot',
-        timestamp: new Date(),
-        metadata: responseResult.metadata
-      };
-
-      finalMessages = [...messagesWithUser, botMessage];
-      setMessages(finalMessages);
-      announceMessage('Bot response received');
-    } catch {
-      const errorMessage: Message = {
-        text: 'Sorry, I encountered an error processing your message.',
-        sender: 'bot',
-        timestamp: new Date(),
-      };
-      finalMessages = [...messagesWithUser, errorMessage];
-      setMessages(finalMessages);
-      announceStatus('Error occurred while processing message');
-    } finally {
-      setLoading(false);
-      announceStatus('Ready for next message');
-    }
-  }, [input, loading, messages, messageHistory, announceMessage, announceStatus]);
+  const toggleInsights = useCallback(() => {
+    setShowInsights(shown => !shown);
+  }, []);
 
   // Keyboard navigation hook - disabled when in modal (modal handles focus trapping)
   const { inputRef, containerRef, handleKeyDown } = useKeyboardNavigation({
-    onSend: handleSend,
+    onSend: () => handleSend(),
     onClear: clearInput,
     onNavigateHistory: navigateHistory,
     onFocusInput: focusInput,
     onEscape: onClose || clearInput,
+    onToggleInsights: toggleInsights,
     disabled: loading || !!onClose, // Disable when in modal
   });
 
@@ -217,7 +452,8 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
     clearChat,
     navigateHistory,
     focusInput,
-  }), [handleSend, clearInput, clearChat, navigateHistory, focusInput]);
+    toggleInsights,
+  }), [handleSend, clearInput, clearChat, navigateHistory, focusInput, toggleInsights]);
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -243,10 +479,28 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
           AI-powered chatbot for Eurostat energy data queries. Use keyboard shortcuts or type questions about energy statistics.
         </div>
         <div className="header-buttons">
+          <Tooltip content="Conversations" side="bottom">
+            <button
+              className="clear-button"
+              onClick={() => {
+                setShowSessions(!showSessions);
+                setShowHelp(false);
+              }}
+              aria-label={showSessions ? "Hide conversations" : "Show conversations"}
+              aria-expanded={showSessions}
+              aria-controls="session-list"
+              type="button"
+            >
+              <MessagesSquare size={16} />
+            </button>
+          </Tooltip>
           <Tooltip content="Help & Keyboard Shortcuts" side="bottom">
             <button
               className="menu-button"
-              onClick={() => setShowHelp(!showHelp)}
+              onClick={() => {
+                setShowHelp(!showHelp);
+                setShowSessions(false);
+              }}
               aria-label={showHelp ? "Hide help menu" : "Show help menu"}
               aria-expanded={showHelp}
               aria-controls="help-panel"
@@ -284,7 +538,26 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
         </div>
       </div>
 
-      {showHelp ? (
+      {showSessions ? (
+        <div id="session-list" className="session-list-container">
+          <SessionList
+            sessions={sessions}
+            activeId={sessionId}
+            disabled={loading}
+            onSelect={switchConversation}
+            onCreate={createConversation}
+            onRename={renameConversation}
+            onDuplicate={duplicateConversation}
+            onDelete={deleteConversation}
+            onExport={exportConversation}
+            onImport={importConversation}
+            importError={importError}
+            feedbackCount={feedback.length}
+            onExportFeedback={exportFeedback}
+            onClose={() => setShowSessions(false)}
+          />
+        </div>
+      ) : showHelp ? (
         <div
           id="help-panel"
           className="help-panel-container"
@@ -299,8 +572,20 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
           aria-live="polite"
           aria-atomic="false"
         >
-          {messages.map((message, index) => (
-            <Message key={index} message={message} />
+          {messages.map(message => (
+            <Message
+              key={message.id}
+              message={message}
+              onSuggestion={handleSend}
+              onEdit={editMessage}
+              onRetry={latestQuestionId && [message.id, message.parentId].includes(latestQuestionId) ? retryMessage : undefined}
+              onRegenerate={latestQuestionId && message.parentId === latestQuestionId ? regenerateMessage : undefined}
+              onDelete={message.id === 'welcome' ? undefined : deleteMessage}
+              feedback={feedback.find(entry => entry.turnId === message.turnId)}
+              onRate={rateMessage}
+              onCorrect={correctIntent}
+              busy={loading}
+            />
           ))}
           {loading && (
             <div className="message bot" aria-live="assertive">
@@ -312,6 +597,12 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
         </div>
       )}
 
+      {showInsights && (
+        <div id="insights-panel" className="insights-panel-container">
+          <InsightsPanel feedback={feedback} onClose={() => setShowInsights(false)} />
+        </div>
+      )}
+
       <div className="input-container" role="form" aria-label="Message input">
         {(() => {
           const label = 'Type your message about Eurostat energy data';
@@ -349,7 +640,7 @@ const ChatbotUI = forwardRef<ChatbotUIHandlers, ChatbotUIProps>(({ onClose }, re
           );
         })()}
         <Button
-          onClick={handleSend}
+          onClick={() => handleSend()}
           disabled={!input.trim() || loading}
           aria-label={loading ? "Sending message..." : "Send message"}
         >
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Download } from 'lucide-react';
+import { useAriaIds } from '../utils/accessibility';
+import chatInsightsStore from '../state/globalChatState';
+import type { ChatInsightEntry } from '../state/globalChatState';
+import type { FeedbackEntry } from '../utils/feedbackLog';
+import type { Intent } from '../utils/intentDetection';
+import { textUrl } from '../utils/dataExport';
+import './InsightsPanel.css';
+
+interface InsightsPanelProps {
+  /** Answer ratings, for the share of turns whose intent users corrected */
+  feedback?: FeedbackEntry[];
+  onClose?: () => void;
+}
+
+// Enough to follow a conversation; the full log is in the export
+const SHOWN_TURNS = 30;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Entities with empty lists, false flags and unset fields left out
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.length > 0 ? value : undefined;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .map(([key, inner]) => [key, compact(inner)] as const)
+      .filter(([, inner]) => inner !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return value === false || value === null || value === '' ? undefined : value;
+}
+
+const Turn: React.FC<{ entry: ChatInsightEntry }> = ({ entry }) => {
+  const { resolution, diagnostics } = entry;
+  const scores = (Object.entries(resolution.scores) as [Intent, number][]).sort((a, b) => b[1] - a[1]);
+  const guesses = (Object.entries(resolution.classifier ?? {}) as [Intent, number][])
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3);
+  const flags = Object.entries(diagnostics?.flags ?? {}).filter(([, on]) => on).map(([flag]) => flag);
+  const entities = compact(entry.entities);
+
+  return (
+    <li className="insights-turn">
+      <div className="insights-turn-header">
+        <span className="insights-turn-text">{entry.raw}</span>
+        <time dateTime={new Date(entry.timestamp).toISOString()}>
+          {new Date(entry.timestamp).toLocaleTimeString()}
+        </time>
+      </div>
+      {entry.cleaned !== entry.raw && (
+        <div className="insights-row"><span>Cleaned</span><code>{entry.cleaned}</code></div>
+      )}
+      {diagnostics?.clauses && (
+        <div className="insights-row"><span>Clauses</span>{diagnostics.clauses.map(clause => `"${clause}"`).join(' → ')}</div>
+      )}
+      <div className="insights-row">
+        <span>Primary</span><strong>{resolution.primary}</strong>
+      </div>
+      <div className="insights-row">
+        <span>Confidence</span>
+        {resolution.confidence === undefined
+          ? '—'
+          : `${Math.round(resolution.confidence * 100)}% (margin ${Math.round((resolution.margin ?? 0) * 100)} points)`}
+      </div>
+      <div className="insights-row">
+        <span>Co-intents</span>{resolution.coIntents.join(', ') || '—'}
+      </div>
+      <div className="insights-row">
+        <span>Modifiers</span>{resolution.modifiers.join(', ') || '—'}
+      </div>
+      <div className="insights-row">
+        <span>Classifier</span>
+        {guesses.length ? guesses.map(([intent, p]) => `${intent} ${Math.round(p * 100)}%`).join(', ') : '—'}
+      </div>
+      <div className="insights-row">
+        <span>Corrections</span>
+        {diagnostics?.corrections.length
+          ? diagnostics.corrections.map(c => `${c.from} → ${c.to} (${c.reason})`).join(', ')
+          : '—'}
+      </div>
+      <div className="insights-row">
+        <span>Removed</span>
+        {diagnostics?.removed?.length ? diagnostics.removed.map(r => `${r.type}: ${r.value}`).join(', ') : '—'}
+      </div>
+      <div className="insights-row">
+        <span>Flags</span>{flags.join(', ') || '—'}
+      </div>
+
+      <details>
+        <summary>Scores</summary>
+        <table className="insights-scores">
+          <thead>
+            <tr><th scope="col">Intent</th><th scope="col">Score</th></tr>
+          </thead>
+          <tbody>
+            {scores.map(([intent, score]) => (
+              <tr key={intent} className={score > 0 ? 'scored' : undefined}>
+                <th scope="row">{intent}</th>
+                <td>{Number(score.toFixed(2))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+      <details>
+        <summary>Entities</summary>
+        <pre>{entities ? JSON.stringify(entities, null, 2) : 'None found'}</pre>
+      </details>
+    </li>
+  );
+};
+
+/**
+ * Developer view of how each message was understood: preprocessing, intent scores and
+ * the entities extracted. Follows chatInsightsStore as turns are recorded.
+ */
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ feedback, onClose }) => {
+  const headingId = useAriaIds('insights-heading');
+  const [entries, setEntries] = useState<ChatInsightEntry[]>(() => chatInsightsStore.entries);
+
+  useEffect(() => {
+    let active = true;
+    // Entries from earlier visits may still be loading
+    chatInsightsStore.ready.then(() => {
+      if (active) setEntries(chatInsightsStore.entries);
+    });
+    const unsubscribe = chatInsightsStore.subscribe(() => setEntries(chatInsightsStore.entries));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const stats = chatInsightsStore.stats(undefined, feedback);
+  const shown = entries.slice(-SHOWN_TURNS).reverse();
+
+  const exportLog = () => {
+    const link = document.createElement('a');
+    link.href = textUrl(chatInsightsStore.exportNdjson(), 'application/x-ndjson');
+    link.download = `enchatbot-insights-${new Date().toISOString().slice(0, 10)}.ndjson`;
+    link.click();
+  };
+
+  return (
+    <section className="insights-panel" aria-labelledby={headingId}>
+      <header className="insights-header">
+        <Activity size={18} aria-hidden="true" className="insights-icon" />
+        <h2 id={headingId}>Insights</h2>
+        <button type="button" className="insights-export-button" onClick={exportLog} disabled={entries.length === 0}>
+          <Download size={14} aria-hidden="true" /> NDJSON
+        </button>
+        {onClose && (
+          <button type="button" className="insights-close-button" onClick={onClose} aria-label="Close insights panel">
+            ×
+          </button>
+        )}
+      </header>
+
+      <p className="insights-stats">
+        {stats.total} turns · fallback {percent(stats.fallbackRate)} · spell-corrected {percent(stats.spellCorrectionRate)} · intent corrected {percent(stats.intentCorrectionRate)}
+      </p>
+
+      {shown.length === 0 ? (
+        <p className="insights-empty">Send a message to see how it is understood.</p>
+      ) : (
+        <ol className="insights-turns" aria-live="polite">
+          {shown.map(entry => <Turn key={entry.id} entry={entry} />)}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default InsightsPanel;
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown } from '../utils/markdown';
+import type { BlockNode, InlineNode } from '../utils/markdown';
+import './Markdown.css';
+
+interface MarkdownProps {
+  text: string;
+}
+
+function renderInline(nodes: InlineNode[], keyPrefix = ''): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={key}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={key}>{renderInline(node.children, `${key}-`)}</strong>;
+      case 'em':
+        return <em key={key}>{renderInline(node.children, `${key}-`)}</em>;
+      case 'code':
+        return <code key={key} className="md-code">{node.text}</code>;
+      case 'break':
+        return <br key={key} />;
+      case 'link': {
+        const external = node.href.startsWith('http');
+        return (
+          <a
+            key={key}
+            href={node.href}
+            className="md-link"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          >
+            {renderInline(node.children, `${key}-`)}
+            {external && <span className="sr-only"> (opens in a new tab)</span>}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+function renderBlock(block: BlockNode, index: number): React.ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={index} className="md-paragraph">{renderInline(block.children)}</p>;
+    case 'heading':
+      // Message-level headings stay out of the page outline
+      return <p key={index} className="md-heading"><strong>{renderInline(block.children)}</strong></p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className="md-list">
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'table':
+      return (
+        <div key={index} className="md-table-wrapper" tabIndex={0} role="region" aria-label="Table">
+          <table className="md-table">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} scope="col" style={{ textAlign: block.align[column] }}>{renderInline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} style={{ textAlign: block.align[column] }}>{renderInline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+}
+
+/**
+ * Renders the Markdown subset of bot messages as React elements (never as HTML strings)
+ */
+const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="markdown">{blocks.map(renderBlock)}</div>;
+};
+
+export default Markdown;
@@ -1,51 +1,286 @@
-import React from 'react';
-import { Bot, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { Bot, User, ChevronLeft, ChevronRight, Pencil, RefreshCw, RotateCcw, ThumbsDown, ThumbsUp, Trash2 } from 'lucide-react';
+import Markdown from './Markdown';
+import { RichContentBlock, SuggestionChips } from './RichContent';
+import { exportDataset } from '../utils/dataExport';
+import { INTENT_LABELS } from '../utils/feedbackLog';
+import type { FeedbackEntry, FeedbackRating } from '../utils/feedbackLog';
+import type { Intent } from '../utils/intentDetection';
+import { isSafeActionUrl } from '../utils/messageModel';
+import type { ChatMessage, MessageAction } from '../utils/messageModel';
 
-interface ResolverAction {
-  type: 'mailto' | 'link' | 'button';
-  label: string;
-  url: string;
+interface MessageProps {
+  message: ChatMessage;
+  /** Sends a suggestion chip's text as the next user message */
+  onSuggestion?: (text: string) => void;
+  /** Replaces a question's text; it is then answered again */
+  onEdit?: (id: string, text: string) => void;
+  /** Asks a failed question again */
+  onRetry?: (id: string) => void;
+  /** Answers a question again, keeping the current answer among the reply's versions */
+  onRegenerate?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  /** The rating given to the answer on screen, if any */
+  feedback?: FeedbackEntry;
+  onRate?: (id: string, rating: FeedbackRating) => void;
+  /** Records the intent picked after a thumbs down */
+  onCorrect?: (id: string, intent: Intent) => void;
+  /** Chips and message tools are disabled while a reply is pending */
+  busy?: boolean;
 }
 
-interface Message {
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: Date;
-  metadata?: {
-    actions?: ResolverAction[];
-  };
-}
+const STATUS_TEXT: Partial<Record<ChatMessage['status'], string>> = {
+  pending: 'Sending…',
+  failed: 'Not answered',
+};
 
-interface MessageProps {
-  message: Message;
+/**
+ * Save a data: URL under a file name through an anchor with `download`
+ */
+function saveFile(url: string, filename = 'download'): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
 }
 
-const MessageComponent: React.FC<MessageProps> = ({ message }) => {
-  const handleActionClick = (url: string) => {
-    window.location.href = url;
+const MessageComponent: React.FC<MessageProps> = ({ message, onSuggestion, onEdit, onRetry, onRegenerate, onDelete, feedback, onRate, onCorrect, busy }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  // Index into previousVersions of the earlier answer on screen; null shows the current one
+  const [versionIndex, setVersionIndex] = useState<number | null>(null);
+  const [pickerDismissed, setPickerDismissed] = useState(false);
+  const [shownVersionCount, setShownVersionCount] = useState(message.previousVersions?.length ?? 0);
+  // Index of the download button whose file is being built, and of the last one that failed
+  const [exporting, setExporting] = useState<number | null>(null);
+  const [exportFailed, setExportFailed] = useState<number | null>(null);
+
+  const versions = message.previousVersions ?? [];
+  // A regenerated answer arrives under the same id: show it rather than the version picked before
+  if (versions.length !== shownVersionCount) {
+    setShownVersionCount(versions.length);
+    setVersionIndex(null);
+  }
+  const shown = versionIndex === null ? message : versions[versionIndex];
+  const versionNumber = (versionIndex ?? versions.length) + 1;
+  const showVersion = (number: number) => setVersionIndex(number > versions.length ? null : number - 1);
+
+  const handleActionClick = async (action: MessageAction, index: number) => {
+    // Stored and imported messages are checked on load; this covers anything that slipped past
+    if (!isSafeActionUrl(action.url)) {
+      console.warn('Refused to follow an unsafe action URL:', action.url);
+      return;
+    }
+    if (action.type !== 'download') {
+      window.location.href = action.url;
+      return;
+    }
+    // Exports are built from their selection when clicked; older messages stored the file itself
+    if (!action.export) {
+      saveFile(action.url, action.filename);
+      return;
+    }
+    setExporting(index);
+    setExportFailed(null);
+    try {
+      const file = await exportDataset(action.export);
+      saveFile(file.url, file.filename);
+    } catch (error) {
+      console.error('Export failed:', error);
+      setExportFailed(index);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const startEdit = () => {
+    setDraft(message.text);
+    setEditing(true);
+  };
+
+  const commitEdit = () => {
+    setEditing(false);
+    if (draft.trim() && draft.trim() !== message.text) onEdit?.(message.id, draft);
+  };
+
+  const handleEditKey = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep Enter and Escape from reaching the chat's keyboard shortcuts
+    e.stopPropagation();
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditing(false);
+    }
+  };
+
+  const isUser = message.sender === 'user';
+  const statusText = isUser ? STATUS_TEXT[message.status] : undefined;
+  const canEdit = isUser && onEdit && message.status !== 'pending';
+  const canRetry = message.status === 'failed' && onRetry;
+  const canRegenerate = !isUser && message.status === 'delivered' && message.parentId && onRegenerate;
+  // Only the current answer is rated; earlier versions are there to compare
+  const canRate = canRegenerate && onRate && versionIndex === null;
+  const showPicker = canRate && feedback?.rating === 'down' && !feedback.correctedIntent && !pickerDismissed;
+
+  const rate = (rating: FeedbackRating) => {
+    setPickerDismissed(false);
+    onRate?.(message.id, rating);
   };
 
   return (
-    <div className={`message ${message.sender}`}>
+    <div className={`message ${message.sender}${message.status === 'failed' ? ' failed' : ''}`}>
       {message.sender === 'bot' && (
         <div className="message-icon bot-icon">
           <Bot size={16} />
         </div>
       )}
-      <div className="message-bubble">
-        {message.text}
-        {message.metadata?.actions && message.metadata.actions.length > 0 && (
-          <div className="message-actions">
-            {message.metadata.actions.map((action, index) => (
-              <button
-                key={index}
-                className="action-button"
-                onClick={() => handleActionClick(action.url)}
-                aria-label={action.label}
-              >
-                {action.label}
+      <div className="message-body">
+        <div className="message-bubble">
+          {editing ? (
+            <textarea
+              className="message-edit-input"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKey}
+              aria-label="Edit message"
+              rows={2}
+              autoFocus
+            />
+          ) : message.sender === 'bot' ? <Markdown text={shown.text} /> : message.text}
+          {shown.metadata?.content && shown.metadata.content.length > 0 && (
+            <div className="rich-content">
+              {shown.metadata.content.map((block, index) => (
+                <RichContentBlock key={`${block.kind}-${index}`} block={block} onSuggestion={onSuggestion} disabled={busy} />
+              ))}
+            </div>
+          )}
+          {shown.metadata?.actions && shown.metadata.actions.length > 0 && (
+            <div className="message-actions">
+              {shown.metadata.actions.map((action, index) => (
+                <button
+                  key={index}
+                  className="action-button"
+                  onClick={() => handleActionClick(action, index)}
+                  disabled={exporting === index}
+                  aria-label={action.label}
+                >
+                  {exporting === index ? 'Preparing…' : action.label}
+                </button>
+              ))}
+              {exportFailed !== null && (
+                <span className="message-status" role="alert">
+                  Couldn't build the file from Eurostat. Please try again.
+                </span>
+              )}
+            </div>
+          )}
+          {shown.metadata?.suggestions && (
+            <SuggestionChips chips={shown.metadata.suggestions} onSelect={onSuggestion} disabled={busy} />
+          )}
+        </div>
+
+        {(statusText || message.editedAt || editing || canEdit || canRetry || canRegenerate || canRate || versions.length > 0 || onDelete) && (
+          <div className="message-tools">
+            {statusText && <span className="message-status">{statusText}</span>}
+            {versions.length > 0 && (
+              <span className="message-versions">
+                <button
+                  type="button"
+                  onClick={() => showVersion(versionNumber - 1)}
+                  disabled={versionNumber === 1}
+                  aria-label="Previous answer"
+                >
+                  <ChevronLeft size={14} aria-hidden="true" />
+                </button>
+                <span className="message-status" aria-live="polite">
+                  Answer {versionNumber} of {versions.length + 1}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => showVersion(versionNumber + 1)}
+                  disabled={versionIndex === null}
+                  aria-label="Next answer"
+                >
+                  <ChevronRight size={14} aria-hidden="true" />
+                </button>
+              </span>
+            )}
+            {message.editedAt && !editing && <span className="message-status">Edited</span>}
+            {editing ? (
+              <>
+                <button type="button" onClick={commitEdit} disabled={busy || !draft.trim()}>Save</button>
+                <button type="button" onClick={() => setEditing(false)}>Cancel</button>
+              </>
+            ) : (
+              <>
+                {canRetry && (
+                  <button type="button" onClick={() => onRetry(message.id)} disabled={busy} aria-label="Retry this question">
+                    <RotateCcw size={14} aria-hidden="true" /> Retry
+                  </button>
+                )}
+                {canRate && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => rate('up')}
+                      disabled={busy}
+                      aria-label="Good answer"
+                      aria-pressed={feedback?.rating === 'up'}
+                      className={feedback?.rating === 'up' ? 'pressed' : undefined}
+                    >
+                      <ThumbsUp size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => rate('down')}
+                      disabled={busy}
+                      aria-label="Bad answer, the question was misunderstood"
+                      aria-pressed={feedback?.rating === 'down'}
+                      className={feedback?.rating === 'down' ? 'pressed' : undefined}
+                    >
+                      <ThumbsDown size={14} aria-hidden="true" />
+                    </button>
+                  </>
+                )}
+                {canRate && feedback?.correctedIntent && (
+                  <span className="message-status">Meant: {INTENT_LABELS[feedback.correctedIntent]}</span>
+                )}
+                {canRegenerate && (
+                  <button type="button" onClick={() => onRegenerate(message.id)} disabled={busy} aria-label="Regenerate this answer">
+                    <RefreshCw size={14} aria-hidden="true" /> Regenerate
+                  </button>
+                )}
+                {canEdit && (
+                  <button type="button" onClick={startEdit} disabled={busy} aria-label="Edit message">
+                    <Pencil size={14} aria-hidden="true" />
+                  </button>
+                )}
+                {onDelete && message.status !== 'pending' && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(message.id)}
+                    disabled={busy}
+                    aria-label={isUser ? 'Delete message and its reply' : 'Delete reply'}
+                  >
+                    <Trash2 size={14} aria-hidden="true" />
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {showPicker && (
+          <div className="intent-picker" role="group" aria-label="What did you mean?">
+            <span className="intent-picker-label">What did you mean?</span>
+            {feedback.alternatives.map(intent => (
+              <button key={intent} type="button" onClick={() => onCorrect?.(message.id, intent)} disabled={busy}>
+                {INTENT_LABELS[intent]}
               </button>
             ))}
+            <button type="button" onClick={() => setPickerDismissed(true)}>None of these</button>
           </div>
         )}
       </div>
@@ -58,4 +293,4 @@ const MessageComponent: React.FC<MessageProps> = ({ message }) => {
   );
 };
 
-export default MessageComponent;
\ No newline at end of file
+export default MessageComponent;
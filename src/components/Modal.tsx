@@ -12,6 +12,7 @@ interface ModalProps {
   onClear?: () => void;
   onNavigateHistory?: (direction: 'up' | 'down') => void;
   onFocusInput?: () => void;
+  onToggleInsights?: () => void;
 }
 
 export const Modal: React.FC<ModalProps> = ({
@@ -22,7 +23,8 @@ export const Modal: React.FC<ModalProps> = ({
   onSend,
   onClear,
   onNavigateHistory,
-  onFocusInput
+  onFocusInput,
+  onToggleInsights
 }) => {
   const modalRef = useRef<HTMLDivElement>(null);
   const { restoreFocus } = useFocusRestoration(isOpen);
@@ -103,8 +105,17 @@ export const Modal: React.FC<ModalProps> = ({
           return;
         }
         break;
+
+      case 'D':
+      case 'd':
+        if ((e.ctrlKey || e.metaKey) && e.shiftKey && !e.altKey && onToggleInsights) {
+          e.preventDefault();
+          onToggleInsights();
+          return;
+        }
+        break;
     }
-  }, [isOpen, onClose, onSend, onClear, onNavigateHistory, onFocusInput]);
+  }, [isOpen, onClose, onSend, onClear, onNavigateHistory, onFocusInput, onToggleInsights]);
 
   // Handle modal opening/closing
   useEffect(() => {
@@ -0,0 +1,142 @@
+import React, { useId } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { BarChart, TimeSeriesChart } from './Charts';
+import { isSafeActionUrl } from '../utils/messageModel';
+import { formatValue } from '../utils/richContent';
+import type { BarChartContent, DataTableContent, InfoCardContent, RichContent, TimeSeriesContent } from '../utils/richContent';
+import './RichContent.css';
+
+interface DataTableProps {
+  table: DataTableContent;
+}
+
+export const DataTable: React.FC<DataTableProps> = ({ table }) => (
+  <div className="rich-table-wrapper" tabIndex={0} role="region" aria-label={table.caption}>
+    <table className="rich-table">
+      <caption>{table.caption}</caption>
+      <thead>
+        <tr>
+          {table.columns.map(column => (
+            <th key={column.key} scope="col" className={column.numeric ? 'numeric' : undefined}>{column.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>
+            {table.columns.map(column => {
+              const value = row[column.key];
+              return (
+                <td key={column.key} className={column.numeric ? 'numeric' : undefined}>
+                  {typeof value === 'number' || value === null ? formatValue(value) : value}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {table.footnote && <p className="rich-footnote">{table.footnote}</p>}
+  </div>
+);
+
+interface ChartBlockProps {
+  chart: TimeSeriesContent | BarChartContent;
+}
+
+/**
+ * Chart with its text summary and a collapsible table of the plotted values
+ */
+export const ChartBlock: React.FC<ChartBlockProps> = ({ chart }) => {
+  const summaryId = useId();
+  const describedBy = chart.summary ? summaryId : undefined;
+
+  return (
+    <div className="rich-chart-block">
+      {chart.kind === 'timeseries'
+        ? <TimeSeriesChart chart={chart} describedBy={describedBy} />
+        : <BarChart chart={chart} describedBy={describedBy} />}
+      {chart.summary && <p id={summaryId} className="rich-chart-summary">{chart.summary}</p>}
+      {chart.fallback && (
+        <details className="rich-chart-fallback">
+          <summary>Show the data as a table</summary>
+          <DataTable table={chart.fallback} />
+        </details>
+      )}
+    </div>
+  );
+};
+
+interface InfoCardProps {
+  card: InfoCardContent;
+}
+
+export const InfoCard: React.FC<InfoCardProps> = ({ card }) => (
+  <section className="rich-card" aria-label={card.title}>
+    <h3 className="rich-card-title">{card.title}</h3>
+    {card.subtitle && <p className="rich-card-subtitle">{card.subtitle}</p>}
+    {card.body && <p className="rich-card-body">{card.body}</p>}
+    {card.fields && card.fields.length > 0 && (
+      <dl className="rich-card-fields">
+        {card.fields.map(field => (
+          <div key={field.label}>
+            <dt>{field.label}</dt>
+            <dd>{field.value}</dd>
+          </div>
+        ))}
+      </dl>
+    )}
+    {card.link && isSafeActionUrl(card.link.url) && (
+      <a className="rich-card-link" href={card.link.url} target="_blank" rel="noopener noreferrer">
+        {card.link.label} <ExternalLink size={12} aria-hidden="true" />
+      </a>
+    )}
+  </section>
+);
+
+interface SuggestionChipsProps {
+  chips: string[];
+  label?: string;
+  onSelect?: (text: string) => void;
+  disabled?: boolean;
+}
+
+export const SuggestionChips: React.FC<SuggestionChipsProps> = ({ chips, label = 'Suggestions', onSelect, disabled }) => {
+  if (!onSelect || chips.length === 0) return null;
+
+  return (
+    <div className="suggestion-chips" role="group" aria-label={label}>
+      {chips.map(chip => (
+        <button
+          key={chip}
+          type="button"
+          className="suggestion-chip"
+          onClick={() => onSelect(chip)}
+          disabled={disabled}
+        >
+          {chip}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface RichContentBlockProps {
+  block: RichContent;
+  onSuggestion?: (text: string) => void;
+  disabled?: boolean;
+}
+
+export const RichContentBlock: React.FC<RichContentBlockProps> = ({ block, onSuggestion, disabled }) => {
+  switch (block.kind) {
+    case 'table':
+      return <DataTable table={block} />;
+    case 'timeseries':
+    case 'bar':
+      return <ChartBlock chart={block} />;
+    case 'card':
+      return <InfoCard card={block} />;
+    case 'chips':
+      return <SuggestionChips chips={block.chips} label={block.label} onSelect={onSuggestion} disabled={disabled} />;
+  }
+};
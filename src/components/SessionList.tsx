@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import { MessagesSquare, Plus, Pencil, Copy, Trash2, Check, X, Download, Upload } from 'lucide-react';
+import { useAriaIds } from '../utils/accessibility';
+import type { SessionSummary } from '../utils/chatStorage';
+import { TRANSCRIPT_FORMATS } from '../utils/conversationExport';
+import type { TranscriptFormat } from '../utils/conversationExport';
+import './SessionList.css';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  activeId: string | null;
+  /** Actions are disabled while a reply is being generated */
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: TranscriptFormat) => void;
+  /** Receives a file picked for import; only JSON exports are accepted */
+  onImport: (file: File) => void;
+  /** Why the last import was rejected, shown under the header */
+  importError?: string | null;
+  /** Ratings given to answers so far */
+  feedbackCount?: number;
+  /** Downloads the answer ratings as labeled intent examples */
+  onExportFeedback?: () => void;
+  onClose?: () => void;
+}
+
+const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  activeId,
+  disabled = false,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  importError,
+  feedbackCount = 0,
+  onExportFeedback,
+  onClose,
+}) => {
+  const headingId = useAriaIds('sessions-heading');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const startRename = (session: SessionSummary) => {
+    setConfirmingId(null);
+    setExportingId(null);
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleRenameKey = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep Enter and Escape from reaching the chat's keyboard shortcuts
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <nav className="session-list" aria-labelledby={headingId}>
+      <header className="session-list-header">
+        <MessagesSquare size={20} aria-hidden="true" className="session-list-icon" />
+        <h2 id={headingId}>Conversations</h2>
+        <button
+          type="button"
+          className="session-new-button"
+          onClick={onCreate}
+          disabled={disabled}
+        >
+          <Plus size={16} aria-hidden="true" /> New
+        </button>
+        <button
+          type="button"
+          className="session-new-button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+        >
+          <Upload size={16} aria-hidden="true" /> Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFile}
+          hidden
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+        {onClose && (
+          <button
+            type="button"
+            className="session-close-button"
+            onClick={onClose}
+            aria-label="Close conversation list"
+          >
+            ×
+          </button>
+        )}
+      </header>
+
+      {importError && (
+        <p className="session-import-error" role="alert">{importError}</p>
+      )}
+
+      <ul className="session-items">
+        {sessions.map(session => {
+          const isActive = session.id === activeId;
+          const updated = new Date(session.lastUpdated).toLocaleString();
+
+          return (
+            <li key={session.id} className={`session-item${isActive ? ' active' : ''}`}>
+              {editingId === session.id ? (
+                <input
+                  className="session-rename-input"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={handleRenameKey}
+                  onBlur={commitRename}
+                  aria-label="Conversation name"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="session-select-button"
+                  onClick={() => onSelect(session.id)}
+                  disabled={disabled}
+                  aria-current={isActive ? 'true' : undefined}
+                >
+                  <span className="session-title">{session.title}</span>
+                  <span className="session-meta">
+                    {session.messageCount} {session.messageCount === 1 ? 'message' : 'messages'} · {updated}
+                  </span>
+                </button>
+              )}
+
+              <div className="session-actions">
+                {confirmingId === session.id ? (
+                  <>
+                    <span className="session-confirm-text">Delete?</span>
+                    <button
+                      type="button"
+                      onClick={() => { setConfirmingId(null); onDelete(session.id); }}
+                      aria-label={`Confirm deleting ${session.title}`}
+                      disabled={disabled}
+                    >
+                      <Check size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingId(null)}
+                      aria-label="Keep conversation"
+                    >
+                      <X size={14} aria-hidden="true" />
+                    </button>
+                  </>
+                ) : exportingId === session.id ? (
+                  <>
+                    <span className="session-confirm-text">Export as</span>
+                    {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map(format => (
+                      <button
+                        key={format}
+                        type="button"
+                        className="session-format-button"
+                        onClick={() => { setExportingId(null); onExport(session.id, format); }}
+                        aria-label={`Export ${session.title} as ${TRANSCRIPT_FORMATS[format].label}`}
+                      >
+                        {TRANSCRIPT_FORMATS[format].label}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setExportingId(null)}
+                      aria-label="Cancel export"
+                    >
+                      <X size={14} aria-hidden="true" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => { setConfirmingId(null); setExportingId(session.id); }}
+                      aria-label={`Export ${session.title}`}
+                    >
+                      <Download size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startRename(session)}
+                      aria-label={`Rename ${session.title}`}
+                      disabled={disabled}
+                    >
+                      <Pencil size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDuplicate(session.id)}
+                      aria-label={`Duplicate ${session.title}`}
+                      disabled={disabled}
+                    >
+                      <Copy size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { setExportingId(null); setConfirmingId(session.id); }}
+                      aria-label={`Delete ${session.title}`}
+                      disabled={disabled}
+                    >
+                      <Trash2 size={14} aria-hidden="true" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {onExportFeedback && feedbackCount > 0 && (
+        <footer className="session-list-footer">
+          <span>{feedbackCount} {feedbackCount === 1 ? 'answer' : 'answers'} rated</span>
+          <button type="button" onClick={onExportFeedback}>
+            <Download size={14} aria-hidden="true" /> Export feedback
+          </button>
+        </footer>
+      )}
+    </nav>
+  );
+};
+
+export default SessionList;
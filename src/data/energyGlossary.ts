@@ -0,0 +1,170 @@
+// data/energyGlossary.ts
+// Energy statistics glossary behind "definition of …" and "how is … calculated" questions.
+// Definitions follow the Eurostat Statistics Explained glossary and the energy balance
+// methodology; terms and aliases are lowercase as they appear in preprocessed messages.
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  abbreviation?: string;
+  /** Other ways users refer to the term (lowercase) */
+  aliases: string[];
+  definition: string;
+  calculation?: string;
+  /** Dataset and code where the figure is published */
+  dataset?: { code: string; item?: string };
+  /** Ids of related entries */
+  related: string[];
+  /** A data question to try next */
+  example?: string;
+  source: { label: string; url: string };
+}
+
+const GLOSSARY_BASE = 'https://ec.europa.eu/eurostat/statistics-explained/index.php?title=Glossary:';
+const BALANCE_METADATA = { label: 'Eurostat energy balances metadata', url: 'https://ec.europa.eu/eurostat/cache/metadata/en/nrg_bal_esms.htm' };
+
+export const ENERGY_GLOSSARY: GlossaryEntry[] = [
+  {
+    id: 'gross_inland_consumption',
+    term: 'Gross inland consumption',
+    abbreviation: 'GIC',
+    aliases: ['gross inland consumption', 'gross inland energy consumption', 'gic', 'total energy demand'],
+    definition: 'The total energy demand of a country or region: the energy needed to satisfy inland consumption. It covers the energy sector\'s own use, transformation and distribution losses, final energy consumption by end users and non-energy use.',
+    calculation: 'Primary production + recovered and recycled products + imports − exports + stock changes − international maritime bunkers.',
+    dataset: { code: 'nrg_bal_c', item: 'GIC' },
+    related: ['gross_available_energy', 'final_energy_consumption', 'primary_production'],
+    example: 'Gross inland consumption in the EU',
+    source: { label: 'Statistics Explained: Gross inland energy consumption', url: `${GLOSSARY_BASE}Gross_inland_energy_consumption` },
+  },
+  {
+    id: 'gross_available_energy',
+    term: 'Gross available energy',
+    abbreviation: 'GAE',
+    aliases: ['gross available energy', 'gae'],
+    definition: 'The overall supply of energy for all activities on the territory of a country, including the fuel sold to international maritime bunkers.',
+    calculation: 'Primary production + recovered and recycled products + imports − exports + stock changes.',
+    dataset: { code: 'nrg_bal_c', item: 'GAE' },
+    related: ['gross_inland_consumption', 'energy_dependency'],
+    source: BALANCE_METADATA,
+  },
+  {
+    id: 'final_energy_consumption',
+    term: 'Final energy consumption',
+    abbreviation: 'FEC',
+    aliases: ['final energy consumption', 'final consumption', 'final energy use', 'fec'],
+    definition: 'The energy used by end users such as households, industry, transport, services and agriculture. It excludes what the energy sector uses itself, energy lost in transformation and distribution, and non-energy use of fuels.',
+    calculation: 'Reported directly by sector in the energy balance (final consumption – energy use, FC_E); the Europe 2020-2030 indicator FEC2020-2030 applies the adjustments defined for the energy efficiency targets.',
+    dataset: { code: 'nrg_bal_c', item: 'FC_E' },
+    related: ['gross_inland_consumption', 'primary_energy_consumption', 'non_energy_use'],
+    example: 'Final energy consumption in France',
+    source: { label: 'Statistics Explained: Final energy consumption', url: `${GLOSSARY_BASE}Final_energy_consumption` },
+  },
+  {
+    id: 'primary_energy_consumption',
+    term: 'Primary energy consumption',
+    abbreviation: 'PEC',
+    aliases: ['primary energy consumption', 'pec'],
+    definition: 'The total energy demand of a country excluding non-energy use, such as natural gas used as a chemical feedstock. It is the headline indicator of the EU energy efficiency targets.',
+    calculation: 'Gross inland consumption minus non-energy use, with the further adjustments defined for the Europe 2020-2030 targets (for example, ambient heat captured by heat pumps is left out).',
+    dataset: { code: 'nrg_ind_eff', item: 'PEC2020-2030' },
+    related: ['gross_inland_consumption', 'final_energy_consumption', 'energy_intensity'],
+    example: 'Energy efficiency in the EU',
+    source: { label: 'Statistics Explained: Primary energy consumption', url: `${GLOSSARY_BASE}Primary_energy_consumption` },
+  },
+  {
+    id: 'primary_production',
+    term: 'Primary production',
+    aliases: ['primary production', 'primary energy production', 'energy production'],
+    definition: 'The extraction of energy products from natural sources in a usable form: mining coal, producing crude oil and natural gas, and capturing energy from renewable sources and nuclear heat. Converting one form of energy into another, such as generating electricity in a thermal power plant, is not primary production.',
+    dataset: { code: 'nrg_bal_c', item: 'PPRD' },
+    related: ['gross_inland_consumption', 'energy_dependency'],
+    example: 'Primary production of renewables in Sweden',
+    source: { label: 'Statistics Explained: Primary production of energy', url: `${GLOSSARY_BASE}Primary_production_of_energy` },
+  },
+  {
+    id: 'energy_dependency',
+    term: 'Energy dependency rate',
+    aliases: ['energy dependency', 'energy dependency rate', 'import dependency', 'dependency rate', 'import dependence'],
+    definition: 'The share of a country\'s energy needs met by imports. A negative rate means the country is a net exporter; a rate above 100% means it imports more than it uses and builds up stocks.',
+    calculation: '(Imports − exports) ÷ gross available energy × 100.',
+    related: ['net_imports', 'gross_available_energy'],
+    source: { label: 'Statistics Explained: Energy dependency rate', url: `${GLOSSARY_BASE}Energy_dependency_rate` },
+  },
+  {
+    id: 'net_imports',
+    term: 'Net imports',
+    aliases: ['net imports', 'imports', 'energy imports'],
+    definition: 'Energy products entering the national territory, excluding goods in transit, less those leaving it. Imports alone are published in the energy balance as IMP.',
+    calculation: 'Imports − exports.',
+    dataset: { code: 'nrg_bal_c', item: 'IMP' },
+    related: ['energy_dependency'],
+    example: 'Gas imports in Italy',
+    source: BALANCE_METADATA,
+  },
+  {
+    id: 'renewable_share',
+    term: 'Share of energy from renewable sources',
+    aliases: ['renewable share', 'share of renewables', 'share of renewable energy', 'renewable energy share', 'share of energy from renewable sources'],
+    definition: 'Renewable energy as a percentage of gross final energy consumption, the indicator of the EU targets under the Renewable Energy Directive. Sub-shares are published for electricity, heating and cooling, and transport.',
+    calculation: 'Gross final consumption of energy from renewable sources ÷ gross final energy consumption × 100, computed with the SHARES tool. The directive\'s rules apply, e.g. hydro and wind output are normalised over several years and some transport fuels count with multipliers.',
+    dataset: { code: 'nrg_ind_ren', item: 'REN' },
+    related: ['final_energy_consumption'],
+    example: 'Renewable share in Sweden since 2018',
+    source: { label: 'Statistics Explained: Renewable energy sources', url: `${GLOSSARY_BASE}Renewable_energy_sources` },
+  },
+  {
+    id: 'energy_intensity',
+    term: 'Energy intensity',
+    aliases: ['energy intensity', 'energy intensity of the economy'],
+    definition: 'How much energy an economy uses to produce one unit of output. A falling intensity means energy is used more efficiently or the economy has shifted towards less energy-hungry activities.',
+    calculation: 'Gross inland consumption ÷ gross domestic product (chain-linked volumes), in kilograms of oil equivalent per 1 000 euro.',
+    related: ['gross_inland_consumption', 'primary_energy_consumption'],
+    source: { label: 'Statistics Explained: Energy intensity', url: `${GLOSSARY_BASE}Energy_intensity` },
+  },
+  {
+    id: 'non_energy_use',
+    term: 'Non-energy use',
+    aliases: ['non-energy use', 'non energy use', 'feedstock'],
+    definition: 'Energy products used as raw materials rather than burned for energy, for example naphtha and natural gas in the chemical industry, or bitumen and lubricants.',
+    related: ['final_energy_consumption', 'primary_energy_consumption'],
+    source: BALANCE_METADATA,
+  },
+  {
+    id: 'toe',
+    term: 'Tonne of oil equivalent',
+    abbreviation: 'toe',
+    aliases: ['tonne of oil equivalent', 'tonnes of oil equivalent', 'oil equivalent', 'toe', 'ktoe', 'mtoe'],
+    definition: 'A normalised unit of energy: the energy content of one tonne of crude oil. Expressing all products in toe lets the energy balance add them up. 1 ktoe is a thousand toe and 1 Mtoe a million.',
+    calculation: 'By convention 1 toe = 41.868 gigajoules = 11.63 megawatt-hours.',
+    related: ['energy_balance'],
+    source: { label: 'Statistics Explained: Tonnes of oil equivalent (toe)', url: `${GLOSSARY_BASE}Tonnes_of_oil_equivalent_(toe)` },
+  },
+  {
+    id: 'energy_balance',
+    term: 'Energy balance',
+    aliases: ['energy balance', 'energy balances'],
+    definition: 'A table that shows, for one country and year, how every energy product is supplied, transformed and consumed, all in a common unit so the flows can be compared and summed.',
+    dataset: { code: 'nrg_bal_c' },
+    related: ['gross_inland_consumption', 'final_energy_consumption', 'toe'],
+    source: BALANCE_METADATA,
+  },
+  {
+    id: 'consumption_band',
+    term: 'Household consumption band',
+    aliases: ['consumption band', 'band dc', 'band d2', 'price band', 'reference band'],
+    definition: 'Household gas and electricity prices are published for bands of annual consumption, so that similar households are compared. The medium bands are the usual reference: D2 (20–199 GJ a year) for gas and DC (2 500–4 999 kWh a year) for electricity.',
+    calculation: 'Each band\'s price is a national average of supplier prices, weighted by market share, collected twice a year under Regulation (EU) 2016/1952.',
+    dataset: { code: 'nrg_pc_204', item: 'KWH2500-4999' },
+    related: ['energy_prices_taxes'],
+    example: 'Electricity prices in Spain',
+    source: { label: 'Eurostat household electricity prices metadata', url: 'https://ec.europa.eu/eurostat/cache/metadata/en/nrg_pc_204_esms.htm' },
+  },
+  {
+    id: 'energy_prices_taxes',
+    term: 'Taxes and levies in energy prices',
+    aliases: ['taxes and levies', 'all taxes included', 'i_tax', 'x_tax', 'x_vat'],
+    definition: 'Energy prices are published at three tax levels: excluding taxes and levies (X_TAX), excluding VAT and other recoverable taxes (X_VAT), and including all taxes and levies (I_TAX), which is what households actually pay.',
+    related: ['consumption_band'],
+    source: { label: 'Eurostat household gas prices metadata', url: 'https://ec.europa.eu/eurostat/cache/metadata/en/nrg_pc_202_esms.htm' },
+  },
+];
@@ -0,0 +1,103 @@
+// data/eurostatCodes.ts
+// Eurostat code lists used to turn extracted entities into dissemination API filters
+
+export const EUROSTAT_API_BASE = 'https://ec.europa.eu/eurostat/api/dissemination/statistics/1.0/data';
+
+/* ===================== Geography (geo) ===================== */
+
+// Country names as produced by entityExtractor (lowercased) → Eurostat geo code
+export const COUNTRY_TO_GEO: Record<string, string> = {
+  belgium: 'BE', bulgaria: 'BG', czechia: 'CZ', 'czech republic': 'CZ', denmark: 'DK', germany: 'DE',
+  estonia: 'EE', ireland: 'IE', greece: 'EL', spain: 'ES', france: 'FR', croatia: 'HR', italy: 'IT',
+  cyprus: 'CY', latvia: 'LV', lithuania: 'LT', luxembourg: 'LU', hungary: 'HU', malta: 'MT',
+  netherlands: 'NL', austria: 'AT', poland: 'PL', portugal: 'PT', romania: 'RO', slovenia: 'SI',
+  slovakia: 'SK', finland: 'FI', sweden: 'SE',
+};
+
+// ISO 3166 alpha-2 differs from Eurostat for Greece only
+export const ISO2_TO_GEO: Record<string, string> = {
+  at: 'AT', be: 'BE', bg: 'BG', hr: 'HR', cy: 'CY', cz: 'CZ', dk: 'DK', ee: 'EE', fi: 'FI', fr: 'FR',
+  de: 'DE', el: 'EL', gr: 'EL', hu: 'HU', ie: 'IE', it: 'IT', lv: 'LV', lt: 'LT', lu: 'LU', mt: 'MT',
+  nl: 'NL', pl: 'PL', pt: 'PT', ro: 'RO', sk: 'SK', si: 'SI', es: 'ES', se: 'SE',
+};
+
+// Two-letter codes that are far more often plain English words than country codes
+export const AMBIGUOUS_ISO2 = new Set(['at', 'be', 'it']);
+
+export const GROUP_TO_GEO: Record<string, string> = {
+  eu: 'EU27_2020',
+  eu27: 'EU27_2020',
+  'european union': 'EU27_2020',
+  'euro area': 'EA20',
+};
+
+// EU-27 member states, the default scope of country rankings
+export const EU_MEMBER_GEOS = [
+  'BE', 'BG', 'CZ', 'DK', 'DE', 'EE', 'IE', 'EL', 'ES', 'FR', 'HR', 'IT', 'CY', 'LV', 'LT', 'LU',
+  'HU', 'MT', 'NL', 'AT', 'PL', 'PT', 'RO', 'SI', 'SK', 'FI', 'SE',
+];
+
+export const GEO_LABELS: Record<string, string> = {
+  EU27_2020: 'EU-27',
+  EA20: 'Euro area',
+  BE: 'Belgium', BG: 'Bulgaria', CZ: 'Czechia', DK: 'Denmark', DE: 'Germany', EE: 'Estonia',
+  IE: 'Ireland', EL: 'Greece', ES: 'Spain', FR: 'France', HR: 'Croatia', IT: 'Italy', CY: 'Cyprus',
+  LV: 'Latvia', LT: 'Lithuania', LU: 'Luxembourg', HU: 'Hungary', MT: 'Malta', NL: 'Netherlands',
+  AT: 'Austria', PL: 'Poland', PT: 'Portugal', RO: 'Romania', SI: 'Slovenia', SK: 'Slovakia',
+  FI: 'Finland', SE: 'Sweden',
+};
+
+/* ===================== Energy products (siec) ===================== */
+
+// Product words from entityExtractor → SIEC code
+export const PRODUCT_TO_SIEC: Record<string, string> = {
+  electricity: 'E7000',
+  power: 'E7000',
+  gas: 'G3000',
+  'natural gas': 'G3000',
+  oil: 'O4000XBIO',
+  petroleum: 'O4000XBIO',
+  coal: 'C0000X0350-0370',
+  lignite: 'C0000X0350-0370',
+  renewables: 'RA000',
+  renewable: 'RA000',
+  wind: 'RA000',
+  solar: 'RA000',
+  hydro: 'RA000',
+  biomass: 'RA000',
+  biofuel: 'RA000',
+  heat: 'H8000',
+  'district heating': 'H8000',
+  nuclear: 'N900H',
+};
+
+/* ===================== Energy balance flows (nrg_bal) ===================== */
+
+// Measure words from entityExtractor → energy balance flow
+export const MEASURE_TO_NRG_BAL: Record<string, string> = {
+  consumption: 'GIC',
+  demand: 'GIC',
+  production: 'PPRD',
+  generation: 'PPRD',
+  imports: 'IMP',
+};
+
+// Sector words from entityExtractor → final consumption flow
+export const SECTOR_TO_NRG_BAL: Record<string, string> = {
+  household: 'FC_OTH_HH_E',
+  households: 'FC_OTH_HH_E',
+  residential: 'FC_OTH_HH_E',
+  industry: 'FC_IND_E',
+  transport: 'FC_TRA_E',
+};
+
+/* ===================== Units ===================== */
+
+export const UNIT_LABELS: Record<string, string> = {
+  KTOE: 'thousand tonnes of oil equivalent',
+  GWH: 'GWh',
+  KWH: 'per kWh',
+  PC: '%',
+  MTOE: 'million tonnes of oil equivalent',
+  TOE_HAB: 'tonnes of oil equivalent per capita',
+};
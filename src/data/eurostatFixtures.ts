@@ -0,0 +1,19 @@
+// data/eurostatFixtures.ts
+// Recorded Eurostat JSON-stat 2.0 responses used by the fixture transport (tests, offline demos).
+// The same files are served over HTTP by tools/eurostat-fixture-server.mjs.
+
+import nrgBalC from './fixtures/eurostat/nrg_bal_c.json';
+import nrgIndRen from './fixtures/eurostat/nrg_ind_ren.json';
+import nrgIndEff from './fixtures/eurostat/nrg_ind_eff.json';
+import nrgPc202 from './fixtures/eurostat/nrg_pc_202.json';
+import nrgPc204 from './fixtures/eurostat/nrg_pc_204.json';
+
+export const EUROSTAT_FIXTURES: Record<string, unknown> = {
+  nrg_bal_c: nrgBalC,
+  nrg_ind_ren: nrgIndRen,
+  nrg_ind_eff: nrgIndEff,
+  nrg_pc_202: nrgPc202,
+  nrg_pc_204: nrgPc204,
+};
+
+export default EUROSTAT_FIXTURES;
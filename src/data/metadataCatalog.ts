@@ -0,0 +1,142 @@
+// data/metadataCatalog.ts
+// Local metadata for the Eurostat energy datasets the assistant can query: titles, dimensions,
+// units, frequency, coverage and methodology notes, with links to the reference metadata.
+// Last-update dates are those of the bundled recordings; live answers show the API's own date.
+// Keywords feed the dataset search.
+
+export interface DatasetDimension {
+  id: string;
+  label: string;
+  /** Codes the assistant uses, or what the dimension holds */
+  note?: string;
+}
+
+export interface DatasetMetadata {
+  code: string;
+  title: string;
+  description: string;
+  frequency: 'annual' | 'semi-annual';
+  /** First period and geographic scope */
+  coverage: string;
+  dimensions: DatasetDimension[];
+  units: string[];
+  lastUpdate: string;
+  methodology: string;
+  /** Reference metadata (ESMS) or, where there is none to point to, the data browser page */
+  metadataUrl: string;
+  /** Search terms beyond the title and dimensions (lowercase) */
+  keywords: string[];
+  /** Example questions answered from this dataset */
+  examples: string[];
+}
+
+const DATABROWSER = 'https://ec.europa.eu/eurostat/databrowser/view';
+const ESMS = 'https://ec.europa.eu/eurostat/cache/metadata/en';
+
+const GEO_DIMENSION: DatasetDimension = { id: 'geo', label: 'Geopolitical entity (reporting)', note: 'EU-27, euro area and countries' };
+const TIME_DIMENSION: DatasetDimension = { id: 'time', label: 'Time' };
+
+export const METADATA_CATALOG: DatasetMetadata[] = [
+  {
+    code: 'nrg_bal_c',
+    title: 'Complete energy balances',
+    description: 'Supply, transformation and consumption of every energy product for each country and year, in a common unit so that flows can be compared and added up.',
+    frequency: 'annual',
+    coverage: 'From 1990; EU-27, euro area, member states, EFTA and candidate countries',
+    dimensions: [
+      { id: 'nrg_bal', label: 'Energy balance', note: 'flows such as primary production (PPRD), gross electricity and heat production (GEP, GHP), imports (IMP), gross inland consumption (GIC) and final consumption (FC_E and its sectors)' },
+      { id: 'siec', label: 'Standard international energy product classification (SIEC)', note: 'energy products, e.g. electricity (E7000), natural gas (G3000), total (TOTAL)' },
+      { id: 'unit', label: 'Unit of measure', note: 'KTOE, GWH, TJ' },
+      GEO_DIMENSION,
+      TIME_DIMENSION,
+    ],
+    units: ['Thousand tonnes of oil equivalent (KTOE)', 'Gigawatt-hour (GWH)', 'Terajoule (TJ)'],
+    lastUpdate: '2024-02-15',
+    methodology: 'Compiled from the annual energy questionnaires reported under Regulation (EC) No 1099/2008 on energy statistics, following the Eurostat energy balance methodology revised in 2019.',
+    metadataUrl: `${ESMS}/nrg_bal_esms.htm`,
+    keywords: ['energy balance', 'supply', 'transformation', 'primary production', 'imports', 'exports', 'gross inland consumption', 'final consumption', 'electricity', 'natural gas', 'oil', 'coal', 'renewables', 'ambient heat', 'heat pumps', 'industry', 'transport', 'households', 'ktoe'],
+    examples: ['Gross inland consumption in the EU', 'Electricity consumption in Germany in 2021'],
+  },
+  {
+    code: 'nrg_ind_ren',
+    title: 'Share of energy from renewable sources',
+    description: 'Renewable energy as a percentage of gross final energy consumption, overall and for electricity, heating and cooling, and transport.',
+    frequency: 'annual',
+    coverage: 'From 2004; EU-27 and member states',
+    dimensions: [
+      { id: 'nrg_bal', label: 'Energy balance', note: 'overall share (REN), electricity (REN_ELC), heating and cooling (REN_HEAT_CL), transport (REN_TRA)' },
+      { id: 'unit', label: 'Unit of measure', note: 'PC (percentage)' },
+      GEO_DIMENSION,
+      TIME_DIMENSION,
+    ],
+    units: ['Percentage (PC)'],
+    lastUpdate: '2024-01-31',
+    methodology: 'Calculated with the SHARES tool under the accounting rules of the Renewable Energy Directive, e.g. normalised hydro and wind output and multipliers for renewables in transport.',
+    metadataUrl: `${DATABROWSER}/nrg_ind_ren/default/table`,
+    keywords: ['renewables', 'renewable energy', 'green energy', 'solar', 'wind', 'hydro', 'biofuels', 'heat pumps', 'heating and cooling', 'electricity', 'transport', 'targets'],
+    examples: ['Renewable share in Sweden since 2018', 'Top 5 countries for renewable share'],
+  },
+  {
+    code: 'nrg_ind_eff',
+    title: 'Energy efficiency',
+    description: 'Primary and final energy consumption as defined for the EU energy efficiency targets (Europe 2020-2030), in total and per capita.',
+    frequency: 'annual',
+    coverage: 'From 1990; EU-27 and member states',
+    dimensions: [
+      { id: 'nrg_bal', label: 'Energy balance', note: 'primary (PEC2020-2030) and final (FEC2020-2030) energy consumption' },
+      { id: 'unit', label: 'Unit of measure', note: 'MTOE, TOE_HAB (per capita)' },
+      GEO_DIMENSION,
+      TIME_DIMENSION,
+    ],
+    units: ['Million tonnes of oil equivalent (MTOE)', 'Tonnes of oil equivalent per capita (TOE_HAB)'],
+    lastUpdate: '2024-01-31',
+    methodology: 'Derived from the energy balances with the indicator definitions of the Energy Efficiency Directive, so that progress can be measured against the 2020 and 2030 targets.',
+    metadataUrl: `${DATABROWSER}/nrg_ind_eff/default/table`,
+    keywords: ['energy efficiency', 'energy savings', 'primary energy consumption', 'final energy consumption', 'per capita', 'targets'],
+    examples: ['Energy consumption per capita in Austria', 'Energy efficiency in the EU'],
+  },
+  {
+    code: 'nrg_pc_202',
+    title: 'Gas prices for household consumers',
+    description: 'Natural gas prices paid by households, by annual consumption band and tax level, twice a year.',
+    frequency: 'semi-annual',
+    coverage: 'From the second half of 2007; EU-27, member states and other reporting countries',
+    dimensions: [
+      { id: 'product', label: 'Energy product', note: 'natural gas (4100)' },
+      { id: 'nrg_cons', label: 'Energy consumption', note: 'consumption bands D1 to D3; D2 (20–199 GJ a year) is the reference band' },
+      { id: 'unit', label: 'Unit of measure', note: 'KWH, GJ_GCV' },
+      { id: 'tax', label: 'Taxes', note: 'excluding taxes (X_TAX), excluding VAT (X_VAT), all taxes included (I_TAX)' },
+      { id: 'currency', label: 'Currency', note: 'EUR, national currency, PPS' },
+      GEO_DIMENSION,
+      TIME_DIMENSION,
+    ],
+    units: ['Euro per kilowatt-hour', 'National currency per kilowatt-hour', 'Purchasing power standard per kilowatt-hour'],
+    lastUpdate: '2024-04-30',
+    methodology: 'Collected under Regulation (EU) 2016/1952 on gas and electricity prices: national averages for each consumption band, weighted by the market shares of the suppliers.',
+    metadataUrl: `${ESMS}/nrg_pc_202_esms.htm`,
+    keywords: ['gas prices', 'natural gas', 'households', 'consumer prices', 'tariffs', 'bills', 'taxes'],
+    examples: ['Gas prices in France and Italy', 'Which countries have the lowest gas prices'],
+  },
+  {
+    code: 'nrg_pc_204',
+    title: 'Electricity prices for household consumers',
+    description: 'Electricity prices paid by households, by annual consumption band and tax level, twice a year.',
+    frequency: 'semi-annual',
+    coverage: 'From the second half of 2007; EU-27, member states and other reporting countries',
+    dimensions: [
+      { id: 'product', label: 'Energy product', note: 'electrical energy (6000)' },
+      { id: 'nrg_cons', label: 'Energy consumption', note: 'consumption bands DA to DE; DC (2 500–4 999 kWh a year) is the reference band' },
+      { id: 'unit', label: 'Unit of measure', note: 'KWH' },
+      { id: 'tax', label: 'Taxes', note: 'excluding taxes (X_TAX), excluding VAT (X_VAT), all taxes included (I_TAX)' },
+      { id: 'currency', label: 'Currency', note: 'EUR, national currency, PPS' },
+      GEO_DIMENSION,
+      TIME_DIMENSION,
+    ],
+    units: ['Euro per kilowatt-hour', 'National currency per kilowatt-hour', 'Purchasing power standard per kilowatt-hour'],
+    lastUpdate: '2024-04-30',
+    methodology: 'Collected under Regulation (EU) 2016/1952 on gas and electricity prices: national averages for each consumption band, weighted by the market shares of the suppliers.',
+    metadataUrl: `${ESMS}/nrg_pc_204_esms.htm`,
+    keywords: ['electricity prices', 'power prices', 'households', 'consumer prices', 'tariffs', 'bills', 'taxes', 'kwh'],
+    examples: ['Electricity prices in Spain', 'Compare electricity prices in Germany vs France'],
+  },
+];
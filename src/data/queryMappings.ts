@@ -0,0 +1,184 @@
+// data/queryMappings.ts
+// Declarative mapping from extracted entities to Eurostat nrg_* tables and dimension codes.
+// The query planner scores every mapping against the entities and plans the best match;
+// cover a new dataset by adding an entry here.
+
+import {
+  COUNTRY_TO_GEO,
+  ISO2_TO_GEO,
+  GROUP_TO_GEO,
+  PRODUCT_TO_SIEC,
+  MEASURE_TO_NRG_BAL,
+  SECTOR_TO_NRG_BAL,
+} from './eurostatCodes';
+
+// Slots the dialog can ask the user for
+export type QuerySlot = 'product' | 'geo' | 'time' | 'unit';
+
+// Where a dimension takes its values from in the extracted entities
+export type EntitySource =
+  | 'product'   // measure.products
+  | 'flow'      // filters.sectors, then measure.measures, then measure.products
+  | 'geo'       // geography.countries / iso2 / groups
+  | 'unit';     // filters.units (+ filters.perCapita)
+
+export interface DimensionRule {
+  source?: EntitySource;
+  /** Entity vocabulary (lowercase) → category code */
+  codes?: Record<string, string>;
+  /** Codes used when the message says nothing that maps onto this dimension */
+  default?: string[];
+  /** Ask for the value instead of defaulting it */
+  required?: boolean;
+  /** Keep only the first mapped code (dimension is not meant to be compared) */
+  single?: boolean;
+}
+
+export interface DatasetMapping {
+  id: string;
+  dataset: string;
+  label: string;
+  frequency: 'annual' | 'semi-annual';
+  /** All listed conditions must hold; each satisfied condition adds to the match score */
+  when: {
+    measures?: string[];
+    products?: string[];
+    sectors?: string[];
+    perCapita?: boolean;
+  };
+  /** Tie-breaker between mappings with the same score (higher wins) */
+  priority: number;
+  /** Entity words the dataset itself already stands for (never reported as unmapped) */
+  implies?: string[];
+  dimensions: Record<string, DimensionRule>;
+  /** Code corrections applied after mapping, e.g. flows that make no sense for a product */
+  adjust?: {
+    when: Record<string, string[]>;
+    set: Record<string, string[]>;
+    reason: string;
+  }[];
+}
+
+const PRICE_WORDS = ['price', 'prices', 'tariff', 'tariffs'];
+const HOUSEHOLD_WORDS = ['household', 'households', 'residential'];
+
+const GEO_CODES: Record<string, string> = { ...COUNTRY_TO_GEO, ...ISO2_TO_GEO, ...GROUP_TO_GEO };
+
+const GEO_RULE: DimensionRule = { source: 'geo', codes: GEO_CODES, required: true };
+
+export const DATASET_MAPPINGS: DatasetMapping[] = [
+  {
+    id: 'gas_prices_households',
+    dataset: 'nrg_pc_202',
+    label: 'Gas prices for household consumers',
+    frequency: 'semi-annual',
+    when: { measures: PRICE_WORDS, products: ['gas', 'natural gas'] },
+    priority: 2,
+    implies: HOUSEHOLD_WORDS,
+    dimensions: {
+      product: { default: ['4100'] },
+      nrg_cons: { default: ['GJ20-199'] },
+      unit: { default: ['KWH'] },
+      tax: { default: ['I_TAX'] },
+      currency: { default: ['EUR'] },
+      geo: GEO_RULE,
+    },
+  },
+  {
+    id: 'electricity_prices_households',
+    dataset: 'nrg_pc_204',
+    label: 'Electricity prices for household consumers',
+    frequency: 'semi-annual',
+    when: { measures: PRICE_WORDS },
+    priority: 1,
+    implies: HOUSEHOLD_WORDS,
+    dimensions: {
+      product: { source: 'product', codes: { electricity: '6000', power: '6000' }, default: ['6000'], single: true },
+      nrg_cons: { default: ['KWH2500-4999'] },
+      unit: { default: ['KWH'] },
+      tax: { default: ['I_TAX'] },
+      currency: { default: ['EUR'] },
+      geo: GEO_RULE,
+    },
+  },
+  {
+    id: 'renewable_share',
+    dataset: 'nrg_ind_ren',
+    label: 'Share of energy from renewable sources',
+    frequency: 'annual',
+    when: { measures: ['share'], products: ['renewables', 'renewable', 'wind', 'solar', 'hydro', 'biomass', 'biofuel'] },
+    priority: 2,
+    dimensions: {
+      nrg_bal: {
+        source: 'flow',
+        codes: { electricity: 'REN_ELC', power: 'REN_ELC', heat: 'REN_HEAT_CL', heating: 'REN_HEAT_CL', transport: 'REN_TRA' },
+        default: ['REN'],
+        single: true,
+      },
+      unit: { default: ['PC'] },
+      geo: GEO_RULE,
+    },
+  },
+  {
+    id: 'energy_consumption_per_capita',
+    dataset: 'nrg_ind_eff',
+    label: 'Final energy consumption per capita',
+    frequency: 'annual',
+    when: { perCapita: true },
+    priority: 2,
+    dimensions: {
+      nrg_bal: {
+        source: 'flow',
+        codes: { consumption: 'FEC2020-2030', demand: 'FEC2020-2030' },
+        default: ['FEC2020-2030'],
+        single: true,
+      },
+      unit: { source: 'unit', codes: { 'per capita': 'TOE_HAB' }, default: ['TOE_HAB'], single: true },
+      geo: GEO_RULE,
+    },
+  },
+  {
+    id: 'energy_efficiency',
+    dataset: 'nrg_ind_eff',
+    label: 'Energy efficiency',
+    frequency: 'annual',
+    when: { measures: ['efficiency', 'intensity'] },
+    priority: 1,
+    dimensions: {
+      nrg_bal: { default: ['PEC2020-2030'] },
+      unit: { source: 'unit', codes: { 'per capita': 'TOE_HAB', toe: 'MTOE', ktoe: 'MTOE' }, default: ['MTOE'], single: true },
+      geo: GEO_RULE,
+    },
+  },
+  {
+    id: 'energy_balance',
+    dataset: 'nrg_bal_c',
+    label: 'Complete energy balances',
+    frequency: 'annual',
+    when: {},
+    priority: 0,
+    dimensions: {
+      nrg_bal: { source: 'flow', codes: { ...MEASURE_TO_NRG_BAL, ...SECTOR_TO_NRG_BAL }, default: ['GIC'], single: true },
+      siec: { source: 'product', codes: PRODUCT_TO_SIEC, default: ['TOTAL'] },
+      unit: { source: 'unit', codes: { ktoe: 'KTOE', toe: 'KTOE', gwh: 'GWH', twh: 'GWH', mwh: 'GWH' }, default: ['KTOE'], single: true },
+      geo: GEO_RULE,
+    },
+    adjust: [
+      {
+        when: { nrg_bal: ['GIC'], siec: ['E7000', 'H8000'] },
+        set: { nrg_bal: ['FC_E'] },
+        reason: 'gross inland consumption of electricity and heat is only net trade, so final consumption is used',
+      },
+      {
+        when: { nrg_bal: ['PPRD'], siec: ['E7000'] },
+        set: { nrg_bal: ['GEP'] },
+        reason: 'electricity is a secondary product with no primary production, so gross electricity production is used',
+      },
+      {
+        when: { nrg_bal: ['PPRD'], siec: ['H8000'] },
+        set: { nrg_bal: ['GHP'] },
+        reason: 'heat is a secondary product with no primary production, so gross heat production is used',
+      },
+    ],
+  },
+];
@@ -3,6 +3,8 @@
  * Contains all response arrays for different intent types
  */
 
+import type { Intent } from '../utils/intentDetection';
+
 export const greetingResponses = [
   "Hello! I'm here to help you with Eurostat energy data. What would you like to know?",
   "Hi there! I can assist you with energy statistics and data from Eurostat. How can I help?",
@@ -307,35 +309,7 @@ export const invalidResponse = `I'm not sure I understand your request. I specia
 
 Use the help panel (?) for more examples and available features.`;
 
-export const metadataResponse = `**Eurostat Energy Datasets Overview:**
-
-📊 **Available Energy Categories:**
-• **Electricity**: Production, consumption, imports/exports, prices
-• **Gas**: Natural gas statistics, LNG terminals, storage
-• **Oil**: Petroleum products, refinery data, stocks
-• **Renewable Energy**: Solar, wind, hydro, biomass statistics
-• **Energy Balances**: Complete energy flow diagrams
-• **Prices**: Consumer and industrial energy prices
-• **Efficiency**: Energy intensity and efficiency indicators
-
-🔍 **Geographic Coverage:**
-• EU Member States (27 countries)
-• EFTA countries (Norway, Switzerland, Iceland, Liechtenstein)
-• Candidate countries and potential candidates
-• Regional aggregations (EU-27, EU-28, etc.)
-
-📅 **Time Coverage:**
-• Annual data: Typically 1990-present
-• Monthly/quarterly data: Where available
-• Some datasets go back to 1960s
-
-**Popular Datasets:**
-• ENER (Energy Statistics)
-• NRGY (Energy Balances)
-• Nrg_price (Energy Prices)
-• Nrg_ind (Energy Indicators)
-
-Would you like details about a specific dataset or category?`;
+export const metadataResponse = `I can query the Eurostat energy datasets below. Ask me to search them by topic ("what datasets do you have about heat pumps?"), to explain one ("tell me about nrg_bal_c"), or to define a term ("definition of gross inland consumption").`;
 
 export const visualizationResponse = `**Data Visualization Options**
 
@@ -364,30 +338,21 @@ Would you like me to generate a specific visualization? Please describe what dat
 
 export const downloadResponse = `**Data Download Options**
 
-You can download Eurostat energy data in various formats:
+I can export the data of any query straight from the chat:
 
 📥 **Available Formats:**
 • **CSV**: Comma-separated values for spreadsheet analysis
-• **Excel (XLSX)**: Formatted spreadsheets with metadata
-• **JSON**: Structured data for web applications
-• **XML**: Extensible markup language format
-• **SDMX**: Statistical data exchange format
-
-📊 **Download Options:**
-• **Bulk Download**: Complete datasets
-• **Filtered Downloads**: Custom selections by time/geography
-• **API Access**: Programmatic data retrieval
-• **Scheduled Reports**: Automated data updates
-
-**Data Availability:**
-• Most datasets are freely available
-• Some restricted datasets require registration
-• Bulk downloads may have size limits
+• **Excel (XLSX)**: A data sheet plus a sheet describing the source
+• **JSON**: Plain observations for web applications
+• **JSON-stat**: The Eurostat API's own format
+• **SDMX-CSV**: Statistical data exchange format, codes only
+
+🔗 **API Access**: every export comes with the Eurostat API query that reproduces it.
 
 **Getting Started:**
-1. Specify the data you want (energy type, countries, time period)
-2. Choose your preferred format
-3. I'll provide download links or API endpoints
+1. Ask for the data you want (energy type, countries, time period)
+2. Say "download it as CSV" (or Excel, JSON, JSON-stat, SDMX)
+3. Use the download button under my reply
 
 What energy data would you like to download?`;
 
@@ -430,4 +395,68 @@ export const troubleshootingResponse = `Sorry to hear you're having trouble! Her
 • **Check examples** in the help panel (?) for query ideas
 • **Refresh the page** if the chatbot seems unresponsive
 
-If the problem persists, I can prepare a support email with diagnostic information to help our team investigate.`;
\ No newline at end of file
+If the problem persists, I can prepare a support email with diagnostic information to help our team investigate.`;
+
+// Follow-up questions for data query slots that could not be filled from the message
+export const slotPrompts: Record<'product' | 'geo' | 'time' | 'unit', { text: string; suggestions: string[] }> = {
+  product: {
+    text: "I need to know what type of energy data you're interested in. Could you specify electricity, gas, renewable energy, or another energy type?",
+    suggestions: ['electricity production', 'gas consumption', 'renewable energy', 'energy prices'],
+  },
+  geo: {
+    text: 'Which country or region should I look at? You can name one or more EU countries, or say "EU" for the EU-27 total.',
+    suggestions: ['EU', 'Germany', 'France', 'Spain'],
+  },
+  time: {
+    text: 'For which year or period? You can give a year, a range like 2018-2022, or say "latest".',
+    suggestions: ['latest', '2022', '2018-2022'],
+  },
+  unit: {
+    text: 'In which unit would you like the figures?',
+    suggestions: ['ktoe', 'GWh', 'per capita'],
+  },
+};
+
+// Answers to the yes/no questions that close data responses
+export const proposalReplies = {
+  refine: {
+    yes: {
+      text: 'Sure! Tell me what to change: a year ("and for 2019?"), a country ("what about France?"), a unit ("per capita please") or a sector ("only households").',
+      suggestions: ['And for 2019?', 'What about France?', 'Per capita please'],
+    },
+    no: {
+      text: "Alright, I'll leave the query as it is. Ask me about any other energy topic whenever you're ready.",
+      suggestions: ['Gas prices in the EU', 'Share of renewables in Sweden'],
+    },
+  },
+  latestPeriod: {
+    no: {
+      text: 'No problem. You can pick another year or country for the same query, e.g. "and for 2020?".',
+      suggestions: ['And for 2020?', 'What about the EU?'],
+    },
+  },
+  measureSwitch: {
+    no: {
+      text: 'Alright, the previous query stays as it was. You can still change its year, country or sector, e.g. "and for 2020?".',
+      suggestions: ['And for 2020?', 'What about the EU?'],
+    },
+  },
+  compare: {
+    yes: {
+      text: 'Tell me which countries, years or energy types to compare, e.g. "compare electricity production between Germany and France in 2020".',
+      suggestions: ['Compare electricity production between Germany and France'],
+    },
+  },
+};
+
+// How the clarification question names each intent it can offer ("Did you mean to download
+// data or see a chart?") and the quick reply that picks it
+export const clarificationOptions: Partial<Record<Intent, { phrase: string; reply: string }>> = {
+  data_query: { phrase: 'look up the figures', reply: 'Look up the figures' },
+  viz_request: { phrase: 'see a chart', reply: 'Show a chart' },
+  download_request: { phrase: 'download data', reply: 'Download the data' },
+  compare_request: { phrase: 'compare countries or years', reply: 'Compare them' },
+  metadata_request: { phrase: 'read what a term or dataset means', reply: 'Explain the term' },
+  help: { phrase: 'see what I can do', reply: 'Show me what you can do' },
+  troubleshooting: { phrase: 'report a problem', reply: 'Report a problem' },
+};
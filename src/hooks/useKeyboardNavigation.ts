@@ -6,6 +6,8 @@ export interface KeyboardNavigationOptions {
   onNavigateHistory?: (direction: 'up' | 'down') => void;
   onFocusInput?: () => void;
   onEscape?: () => void;
+  /** Shows or hides the insights debug panel */
+  onToggleInsights?: () => void;
   disabled?: boolean;
 }
 
@@ -29,6 +31,7 @@ export function useKeyboardNavigation(options: KeyboardNavigationOptions): Keybo
     onNavigateHistory,
     onFocusInput,
     onEscape,
+    onToggleInsights,
     disabled = false,
   } = options;
 
@@ -104,10 +107,19 @@ export function useKeyboardNavigation(options: KeyboardNavigationOptions): Keybo
         }
         break;
 
+      case 'D':
+      case 'd':
+        // Ctrl+Shift+D or Cmd+Shift+D to toggle the insights panel
+        if ((e.ctrlKey || e.metaKey) && e.shiftKey && !e.altKey && onToggleInsights) {
+          e.preventDefault();
+          onToggleInsights();
+        }
+        break;
+
       default:
         break;
     }
-  }, [disabled, onSend, onClear, onNavigateHistory, onFocusInput, onEscape]);
+  }, [disabled, onSend, onClear, onNavigateHistory, onFocusInput, onEscape, onToggleInsights]);
 
   // Global keyboard listener for container-wide shortcuts
   useEffect(() => {
@@ -180,4 +192,5 @@ export const KEYBOARD_SHORTCUTS = [
   { key: 'Ctrl + K', description: 'Focus input' },
   { key: 'Ctrl + L', description: 'Clear chat' },
   { key: 'Escape', description: 'Clear input' },
+  { key: 'Ctrl + Shift + D', description: 'Toggle insights panel' },
 ] as const;
\ No newline at end of file
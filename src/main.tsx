@@ -2,11 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { loadIntentRules } from './utils/intentRules'
 
-// Import automated tests
-import './tests/greetingTest';
-import './tests/farewellTest';
-import './tests/affirmativeNegativeTest';
+// Intent rules that can be tuned without a rebuild; the built-in ones apply until they load
+loadIntentRules(`${import.meta.env.BASE_URL}intent-rules.json`)
+  .catch(error => console.error('Intent rules not loaded, using the built-in ones:', error))
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,134 @@
+import type { Entities } from '../utils/entityExtractor';
+import type { Intent, Resolution } from '../utils/intentDetection';
+
+export type ActiveQueryIntent = 'data_query' | 'compare_request' | 'viz_request';
+
+export interface ActiveQuery {
+  intent: ActiveQueryIntent;
+  /** Entities the last query ran with, after any refinements */
+  entities: Entities;
+  dataset?: string;
+  updatedAt: number;
+}
+
+export type ProposalAction =
+  | { kind: 'reply'; text: string; suggestions?: string[] }
+  | { kind: 'query'; intent: ActiveQueryIntent; entities: Entities };
+
+/** A yes/no question asked by the bot, with what to do on either answer */
+export interface Proposal {
+  question: string;
+  yes: ProposalAction;
+  no: ProposalAction;
+}
+
+/** A "did you mean …?" question asked by the bot, with the message it is about */
+export interface Clarification {
+  /** Cleaned text of the unclear message */
+  input: string;
+  resolution: Resolution;
+  entities: Entities;
+  /** Intents offered, each with the quick reply that picks it */
+  options: { intent: Intent; reply: string }[];
+}
+
+/** What a conversation's follow-ups depend on, saved with its session */
+export interface ConversationSnapshot {
+  activeQuery: ActiveQuery | null;
+  proposal: Proposal | null;
+  /** Absent in sessions saved before clarification questions */
+  clarification?: Clarification | null;
+}
+
+export type ConversationContextListener = (active: ActiveQuery | null) => void;
+
+class ConversationContext {
+  private activeInternal: ActiveQuery | null = null;
+  private proposalInternal: Proposal | null = null;
+  private clarificationInternal: Clarification | null = null;
+  private listeners: Set<ConversationContextListener> = new Set();
+
+  get activeQuery(): ActiveQuery | null {
+    return this.activeInternal;
+  }
+
+  setActiveQuery(intent: ActiveQueryIntent, entities: Entities, dataset?: string): ActiveQuery {
+    this.activeInternal = { intent, entities, dataset, updatedAt: Date.now() };
+    this.notify();
+    return this.activeInternal;
+  }
+
+  get pendingProposal(): Proposal | null {
+    return this.proposalInternal;
+  }
+
+  /** Register the yes/no question of the latest bot message (null when it asked none) */
+  setProposal(proposal: Proposal | null): void {
+    this.proposalInternal = proposal;
+  }
+
+  /** Hand out the pending proposal once; an answer consumes it */
+  takeProposal(): Proposal | null {
+    const proposal = this.proposalInternal;
+    this.proposalInternal = null;
+    return proposal;
+  }
+
+  get pendingClarification(): Clarification | null {
+    return this.clarificationInternal;
+  }
+
+  /** Register the clarification question of the latest bot message (null when it asked none) */
+  setClarification(clarification: Clarification | null): void {
+    this.clarificationInternal = clarification;
+  }
+
+  /** Hand out the pending clarification once; the next message answers or drops it */
+  takeClarification(): Clarification | null {
+    const clarification = this.clarificationInternal;
+    this.clarificationInternal = null;
+    return clarification;
+  }
+
+  subscribe(listener: ConversationContextListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  snapshot(): ConversationSnapshot {
+    return { activeQuery: this.activeInternal, proposal: this.proposalInternal, clarification: this.clarificationInternal };
+  }
+
+  /** Put back the context of a conversation switched to */
+  restore(snapshot: ConversationSnapshot | null): void {
+    this.activeInternal = snapshot?.activeQuery ?? null;
+    this.proposalInternal = snapshot?.proposal ?? null;
+    this.clarificationInternal = snapshot?.clarification ?? null;
+    this.notify();
+  }
+
+  clear(): void {
+    this.activeInternal = null;
+    this.proposalInternal = null;
+    this.clarificationInternal = null;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.activeInternal));
+  }
+}
+
+export const conversationContext = new ConversationContext();
+
+declare global {
+  interface Window {
+    __EUROSTAT_CHAT_CONTEXT__?: ConversationContext;
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.__EUROSTAT_CHAT_CONTEXT__ = conversationContext;
+}
+
+export default conversationContext;
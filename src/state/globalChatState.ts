@@ -1,5 +1,8 @@
+import localforage from 'localforage';
+import { INTENTS } from '../utils/intentDetection';
 import type { Entities } from '../utils/entityExtractor';
-import type { Resolution } from '../utils/intentDetection';
+import type { FeedbackEntry } from '../utils/feedbackLog';
+import type { Intent, Resolution } from '../utils/intentDetection';
 import type { PreprocessResult } from '../utils/preprocess';
 
 export interface ChatInsightEntry {
@@ -11,15 +14,124 @@ export interface ChatInsightEntry {
   entities: Entities;
   diagnostics?: {
     corrections: PreprocessResult['corrections'];
+    /** Missing on entries stored before removals were recorded */
+    removed?: PreprocessResult['removed'];
     flags: PreprocessResult['flags'];
+    /** Clauses of a compound message, answered in order */
+    clauses?: string[];
   };
 }
 
 export type ChatInsightListener = (entry: ChatInsightEntry) => void;
 
+export type InsightFlag = keyof PreprocessResult['flags'];
+
+export interface InsightFilter {
+  /** Entries whose primary intent is one of these */
+  intents?: Intent[];
+  /** Inclusive bounds, as Dates or epoch milliseconds */
+  from?: Date | number;
+  to?: Date | number;
+  /** Entries with all of these preprocessing flags set */
+  flags?: InsightFlag[];
+}
+
+export interface InsightStats {
+  total: number;
+  /** Turns per primary intent; intents never detected are 0 */
+  intentDistribution: Record<Intent, number>;
+  /** Share of turns answered with a fallback because no actionable intent was found */
+  fallbackRate: number;
+  /** Share of turns whose input was spell-corrected before intent detection */
+  spellCorrectionRate: number;
+  /** Share of turns whose answer got a thumbs down and the intent meant picked in the feedback log */
+  intentCorrectionRate: number;
+  /** Oldest and newest entry timestamps; null when empty */
+  firstAt: number | null;
+  lastAt: number | null;
+}
+
+export interface InsightRetention {
+  maxEntries: number;
+  maxAgeMs: number;
+}
+
+const INSIGHTS_KEY = 'chatInsights';
+
+const DEFAULT_RETENTION: InsightRetention = {
+  maxEntries: 1000,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+// Intents the resolver answers with a generic "I didn't get that" reply
+const FALLBACK_INTENTS = new Set<Intent>(['invalid', 'statement']);
+
+/* ===================== Queries ===================== */
+
+export function filterInsights(entries: ChatInsightEntry[], filter: InsightFilter = {}): ChatInsightEntry[] {
+  const from = filter.from === undefined ? -Infinity : Number(filter.from);
+  const to = filter.to === undefined ? Infinity : Number(filter.to);
+  return entries.filter(entry =>
+    (!filter.intents?.length || filter.intents.includes(entry.resolution.primary)) &&
+    entry.timestamp >= from &&
+    entry.timestamp <= to &&
+    (filter.flags ?? []).every(flag => entry.diagnostics?.flags[flag])
+  );
+}
+
+/**
+ * Statistics of the entries; the feedback log, when given, tells which turns users corrected
+ */
+export function insightStats(entries: ChatInsightEntry[], feedback: FeedbackEntry[] = []): InsightStats {
+  const corrected = new Set(feedback.filter(rating => rating.correctedIntent).map(rating => rating.turnId));
+  const intentDistribution = Object.fromEntries(INTENTS.map(intent => [intent, 0])) as Record<Intent, number>;
+  entries.forEach(entry => { intentDistribution[entry.resolution.primary]++; });
+  const share = (count: number) => (entries.length === 0 ? 0 : count / entries.length);
+  const timestamps = entries.map(entry => entry.timestamp);
+
+  return {
+    total: entries.length,
+    intentDistribution,
+    fallbackRate: share(entries.filter(entry => FALLBACK_INTENTS.has(entry.resolution.primary)).length),
+    spellCorrectionRate: share(entries.filter(entry => (entry.diagnostics?.corrections.length ?? 0) > 0).length),
+    intentCorrectionRate: share(entries.filter(entry => corrected.has(entry.id)).length),
+    firstAt: timestamps.length ? Math.min(...timestamps) : null,
+    lastAt: timestamps.length ? Math.max(...timestamps) : null,
+  };
+}
+
+/**
+ * One entry per line, for loading into analysis tools
+ */
+export function insightsToNdjson(entries: ChatInsightEntry[]): string {
+  return entries.map(entry => `${JSON.stringify({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })}\n`).join('');
+}
+
+/**
+ * The newest entries within the age limit, oldest first
+ */
+export function applyRetention(entries: ChatInsightEntry[], retention: InsightRetention, now = Date.now()): ChatInsightEntry[] {
+  return entries
+    .filter(entry => now - entry.timestamp <= retention.maxAgeMs)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-retention.maxEntries);
+}
+
+/* ===================== Store ===================== */
+
 class ChatInsightsStore {
   private entriesInternal: ChatInsightEntry[] = [];
   private listeners: Set<ChatInsightListener> = new Set();
+  private retention: InsightRetention = DEFAULT_RETENTION;
+  // Writes go one after the other so an older list never lands last
+  private saving: Promise<void> = Promise.resolve();
+  /** Resolves once entries from earlier visits are loaded */
+  readonly ready: Promise<void>;
+
+  constructor() {
+    // Outside the browser (tests, scripts) the log stays in memory
+    this.ready = typeof window === 'undefined' ? Promise.resolve() : this.load();
+  }
 
   record(payload: {
     raw: string;
@@ -38,8 +150,9 @@ class ChatInsightsStore {
       diagnostics: payload.diagnostics ?? undefined,
     };
 
-    this.entriesInternal.push(entry);
+    this.entriesInternal = applyRetention([...this.entriesInternal, entry], this.retention);
     this.listeners.forEach(listener => listener(entry));
+    this.save();
     return entry;
   }
 
@@ -51,13 +164,63 @@ class ChatInsightsStore {
     return this.entriesInternal[this.entriesInternal.length - 1];
   }
 
+  query(filter?: InsightFilter): ChatInsightEntry[] {
+    return filterInsights(this.entriesInternal, filter);
+  }
+
+  stats(filter?: InsightFilter, feedback?: FeedbackEntry[]): InsightStats {
+    return insightStats(this.query(filter), feedback);
+  }
+
+  exportNdjson(filter?: InsightFilter): string {
+    return insightsToNdjson(this.query(filter));
+  }
+
+  /**
+   * Change how much of the log is kept; entries beyond the new limits are dropped now
+   */
+  setRetention(retention: Partial<InsightRetention>): void {
+    this.retention = { ...this.retention, ...retention };
+    this.entriesInternal = applyRetention(this.entriesInternal, this.retention);
+    this.save();
+  }
+
   subscribe(listener: ChatInsightListener): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
 
+  /**
+   * Empty the log, including the stored copy
+   */
   clear(): void {
     this.entriesInternal = [];
+    this.save();
+  }
+
+  // Entries recorded before the load finished are kept alongside the stored ones
+  private async load(): Promise<void> {
+    try {
+      const stored = await localforage.getItem<ChatInsightEntry[]>(INSIGHTS_KEY);
+      if (!Array.isArray(stored)) return;
+      const recorded = new Set(this.entriesInternal.map(entry => entry.id));
+      this.entriesInternal = applyRetention(
+        [...stored.filter(entry => !recorded.has(entry.id)), ...this.entriesInternal],
+        this.retention
+      );
+    } catch (error) {
+      console.error('Failed to load chat insights:', error);
+    }
+  }
+
+  private save(): void {
+    if (typeof window === 'undefined') return;
+    this.saving = this.saving
+      .then(() => this.ready)
+      .then(async () => {
+        await localforage.setItem(INSIGHTS_KEY, this.entriesInternal);
+      })
+      .catch(error => console.error('Failed to save chat insights:', error));
   }
 }
 
@@ -4,6 +4,7 @@
  */
 
 import { processMessage } from '../utils/messageProcessor';
+import type { TestResults } from './testHarness';
 
 const affirmativeTestSentences = [
   // === CORE AFFIRMATIVES ===
@@ -46,7 +47,7 @@ const negativeTestSentences = [
   'nop', 'nuh uh', 'nada', 'no sir', 'no maam',
 ];
 
-export async function runAffirmativeNegativeTests(): Promise<void> {
+export async function runAffirmativeNegativeTests(): Promise<TestResults> {
   console.log('🚀 Affirmative & Negative Tests\n');
   console.log('=' .repeat(40));
 
@@ -109,6 +110,7 @@ export async function runAffirmativeNegativeTests(): Promise<void> {
   console.log(`📊 Results: ${totalPassed} passed, ${totalFailed} failed (${affirmativeTestSentences.length + negativeTestSentences.length} total)`);
   console.log('🎯 All affirmatives should be detected as "affirmative" intent');
   console.log('🎯 All negatives should be detected as "negative" intent');
+  return { passed: totalPassed, failed: totalFailed };
 }
 
 // Auto-run tests in browser environment
@@ -0,0 +1,72 @@
+/**
+ * Automated Chart Summary Test
+ * Tests the text alternative generated for line and bar charts
+ */
+
+import { summarizeChart } from '../utils/chartSummary';
+import type { BarChartContent, TimeSeriesContent } from '../utils/richContent';
+import type { TestResults } from './testHarness';
+
+interface SummaryCase {
+  name: string;
+  chart: TimeSeriesContent | BarChartContent;
+  expected: string;
+}
+
+const points = (values: number[], from = 2018) => values.map((value, i) => ({ label: String(from + i), value }));
+
+const summaryTestCases: SummaryCase[] = [
+  {
+    name: 'rising series with an inner peak',
+    chart: { kind: 'timeseries', title: 'T', unit: '%', series: [{ name: 'Sweden', points: points([50, 60, 55]) }] },
+    expected: 'Sweden rose from 50 in 2018 to 55 in 2020 (+10.0%), peaking at 60 in 2019. Values in %.',
+  },
+  {
+    name: 'flat series',
+    chart: { kind: 'timeseries', title: 'T', unit: 'GWh', series: [{ name: 'Austria', points: points([100, 100.5]) }] },
+    expected: 'Austria stayed roughly stable from 100 in 2018 to 100.5 in 2019. Values in GWh.',
+  },
+  {
+    name: 'two series compared in the last period',
+    chart: {
+      kind: 'timeseries', title: 'T', unit: 'GWh',
+      series: [{ name: 'Germany', points: points([20, 10]) }, { name: 'France', points: points([15, 12]) }],
+    },
+    expected: 'Germany fell from 20 in 2018 to 10 in 2019 (−50.0%). France fell from 15 in 2018 to 12 in 2019 (−20.0%). In 2019, France had the highest value (12) and Germany the lowest (10). Values in GWh.',
+  },
+  {
+    name: 'bar ranking',
+    chart: { kind: 'bar', title: 'T', unit: 'EUR per kWh', bars: [{ label: 'Italy', value: 0.3 }, { label: 'Spain', value: 0.2 }, { label: 'France', value: 0.15 }] },
+    expected: 'Italy has the highest value (0.3) and France the lowest (0.15). The highest is 2.0 times the lowest. Order from highest to lowest: Italy, Spain, France. Values in EUR per kWh.',
+  },
+];
+
+export async function runChartSummaryTests(): Promise<TestResults> {
+  console.log('🚀 Chart Summary Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of summaryTestCases) {
+    try {
+      const summary = summarizeChart(testCase.chart);
+      if (summary === testCase.expected) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL ${testCase.name}`);
+        console.log(`  └─ Got:      ${summary}`);
+        console.log(`  └─ Expected: ${testCase.expected}`);
+      }
+    } catch (error) {
+      console.error(`❌ ERROR testing ${testCase.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Every chart should be readable as text');
+  return { passed, failed };
+}
@@ -0,0 +1,108 @@
+/**
+ * Automated Chat Insights Test
+ * Tests filtering, statistics (with intent corrections from the feedback log), retention and
+ * NDJSON export of the insights log
+ */
+
+import { applyRetention, filterInsights, insightStats, insightsToNdjson } from '../state/globalChatState';
+import type { ChatInsightEntry } from '../state/globalChatState';
+import type { FeedbackEntry } from '../utils/feedbackLog';
+import type { Intent } from '../utils/intentDetection';
+import type { PreprocessResult } from '../utils/preprocess';
+import { createRecorder, resolutionWith } from './testHarness';
+import type { TestResults } from './testHarness';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 2, 31, 12);
+
+const noFlags: PreprocessResult['flags'] = {
+  hasUrl: false,
+  hasEmail: false,
+  hasEmoji: false,
+  hasProfanity: false,
+  looksCode: false,
+  tooLong: false,
+  nonEnglishLikely: false,
+};
+
+const entry = (
+  id: string,
+  primary: Intent,
+  daysAgo: number,
+  options: { corrected?: boolean; flags?: Partial<PreprocessResult['flags']> } = {}
+): ChatInsightEntry => ({
+  id,
+  timestamp: NOW - daysAgo * DAY,
+  raw: id,
+  cleaned: id,
+  resolution: resolutionWith(primary, { [primary]: 1 }),
+  entities: {} as ChatInsightEntry['entities'],
+  diagnostics: {
+    corrections: options.corrected ? [{ from: 'elecricity', to: 'electricity', reason: 'spelling' }] : [],
+    flags: { ...noFlags, ...options.flags },
+  },
+});
+
+const log = [
+  entry('gas prices in italy', 'data_query', 40),
+  entry('plot elecricity', 'viz_request', 10, { corrected: true }),
+  entry('asdfgh', 'invalid', 5),
+  entry('see https://ec.europa.eu', 'data_query', 2, { flags: { hasUrl: true } }),
+  entry('ok', 'statement', 1),
+];
+
+export async function runChatInsightsTests(): Promise<TestResults> {
+  console.log('🚀 Chat Insights Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const ids = (entries: ChatInsightEntry[]) => entries.map(e => e.id).join(' | ');
+
+  const byIntent = filterInsights(log, { intents: ['data_query'] });
+  record('filter by intent', byIntent.length === 2 ? [] : [ids(byIntent)]);
+
+  const byDate = filterInsights(log, { from: new Date(NOW - 7 * DAY), to: NOW - 2 * DAY });
+  record('filter by date range', ids(byDate) === 'asdfgh | see https://ec.europa.eu' ? [] : [ids(byDate)]);
+
+  const byFlag = filterInsights(log, { flags: ['hasUrl'] });
+  record('filter by preprocessing flag', ids(byFlag) === 'see https://ec.europa.eu' ? [] : [ids(byFlag)]);
+
+  const stats = insightStats(log);
+  record('statistics', [
+    ...(stats.total === 5 ? [] : [`total ${stats.total}`]),
+    ...(stats.intentDistribution.data_query === 2 && stats.intentDistribution.greeting === 0 ? [] : ['wrong distribution']),
+    ...(stats.fallbackRate === 0.4 ? [] : [`fallback rate ${stats.fallbackRate}`]),
+    ...(stats.spellCorrectionRate === 0.2 ? [] : [`spell correction rate ${stats.spellCorrectionRate}`]),
+    ...(stats.firstAt === NOW - 40 * DAY && stats.lastAt === NOW - DAY ? [] : ['wrong time span']),
+  ]);
+
+  const rating = (turnId: string, correctedIntent?: Intent): FeedbackEntry => ({
+    turnId, messageId: `reply-${turnId}`, rating: correctedIntent ? 'down' : 'up', raw: turnId, cleaned: turnId,
+    detectedIntent: 'data_query', alternatives: [], ...(correctedIntent ? { correctedIntent } : {}), ratedAt: new Date(NOW).toISOString(),
+  });
+  const feedback = [rating('gas prices in italy'), rating('plot elecricity', 'viz_request'), rating('another session', 'help')];
+  const rated = insightStats(log, feedback);
+  record('intent correction rate counts the turns corrected in the feedback log', [
+    ...(rated.intentCorrectionRate === 0.2 ? [] : [`intent correction rate ${rated.intentCorrectionRate}`]),
+    ...(stats.intentCorrectionRate === 0 ? [] : [`without feedback ${stats.intentCorrectionRate}`]),
+  ]);
+
+  const empty = insightStats([]);
+  record('statistics of an empty log', empty.total === 0 && empty.fallbackRate === 0 && empty.firstAt === null ? [] : [JSON.stringify(empty)]);
+
+  const kept = applyRetention([...log].reverse(), { maxEntries: 3, maxAgeMs: 30 * DAY }, NOW);
+  record('retention keeps the newest entries within the age limit', ids(kept) === 'asdfgh | see https://ec.europa.eu | ok' ? [] : [ids(kept)]);
+
+  const lines = insightsToNdjson(log).split('\n');
+  const first = JSON.parse(lines[0]);
+  record('NDJSON export has one entry per line', [
+    ...(lines.length === 6 && lines[5] === '' ? [] : [`${lines.length} lines`]),
+    ...(first.raw === 'gas prices in italy' && first.timestamp === new Date(NOW - 40 * DAY).toISOString() ? [] : [lines[0]]),
+  ]);
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 The insights log should answer what users ask and how well it was understood');
+  return results;
+}
@@ -0,0 +1,116 @@
+/**
+ * Automated Chat Sync Test
+ * Tests that two tabs' copies of a conversation merge by message id instead of the last
+ * writer replacing the other's messages, that cleared messages stay cleared, and that the
+ * conversation list keeps every tab's conversations
+ */
+
+import { mergeMessages, mergeSummaries } from '../utils/chatStorage';
+import type { TestResults } from './testHarness';
+
+interface TestMessage {
+  id: string;
+  text: string;
+  timestamp: Date;
+}
+
+interface MergeCase {
+  name: string;
+  stored: TestMessage[];
+  incoming: TestMessage[];
+  clearedAt?: string;
+  deletedIds?: string[];
+  /** Expected texts, in order */
+  expected: string[];
+}
+
+const at = (minute: number) => new Date(Date.UTC(2024, 2, 1, 10, minute));
+const msg = (id: string, text: string, minute: number): TestMessage => ({ id, text, timestamp: at(minute) });
+
+const welcome = msg('welcome', 'Hello!', 0);
+
+const mergeTestCases: MergeCase[] = [
+  {
+    name: 'both tabs asked something: nothing is lost',
+    stored: [welcome, msg('a1', 'gas prices in italy', 1), msg('a2', 'Gas prices…', 2)],
+    incoming: [welcome, msg('b1', 'electricity in spain', 3), msg('b2', 'Electricity…', 4)],
+    expected: ['Hello!', 'gas prices in italy', 'Gas prices…', 'electricity in spain', 'Electricity…'],
+  },
+  {
+    name: 'interleaved messages are ordered by time',
+    stored: [welcome, msg('a1', 'first', 1), msg('a2', 'third', 3)],
+    incoming: [welcome, msg('b1', 'second', 2)],
+    expected: ['Hello!', 'first', 'second', 'third'],
+  },
+  {
+    name: 'the incoming copy wins for the same id',
+    stored: [welcome, msg('a1', 'old text', 1)],
+    incoming: [welcome, msg('a1', 'edited text', 1)],
+    expected: ['Hello!', 'edited text'],
+  },
+  {
+    name: 'messages from before a clear are not merged back',
+    stored: [],
+    incoming: [welcome, msg('a1', 'gas prices in italy', 1), msg('a2', 'after the clear', 6)],
+    clearedAt: at(5).toISOString(),
+    expected: ['after the clear'],
+  },
+  {
+    name: 'deleted messages are not merged back',
+    stored: [welcome, msg('a1', 'gas prices in italy', 1), msg('a2', 'Gas prices…', 2)],
+    incoming: [welcome],
+    deletedIds: ['a1', 'a2'],
+    expected: ['Hello!'],
+  },
+  {
+    name: 'an earlier question answered again keeps its reply next to it',
+    stored: [welcome, msg('q1', 'first question', 1), msg('q2', 'second question', 3), msg('r2', 'second answer', 4)],
+    incoming: [welcome, msg('q1', 'first question', 1), msg('r1', 'new first answer', 9), msg('q2', 'second question', 3), msg('r2', 'second answer', 4)],
+    expected: ['Hello!', 'first question', 'new first answer', 'second question', 'second answer'],
+  },
+];
+
+export async function runChatSyncTests(): Promise<TestResults> {
+  console.log('🚀 Chat Sync Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of mergeTestCases) {
+    const texts = mergeMessages(testCase.stored, testCase.incoming, testCase.clearedAt, testCase.deletedIds).map(m => m.text);
+    if (texts.join('|') === testCase.expected.join('|')) {
+      passed++;
+    } else {
+      failed++;
+      console.log(`❌ FAIL ${testCase.name}`);
+      console.log(`  └─ got: ${texts.join(' | ')}`);
+    }
+  }
+
+  // Two tabs saving the index at once: each write carries only its own conversation
+  const summary = (id: string, title: string, minute: number) => ({
+    id, title, createdAt: '2024-03-01T10:00:00.000Z', lastUpdated: `2024-03-01T10:${String(minute).padStart(2, '0')}:00.000Z`, messageCount: 1,
+  });
+  const stored = [summary('a', 'Gas prices', 1), summary('b', 'Oil imports', 2)];
+  const summaryCases: { name: string; merged: ReturnType<typeof mergeSummaries>; expected: string[] }[] = [
+    { name: 'a conversation saved by another tab is kept', merged: mergeSummaries(stored, [summary('c', 'Wind power', 3)]), expected: ['a:Gas prices', 'b:Oil imports', 'c:Wind power'] },
+    { name: 'the summary updated last wins', merged: mergeSummaries(stored, [summary('a', 'Old title', 0), summary('b', 'Oil imports 2023', 5)]), expected: ['a:Gas prices', 'b:Oil imports 2023'] },
+    { name: 'a removed conversation is dropped', merged: mergeSummaries(stored, [], ['a']), expected: ['b:Oil imports'] },
+  ];
+  for (const testCase of summaryCases) {
+    const entries = testCase.merged.map(s => `${s.id}:${s.title}`);
+    if (entries.join('|') === testCase.expected.join('|')) {
+      passed++;
+    } else {
+      failed++;
+      console.log(`❌ FAIL ${testCase.name}`);
+      console.log(`  └─ got: ${entries.join(' | ')}`);
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Tabs should merge each other\'s messages, not overwrite them');
+  return { passed, failed };
+}
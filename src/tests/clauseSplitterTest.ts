@@ -0,0 +1,72 @@
+/**
+ * Automated Clause Splitter Test
+ * Tests that compound messages are split into one clause per request, that lists of
+ * countries or products stay whole, and that the clause replies combine into one
+ */
+
+import { splitClauses } from '../utils/clauseSplitter';
+import { combineResponses } from '../utils/responseResolver';
+import type { ResolverResponse } from '../utils/responseResolver';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+export async function runClauseSplitterTests(): Promise<TestResults> {
+  console.log('🚀 Clause Splitter Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const cases: [string, string[]][] = [
+    ['Thanks! Now show me gas prices in France and export them as CSV', ['Thanks!', 'show me gas prices in France', 'export them as CSV']],
+    ['plot gas prices in 2020, then please download it', ['plot gas prices in 2020', 'please download it']],
+    ['What is energy intensity? And how is it calculated?', ['What is energy intensity?', 'how is it calculated?']],
+    ['gas and electricity prices in Germany and France', ['gas and electricity prices in Germany and France']],
+    ['compare Germany and France for 2019 and 2020', ['compare Germany and France for 2019 and 2020']],
+    ['prices above 1.5 EUR per kWh', ['prices above 1.5 EUR per kWh']],
+    ['hello', ['hello']],
+  ];
+  cases.forEach(([text, expected]) => {
+    const clauses = splitClauses(text);
+    record(`"${text}"`, JSON.stringify(clauses) === JSON.stringify(expected) ? [] : [`got ${JSON.stringify(clauses)}`]);
+  });
+
+  const many = splitClauses('show gas. show oil. show coal. show wind. show solar. show hydro');
+  record('clauses are capped', many.length === 5 && many[4] === 'show solar. show hydro' ? [] : [`got ${JSON.stringify(many)}`]);
+
+  const thanks: ResolverResponse = { text: "You're welcome!", type: 'text', metadata: { source: 'thanks_handler' } };
+  const query: ResolverResponse = {
+    text: 'Gas prices in France.\n\nWant to change anything?',
+    type: 'data',
+    metadata: {
+      confidence: 0.9,
+      content: [{ kind: 'chips', chips: ['And for 2019?'] }],
+      proposal: { question: 'Want to change anything?', yes: { kind: 'reply', text: 'Sure' }, no: { kind: 'reply', text: 'Ok' } },
+    },
+  };
+  const download: ResolverResponse = {
+    text: '1 value ready as CSV.',
+    type: 'text',
+    metadata: { confidence: 0.7, actions: [{ type: 'download', label: 'Download CSV', url: 'data:text/csv,', filename: 'gas.csv' }] },
+  };
+
+  const combined = combineResponses([thanks, query, download]);
+  record('clause replies combine in order', [
+    ...(combined.text === "You're welcome!\n\nGas prices in France.\n\n1 value ready as CSV." ? [] : [`text ${JSON.stringify(combined.text)}`]),
+    ...(combined.type === 'data' ? [] : [`type ${combined.type}`]),
+    ...(combined.metadata?.actions?.length === 1 && combined.metadata.content?.length === 1 ? [] : ['actions or content lost']),
+    ...(combined.metadata?.proposal === undefined ? [] : ['an earlier clause left its question open']),
+    ...(combined.metadata?.confidence === 0.7 ? [] : [`confidence ${combined.metadata?.confidence}`]),
+  ]);
+
+  const endsWithQuestion = combineResponses([thanks, query]);
+  record('the last clause keeps its question', [
+    ...(endsWithQuestion.metadata?.proposal === query.metadata?.proposal ? [] : ['proposal dropped']),
+    ...(endsWithQuestion.text.endsWith('Want to change anything?') ? [] : ['question text dropped']),
+  ]);
+  record('a single reply is unchanged', combineResponses([query]) === query ? [] : ['copied']);
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Every request in a message should be answered, in the order it was asked');
+  return results;
+}
@@ -0,0 +1,172 @@
+/**
+ * Automated Comparison Engine Test
+ * Tests pair, change-over-time and ranking comparisons on a small result, including
+ * price-scale values, half-year periods and shares compared in percentage points
+ */
+
+import { compareResult } from '../utils/comparisonEngine';
+import type { ComparisonOptions } from '../utils/comparisonEngine';
+import type { EurostatResult } from '../utils/eurostatClient';
+import { decodeObservations, describeDimensions } from '../utils/jsonStat';
+import type { JsonStatDataset } from '../utils/jsonStat';
+import type { TestResults } from './testHarness';
+
+function resultOf(geos: string[], periods: string[], values: number[], filters: Record<string, string[]> = {}, unit = 'GWH'): EurostatResult {
+  const dataset: JsonStatDataset = {
+    version: '2.0',
+    class: 'dataset',
+    label: 'Test balance',
+    id: ['unit', 'geo', 'time'],
+    size: [1, geos.length, periods.length],
+    dimension: {
+      unit: { category: { index: { [unit]: 0 } } },
+      geo: { category: { index: geos } },
+      time: { category: { index: periods } },
+    },
+    value: values,
+  };
+  return {
+    dataset: 'nrg_test',
+    label: 'Test balance',
+    url: '',
+    request: { dataset: 'nrg_test', filters },
+    dimensions: describeDimensions(dataset),
+    observations: decodeObservations(dataset),
+    raw: dataset,
+  };
+}
+
+interface ComparisonCase {
+  name: string;
+  result: EurostatResult;
+  options?: ComparisonOptions;
+  kind: string | null;
+  rows?: (string | number | null)[][];
+  narrative?: string;
+}
+
+const comparisonTestCases: ComparisonCase[] = [
+  {
+    name: 'pair: difference and ratio per period',
+    result: resultOf(['DE', 'FR'], ['2021', '2022'], [100, 120, 50, 80]),
+    kind: 'pair',
+    rows: [['2021', 100, 50, 50, 2], ['2022', 120, 80, 40, 1.5]],
+    narrative: 'In 2022, Germany recorded 120 GWh, 50.0% higher than France (80): a difference of 40 and a ratio of 1.5. From 2021 to 2022, Germany rose by 20.0% and France rose by 60.0%, so the gap narrowed (50 → 40). Year over year (2021 → 2022), Germany rose by 20.0% and France rose by 60.0%.',
+  },
+  {
+    name: 'pair: "X vs Y" decides the order',
+    result: resultOf(['DE', 'FR'], ['2022'], [120, 80]),
+    options: { pair: { left: 'france', right: 'germany' } },
+    kind: 'pair',
+    rows: [['2022', 80, 120, -40, 0.667]],
+  },
+  {
+    name: 'pair: request order decides without "vs"',
+    result: resultOf(['DE', 'FR'], ['2022'], [120, 80], { geo: ['FR', 'DE'] }),
+    kind: 'pair',
+    rows: [['2022', 80, 120, -40, 0.667]],
+  },
+  {
+    name: 'change: period-on-period',
+    result: resultOf(['SE'], ['2020', '2021', '2022'], [10, 15, 12]),
+    kind: 'change',
+    rows: [['2020', 10, null, null], ['2021', 15, 5, '+50.0%'], ['2022', 12, -3, '−20.0%']],
+    narrative: 'Sweden went from 10 GWh in 2020 to 12 in 2022 (+20.0%). The largest increase was from 2020 to 2021 (+50.0%). The largest decrease was from 2021 to 2022 (−20.0%).',
+  },
+  {
+    name: 'ranking: top 2 with change',
+    result: resultOf(['AT', 'DE', 'PL'], ['2021', '2022'], [30, 40, 90, 90, 60, 45]),
+    options: { ranking: { order: 'top', n: 2 } },
+    kind: 'ranking',
+    rows: [[1, 'Germany', 90, '+0.0%'], [2, 'Poland', 45, '−25.0%']],
+  },
+  {
+    name: 'ranking: lowest first',
+    result: resultOf(['AT', 'DE', 'PL'], ['2022'], [40, 90, 45]),
+    options: { ranking: { order: 'lowest' } },
+    kind: 'ranking',
+    rows: [[1, 'Austria', 40], [2, 'Poland', 45], [3, 'Germany', 90]],
+  },
+  {
+    name: 'pair: price-scale values keep their digits',
+    result: resultOf(['DE', 'FR'], ['2023-S1', '2023-S2'], [0.1234, 0.1187, 0.1201, 0.1201]),
+    kind: 'pair',
+    rows: [['2023-S1', 0.1234, 0.1201, 0.0033, 1.03], ['2023-S2', 0.1187, 0.1201, -0.0014, 0.988]],
+    narrative: 'In 2023-S2, Germany recorded 0.1187 GWh, 1.2% lower than France (0.1201): a difference of -0.0014 and a ratio of 0.988. From 2023-S1 to 2023-S2, Germany fell by 3.8% and France did not change, so the gap narrowed (0.0033 → 0.0014). Half-year over half-year (2023-S1 → 2023-S2), Germany fell by 3.8% and France did not change.',
+  },
+  {
+    name: 'change: a change that rounds away is 0, not -0',
+    result: resultOf(['SE'], ['2022-Q1', '2022-Q2'], [0.25, 0.24999999999]),
+    kind: 'change',
+    rows: [['2022-Q1', 0.25, null, null], ['2022-Q2', 0.24999999999, 0, '+0.0%']],
+  },
+  {
+    name: 'pair: shares differ in percentage points',
+    result: resultOf(['DE', 'FR'], ['2021', '2022'], [20.8, 21.574, 19.2, 19.781], { geo: ['DE', 'FR'] }, 'PC'),
+    kind: 'pair',
+    rows: [['2021', 20.8, 19.2, 1.6, 1.08], ['2022', 21.574, 19.781, 1.8, 1.09]],
+    narrative: 'In 2022, Germany recorded 21.6 %, 1.8 pp higher than France (19.8). From 2021 to 2022, Germany rose by 0.8 pp and France rose by 0.6 pp, so the gap widened (1.6 pp → 1.8 pp). Year over year (2021 → 2022), Germany rose by 0.8 pp and France rose by 0.6 pp.',
+  },
+  {
+    name: 'ranking: share changes in percentage points',
+    result: resultOf(['AT', 'DE', 'SE'], ['2021', '2022'], [76.2, 77.6, 20.8, 21.574, 62.6, 66.04], {}, 'PC'),
+    kind: 'ranking',
+    rows: [[1, 'Austria', 77.6, '+1.4 pp'], [2, 'Sweden', 66.04, '+3.4 pp'], [3, 'Germany', 21.574, '+0.8 pp']],
+  },
+  {
+    name: 'change: a share over time in percentage points',
+    result: resultOf(['SE'], ['2020', '2021', '2022'], [60.1, 62.6, 61.9], {}, 'PC'),
+    kind: 'change',
+    rows: [['2020', 60.1, null], ['2021', 62.6, 2.5], ['2022', 61.9, -0.7]],
+    narrative: 'Sweden went from 60.1 % in 2020 to 61.9 in 2022 (+1.8 pp). The largest increase was from 2020 to 2021 (+2.5 pp). The largest decrease was from 2021 to 2022 (−0.7 pp).',
+  },
+  {
+    name: 'single value: nothing to compare',
+    result: resultOf(['DE'], ['2022'], [120]),
+    kind: null,
+  },
+];
+
+export async function runComparisonEngineTests(): Promise<TestResults> {
+  console.log('🚀 Comparison Engine Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of comparisonTestCases) {
+    try {
+      const comparison = compareResult(testCase.result, 'Test', testCase.options);
+      const problems: string[] = [];
+
+      if ((comparison?.kind ?? null) !== testCase.kind) {
+        problems.push(`kind ${comparison?.kind ?? null} (expected ${testCase.kind})`);
+      }
+      if (comparison && testCase.rows) {
+        const rows = comparison.table.rows.map(row => comparison.table.columns.map(column => row[column.key] ?? null));
+        if (JSON.stringify(rows) !== JSON.stringify(testCase.rows)) {
+          problems.push(`rows ${JSON.stringify(rows)} (expected ${JSON.stringify(testCase.rows)})`);
+        }
+      }
+      if (comparison && testCase.narrative && comparison.narrative !== testCase.narrative) {
+        problems.push(`narrative "${comparison.narrative}"`);
+      }
+
+      if (problems.length === 0) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL ${testCase.name}`);
+        problems.forEach(problem => console.log(`  └─ ${problem}`));
+      }
+    } catch (error) {
+      console.error(`❌ ERROR testing ${testCase.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Comparisons should state differences, ratios and changes correctly');
+  return { passed, failed };
+}
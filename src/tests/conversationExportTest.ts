@@ -0,0 +1,162 @@
+/**
+ * Automated Conversation Export Test
+ * Tests that JSON exports import back unchanged, that damaged files are rejected, that
+ * messages with unsafe links or malformed content are left out of an import, and that
+ * the Markdown and HTML transcripts carry tables, escape text and drop unsafe links
+ */
+
+import type { ChatSession } from '../utils/chatStorage';
+import {
+  ConversationImportError,
+  exportConversationHtml,
+  exportConversationJson,
+  exportConversationMarkdown,
+  parseConversationExport,
+} from '../utils/conversationExport';
+import { toStoredMessage } from '../utils/storageSchema';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+const session: ChatSession = {
+  id: 'export-test',
+  title: 'Gas prices <Italy>',
+  autoTitle: false,
+  createdAt: '2024-03-01T10:00:00.000Z',
+  lastUpdated: '2024-03-01T10:05:00.000Z',
+  messageHistory: ['gas prices in italy'],
+  context: {
+    conversation: { activeQuery: null, proposal: null },
+    frame: null,
+  },
+  messages: [
+    { id: 'm1', text: 'gas prices in italy <script>alert(1)</script>', sender: 'user', timestamp: new Date('2024-03-01T10:00:00Z'), status: 'delivered' },
+    {
+      id: 'm2',
+      text: '**Gas prices** in Italy, see [Eurostat](https://ec.europa.eu/eurostat) or [this](javascript:alert(1))',
+      sender: 'bot',
+      timestamp: new Date('2024-03-01T10:00:02Z'),
+      status: 'delivered',
+      parentId: 'm1',
+      metadata: {
+        suggestions: ['Compare with Spain'],
+        actions: [
+          { type: 'download', label: 'Download CSV', url: 'data:text/csv;charset=utf-8,a%2Cb', filename: 'nrg_pc_202.csv' },
+          { type: 'link', label: 'Bad link', url: 'javascript:alert(1)' },
+        ],
+        content: [{
+          kind: 'table',
+          caption: 'Gas prices, Italy',
+          columns: [{ key: 'time', label: 'Period' }, { key: 'value', label: 'EUR/kWh', numeric: true }],
+          rows: [{ time: '2023-S2', value: 0.1234 }],
+        }],
+      },
+    },
+  ],
+};
+
+export async function runConversationExportTests(): Promise<TestResults> {
+  console.log('🚀 Conversation Export Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const check = (name: string, test: () => string[]) => {
+    try {
+      record(name, test());
+    } catch (error) {
+      record(name, [`threw ${error instanceof Error ? error.message : String(error)}`]);
+    }
+  };
+
+  // The javascript: action is only there for the transcripts to drop
+  const safeSession: ChatSession = {
+    ...session,
+    messages: session.messages.map(msg => msg.metadata?.actions
+      ? { ...msg, metadata: { ...msg.metadata, actions: msg.metadata.actions.filter(action => action.type === 'download') } }
+      : msg),
+  };
+
+  check('JSON export imports back unchanged', () => {
+    const { session: imported, droppedMessages } = parseConversationExport(exportConversationJson(safeSession));
+    const problems: string[] = [];
+    if (droppedMessages !== 0) problems.push(`${droppedMessages} messages dropped`);
+    if (JSON.stringify(imported.messages) !== JSON.stringify(safeSession.messages.map(toStoredMessage))) problems.push('messages differ');
+    if (JSON.stringify(imported.context) !== JSON.stringify(session.context)) problems.push('context differs');
+    if (imported.title !== session.title || imported.messageHistory.join() !== session.messageHistory.join()) problems.push('title or input history differ');
+    return problems;
+  });
+
+  const importedWith = (metadata: unknown) => {
+    const exported = JSON.parse(exportConversationJson(safeSession));
+    exported.session.messages[1].metadata = metadata;
+    return parseConversationExport(JSON.stringify(exported));
+  };
+  const unsafe: [string, unknown][] = [
+    ['javascript: action', { actions: [{ type: 'link', label: 'Open', url: 'javascript:alert(1)' }] }],
+    ['HTML data: action', { actions: [{ type: 'download', label: 'Open', url: 'data:text/html,<script>alert(1)</script>' }] }],
+    ['unknown action type', { actions: [{ type: 'script', label: 'Run', url: 'https://example.org' }] }],
+    ['table without columns', { content: [{ kind: 'table', caption: 'Prices', rows: [] }] }],
+    ['card fields that are not a list', { content: [{ kind: 'card', title: 'Dataset', fields: 'none' }] }],
+    ['card link to http', { content: [{ kind: 'card', title: 'Dataset', link: { label: 'Open', url: 'http://example.org' } }] }],
+    ['unknown content kind', { content: [{ kind: 'iframe', src: 'https://example.org' }] }],
+  ];
+  unsafe.forEach(([name, metadata]) => check(`message with a ${name} is dropped on import`, () => {
+    const { session: imported, droppedMessages } = importedWith(metadata);
+    return droppedMessages === 1 && imported.messages.map(msg => msg.id).join() === 'm1' ? [] : [`kept ${imported.messages.map(msg => msg.id)}`];
+  }));
+  check('mailto and file actions are kept on import', () => {
+    const { droppedMessages } = importedWith({ actions: [
+      { type: 'mailto', label: 'Email support', url: 'mailto:estat-user-support@ec.europa.eu?subject=Help' },
+      { type: 'download', label: 'Excel', url: 'data:application/vnd.openxmlformats-officedocument.spreadsheetml.sheet;base64,UEsD', filename: 'a.xlsx' },
+    ] });
+    return droppedMessages === 0 ? [] : ['dropped'];
+  });
+
+  const rejects = (name: string, text: string, expectProblems = false) => check(name, () => {
+    try {
+      parseConversationExport(text);
+      return ['accepted'];
+    } catch (error) {
+      if (!(error instanceof ConversationImportError)) return [`threw ${String(error)}`];
+      return expectProblems && error.problems.length === 0 ? ['no problems listed'] : [];
+    }
+  });
+
+  rejects('invalid JSON is rejected', '{"format": ');
+  rejects('JSON that is not an export is rejected', JSON.stringify({ messages: [] }));
+  const damaged = JSON.parse(exportConversationJson(session));
+  damaged.session.title = 7;
+  rejects('damaged export is rejected with its problems', JSON.stringify(damaged), true);
+  check('damaged messages are left out of an import', () => {
+    const exported = JSON.parse(exportConversationJson(safeSession));
+    exported.session.messages[0].sender = 'robot';
+    const { session: imported, droppedMessages } = parseConversationExport(JSON.stringify(exported));
+    return droppedMessages === 1 && imported.messages.length === 1 ? [] : [`${droppedMessages} dropped`];
+  });
+
+  check('Markdown transcript', () => {
+    const markdown = exportConversationMarkdown(session);
+    const problems: string[] = [];
+    if (!markdown.startsWith('# Gas prices <Italy>')) problems.push('no title heading');
+    if (!markdown.includes('| Period | EUR/kWh |') || !markdown.includes('| 2023-S2 | 0.1234 |')) problems.push('table missing');
+    if (!markdown.includes('- Download CSV: nrg_pc_202.csv')) problems.push('download not listed by file name');
+    return problems;
+  });
+
+  check('HTML transcript', () => {
+    const html = exportConversationHtml(session);
+    const problems: string[] = [];
+    if (!html.includes('<html lang="en">') || !html.includes('<main>')) problems.push('no language or main landmark');
+    if (html.includes('<script>')) problems.push('message text not escaped');
+    if (html.includes('javascript:')) problems.push('unsafe link kept');
+    if (!html.includes('<caption>Gas prices, Italy</caption>') || !html.includes('<th scope="col">Period</th>')) problems.push('table not accessible');
+    if (!html.includes('download="nrg_pc_202.csv"')) problems.push('download link missing');
+    if (!html.includes('<strong>Gas prices</strong>')) problems.push('markdown not rendered');
+    return problems;
+  });
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Exports should round-trip and transcripts should be safe to open');
+  return results;
+}
@@ -0,0 +1,123 @@
+/**
+ * Automated Data Export Test
+ * Tests format detection, the files generated for a query result and building a file
+ * again from the selection a download button keeps
+ */
+
+import { detectExportFormats, exportDataset, textUrl, toCsv, toJsonStat, toSdmxCsv, toXlsx } from '../utils/dataExport';
+import { createFixtureTransport, createHttpTransport, eurostatClient } from '../utils/eurostatClient';
+import type { EurostatResult } from '../utils/eurostatClient';
+import { decodeObservations, describeDimensions } from '../utils/jsonStat';
+import type { JsonStatDataset } from '../utils/jsonStat';
+import type { TestResults } from './testHarness';
+
+const dataset: JsonStatDataset = {
+  version: '2.0',
+  class: 'dataset',
+  label: 'Test balance',
+  updated: '2024-02-15T23:00:00+0100',
+  id: ['siec', 'geo', 'time'],
+  size: [1, 2, 2],
+  dimension: {
+    siec: { label: 'Energy', category: { index: { E7000: 0 }, label: { E7000: 'Electricity, "grid"' } } },
+    geo: { label: 'Geo', category: { index: { DE: 0, FR: 1 }, label: { DE: 'Germany', FR: 'France' } } },
+    time: { label: 'Time', category: { index: { '2020': 0, '2021': 1 } } },
+  },
+  value: [10, 11, null, 13],
+  status: { 1: 'p' },
+};
+
+const result: EurostatResult = {
+  dataset: 'nrg_test',
+  label: dataset.label!,
+  updated: dataset.updated,
+  url: 'https://example.test/nrg_test',
+  request: { dataset: 'nrg_test', filters: {} },
+  dimensions: describeDimensions(dataset),
+  observations: decodeObservations(dataset).filter(obs => obs.value !== null),
+  raw: dataset,
+};
+
+interface ExportCase {
+  name: string;
+  run: () => unknown;
+  expected: unknown;
+}
+
+const exportTestCases: ExportCase[] = [
+  { name: 'formats in mention order', run: () => detectExportFormats('download it as csv and excel'), expected: ['csv', 'xlsx'] },
+  { name: 'sdmx csv is one format', run: () => detectExportFormats('export as sdmx csv'), expected: ['sdmx-csv'] },
+  { name: 'json stat is not json', run: () => detectExportFormats('give me the json stat'), expected: ['jsonstat'] },
+  { name: 'no format named', run: () => detectExportFormats('download the data'), expected: [] },
+  {
+    name: 'csv quotes labels with commas and quotes',
+    run: () => toCsv(result).split('\r\n')[2],
+    expected: 'E7000,"Electricity, ""grid""",DE,Germany,2021,2021,11,p',
+  },
+  {
+    name: 'sdmx-csv header and codes',
+    run: () => toSdmxCsv(result).split('\r\n').slice(0, 2),
+    expected: ['DATAFLOW,LAST UPDATE,siec,geo,TIME_PERIOD,OBS_VALUE,OBS_FLAG', 'ESTAT:NRG_TEST(1.0),2024-02-15T23:00:00+0100,E7000,DE,2020,10,'],
+  },
+  {
+    name: 'json-stat decodes back to the same observations',
+    run: () => decodeObservations(toJsonStat(result)).filter(obs => obs.value !== null),
+    expected: result.observations,
+  },
+  {
+    name: 'xlsx is a zip package',
+    run: () => Array.from(toXlsx(result).subarray(0, 4)),
+    expected: [0x50, 0x4B, 0x03, 0x04],
+  },
+];
+
+export async function runDataExportTests(): Promise<TestResults> {
+  console.log('🚀 Data Export Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of exportTestCases) {
+    try {
+      const actual = JSON.stringify(testCase.run());
+      const expected = JSON.stringify(testCase.expected);
+      if (actual === expected) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL ${testCase.name}`);
+        console.log(`  └─ Got:      ${actual}`);
+        console.log(`  └─ Expected: ${expected}`);
+      }
+    } catch (error) {
+      console.error(`❌ ERROR testing ${testCase.name}:`, error);
+      failed++;
+    }
+  }
+
+  // A download button keeps the selection; clicking it fetches that again and builds the file
+  eurostatClient.setTransport(createFixtureTransport({ nrg_test: dataset }));
+  try {
+    const request = { dataset: 'nrg_test', filters: { geo: ['DE'] } };
+    const file = await exportDataset({ request, format: 'csv' });
+    const expected = toCsv({ ...result, request, observations: result.observations.filter(obs => obs.dimensions.geo === 'DE') });
+    if (file.filename === 'nrg_test.csv' && file.url === textUrl(expected, 'text/csv')) {
+      passed++;
+    } else {
+      failed++;
+      console.log('❌ FAIL a download is built from its selection when clicked');
+      console.log(`  └─ Got: ${file.filename} ${decodeURIComponent(file.url)}`);
+    }
+  } catch (error) {
+    console.error('❌ ERROR testing a download built from its selection:', error);
+    failed++;
+  } finally {
+    eurostatClient.setTransport(createHttpTransport());
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Exports should reproduce the result exactly');
+  return { passed, failed };
+}
@@ -0,0 +1,78 @@
+/**
+ * Automated Dataset Search Test
+ * Tests catalog ranking for topic searches and that "use dataset" seeds the active query
+ */
+
+import { isDatasetSearch, searchDatasets, searchTerms } from '../utils/datasetSearch';
+import { processMessage } from '../utils/messageProcessor';
+import { dialogManager } from '../utils/dialogManager';
+import { resolveResponse } from '../utils/responseResolver';
+import { conversationContext } from '../state/conversationContext';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+interface SearchCase {
+  input: string;
+  /** Dataset codes expected at the top of the results, in order */
+  top: string[];
+  /** Total number of results, when it matters */
+  count?: number;
+}
+
+const searchTestCases: SearchCase[] = [
+  { input: 'what datasets do you have about heat pumps?', top: ['nrg_bal_c', 'nrg_ind_ren'], count: 2 },
+  { input: 'which data is available on gas prices', top: ['nrg_pc_202', 'nrg_pc_204'] },
+  { input: 'find tables on renewables', top: ['nrg_ind_ren'] },
+  { input: 'what data do you have on household electricity bills', top: ['nrg_pc_204'] },
+  { input: 'any datasets about energy efficiency targets?', top: ['nrg_ind_eff'] },
+  { input: 'what datasets do you have about nuclear waste', top: [], count: 0 },
+  { input: 'list the datasets', top: ['nrg_bal_c', 'nrg_ind_ren', 'nrg_ind_eff', 'nrg_pc_202', 'nrg_pc_204'], count: 5 },
+];
+
+export async function runDatasetSearchTests(): Promise<TestResults> {
+  console.log('🚀 Dataset Search Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  for (const testCase of searchTestCases) {
+    try {
+      const problems: string[] = [];
+      const { cleaned } = processMessage(testCase.input).preprocessed;
+      if (!isDatasetSearch(cleaned)) problems.push(`"${cleaned}" not recognised as a search`);
+
+      const codes = searchDatasets(searchTerms(cleaned)).map(hit => hit.meta.code);
+      if (testCase.top.some((code, i) => codes[i] !== code)) problems.push(`ranked ${codes.join(', ') || 'nothing'}`);
+      if (testCase.count !== undefined && codes.length !== testCase.count) problems.push(`${codes.length} results`);
+
+      record(`"${testCase.input}"`, problems);
+    } catch (error) {
+      console.error(`❌ ERROR testing "${testCase.input}":`, error);
+      results.failed++;
+    }
+  }
+
+  try {
+    dialogManager.reset();
+    conversationContext.clear();
+    const processed = processMessage('Use dataset nrg_pc_204');
+    const outcome = dialogManager.handle(processed.resolution, processed.entities, processed.preprocessed.cleaned);
+    const problems: string[] = [];
+    if (outcome.kind !== 'resolve') {
+      problems.push('answered by the dialog manager');
+    } else {
+      await resolveResponse(outcome.resolution, outcome.entities, processed.preprocessed.cleaned);
+      const active = conversationContext.activeQuery;
+      if (active?.dataset !== 'nrg_pc_204') problems.push(`active dataset ${active?.dataset ?? 'none'}`);
+    }
+    record('"Use dataset nrg_pc_204" seeds the active query', problems);
+  } catch (error) {
+    console.error('❌ ERROR testing dataset selection:', error);
+    results.failed++;
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Searches should rank the most relevant datasets first');
+  return results;
+}
@@ -0,0 +1,134 @@
+/**
+ * Automated Eurostat Client Test
+ * Tests decoding JSON-stat cubes (sparse values, status flags), selecting observations
+ * like the API does, and how API and HTTP errors reach the caller
+ */
+
+import { EurostatApiError, EurostatClient, createFixtureTransport, createHttpTransport, selectObservations } from '../utils/eurostatClient';
+import type { EurostatRequest, EurostatTransport } from '../utils/eurostatClient';
+import { categoryCodes, decodeObservations } from '../utils/jsonStat';
+import type { JsonStatDataset, Observation } from '../utils/jsonStat';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+// Two countries by three years; values and statuses are sparse objects keyed by flat index
+const cube: JsonStatDataset = {
+  version: '2.0',
+  class: 'dataset',
+  label: 'Test balance',
+  id: ['unit', 'geo', 'time'],
+  size: [1, 2, 3],
+  dimension: {
+    unit: { category: { label: { GWH: 'GWh' } } },
+    geo: { category: { index: { DE: 0, FR: 1 }, label: { DE: 'Germany', FR: 'France' } } },
+    time: { category: { index: ['2020', '2021', '2022'] } },
+  },
+  value: { 0: 10, 2: 12, 3: 20, 4: null, 5: 22 },
+  status: { 2: 'p', 5: 'e' },
+};
+
+const request = (filters: Record<string, string[]>, extra: Partial<EurostatRequest> = {}): EurostatRequest => ({ dataset: 'nrg_test', filters, ...extra });
+
+const describe = (observations: Observation[]) =>
+  observations.map(obs => `${obs.dimensions.geo} ${obs.dimensions.time} ${obs.value}${obs.status ? ` (${obs.status})` : ''}`);
+
+const expectList = (actual: string[], expected: string[]) =>
+  JSON.stringify(actual) === JSON.stringify(expected) ? [] : [`got ${JSON.stringify(actual)}`];
+
+/**
+ * The EurostatApiError a fetch ends with, or a problem when it ends any other way
+ */
+async function rejection(fetching: Promise<unknown>): Promise<EurostatApiError | string> {
+  try {
+    await fetching;
+    return 'resolved instead of failing';
+  } catch (error) {
+    return error instanceof EurostatApiError ? error : `threw ${String(error)}`;
+  }
+}
+
+const fakeFetch = (status: number, body: string): typeof fetch =>
+  async () => new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+
+export async function runEurostatClientTests(): Promise<TestResults> {
+  console.log('🚀 Eurostat Client Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const decoded = decodeObservations(cube);
+  record('sparse values decode to their cells with status flags', expectList(describe(decoded), [
+    'DE 2020 10', 'DE 2022 12 (p)', 'FR 2020 20', 'FR 2021 null', 'FR 2022 22 (e)',
+  ]));
+
+  record('category codes come from an object index, an array index or labels only', expectList(
+    ['unit', 'geo', 'time'].map(id => categoryCodes(cube.dimension[id]).join(',')),
+    ['GWH', 'DE,FR', '2020,2021,2022'],
+  ));
+
+  const dense: JsonStatDataset = { ...cube, value: [10, null, 12, 20, 21, 22], status: [null, null, 'p', null, null, 'e'] };
+  record('dense values and status arrays decode like sparse ones', expectList(describe(decodeObservations(dense)), [
+    'DE 2020 10', 'DE 2021 null', 'DE 2022 12 (p)', 'FR 2020 20', 'FR 2021 21', 'FR 2022 22 (e)',
+  ]));
+  record('a status string flags every cell', decodeObservations({ ...cube, status: 'p' }).every(obs => obs.status === 'p') ? [] : ['a cell without the flag']);
+
+  record('selection applies filters and drops missing values', expectList(describe(selectObservations(decoded, request({ geo: ['FR'] }))), [
+    'FR 2020 20', 'FR 2022 22 (e)',
+  ]));
+  record('selection applies the period bounds', expectList(describe(selectObservations(decoded, request({}, { sinceTimePeriod: '2021', untilTimePeriod: '2022' }))), [
+    'DE 2022 12 (p)', 'FR 2022 22 (e)',
+  ]));
+  record('selection keeps the last periods with a value', expectList(describe(selectObservations(decoded, request({ geo: [] }, { lastTimePeriod: 2 }))), [
+    'DE 2020 10', 'DE 2022 12 (p)', 'FR 2020 20', 'FR 2022 22 (e)',
+  ]));
+
+  const clientOf = (transport: EurostatTransport) => new EurostatClient({ transport });
+
+  try {
+    const result = await clientOf(createFixtureTransport({ nrg_test: cube })).fetchDataset(request({ geo: ['DE'] }, { lastTimePeriod: 1 }));
+    record('a fetched dataset is decoded and selected', [
+      ...expectList(describe(result.observations), ['DE 2022 12 (p)']),
+      ...(result.label === 'Test balance' ? [] : [`label ${result.label}`]),
+      ...(result.url.includes('/nrg_test?') && result.url.includes('geo=DE') && result.url.includes('lastTimePeriod=1') ? [] : [`url ${result.url}`]),
+    ]);
+  } catch (error) {
+    record('a fetched dataset is decoded and selected', [`rejected: ${String(error)}`]);
+  }
+
+  const envelope = { error: [{ status: 400, id: 'INVALID_PARAMETER', label: 'Invalid dimension code XX for geo' }] };
+  const apiError = await rejection(clientOf(async () => envelope).fetchDataset(request({ geo: ['XX'] })));
+  record('an error envelope becomes an API error with its label', typeof apiError === 'string' ? [apiError] : [
+    ...(apiError.message === 'Invalid dimension code XX for geo' ? [] : [`message "${apiError.message}"`]),
+    ...(apiError.dataset === 'nrg_test' ? [] : [`dataset ${apiError.dataset}`]),
+  ]);
+
+  const notJsonStat = await rejection(clientOf(async () => ({ class: 'collection' })).fetchDataset(request({})));
+  record('a payload that is not JSON-stat is rejected', typeof notJsonStat === 'string' ? [notJsonStat] : []);
+
+  const missing = await rejection(clientOf(createFixtureTransport({})).fetchDataset(request({})));
+  record('a dataset without a fixture is a 404', typeof missing === 'string' ? [missing] : missing.status === 404 ? [] : [`status ${missing.status}`]);
+
+  const notFound = await rejection(clientOf(createHttpTransport(fakeFetch(404, JSON.stringify({ error: { status: 404, label: 'Dataset nrg_test not found' } })))).fetchDataset(request({})));
+  record('an HTTP error carries its status and the envelope label', typeof notFound === 'string' ? [notFound] : [
+    ...(notFound.status === 404 ? [] : [`status ${notFound.status}`]),
+    ...(notFound.message === 'Dataset nrg_test not found' ? [] : [`message "${notFound.message}"`]),
+  ]);
+
+  const outage = await rejection(clientOf(createHttpTransport(fakeFetch(503, '<html>Service unavailable</html>'))).fetchDataset(request({})));
+  record('an HTTP error without an envelope names the status', typeof outage === 'string' ? [outage] : [
+    ...(outage.status === 503 ? [] : [`status ${outage.status}`]),
+    ...(outage.message === 'Eurostat API responded with HTTP 503' ? [] : [`message "${outage.message}"`]),
+  ]);
+
+  try {
+    const result = await clientOf(createHttpTransport(fakeFetch(200, JSON.stringify(cube)))).fetchDataset(request({ geo: ['FR'] }));
+    record('a successful HTTP response is decoded', expectList(describe(result.observations), ['FR 2020 20', 'FR 2022 22 (e)']));
+  } catch (error) {
+    record('a successful HTTP response is decoded', [`rejected: ${String(error)}`]);
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Cubes should decode cell by cell and API failures should surface as API errors');
+  return results;
+}
@@ -4,6 +4,7 @@
  */
 
 import { processMessage } from '../utils/messageProcessor';
+import type { TestResults } from './testHarness';
 
 const farewellTestSentences = [
   // === CORE FAREWELLS ===
@@ -108,7 +109,7 @@ const farewellTestSentences = [
   "bai",
 ];
 
-export async function runFarewellTests(): Promise<void> {
+export async function runFarewellTests(): Promise<TestResults> {
   console.log('🚀 Farewell Tests\n');
   console.log('=' .repeat(30));
 
@@ -147,6 +148,7 @@ export async function runFarewellTests(): Promise<void> {
   console.log('=' .repeat(30));
   console.log(`📊 Results: ${passed} passed, ${failed} failed (${farewellTestSentences.length} total)`);
   console.log('🎯 All farewells should be detected as "farewell" intent');
+  return { passed, failed };
 }
 
 // Auto-run tests in browser environment
@@ -0,0 +1,67 @@
+/**
+ * Automated Feedback Log Test
+ * Tests the "what did you mean?" alternatives offered after a thumbs down and the labeled
+ * examples exported from answer feedback
+ */
+
+import { buildFeedbackFile, intentAlternatives, toLabeledExamples } from '../utils/feedbackLog';
+import type { FeedbackEntry } from '../utils/feedbackLog';
+import { resolveIntents } from '../utils/intentDetection';
+import type { Intent } from '../utils/intentDetection';
+import { createRecorder, resolutionWith } from './testHarness';
+import type { TestResults } from './testHarness';
+
+const entry = (raw: string, rating: FeedbackEntry['rating'], detectedIntent: Intent, correctedIntent?: Intent): FeedbackEntry => ({
+  turnId: `turn-${raw}`,
+  messageId: `reply-${raw}`,
+  rating,
+  raw,
+  cleaned: raw,
+  detectedIntent,
+  alternatives: [],
+  ...(correctedIntent ? { correctedIntent } : {}),
+  ratedAt: '2024-03-01T10:00:00.000Z',
+});
+
+export async function runFeedbackLogTests(): Promise<TestResults> {
+  console.log('🚀 Feedback Log Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const scored = intentAlternatives(resolutionWith('data_query', { data_query: 3, viz_request: 2.5, question: 1, ambiguous: 2 }));
+  record('scored intents are offered first, best first', scored.join() === 'viz_request,question,compare_request,download_request' ? [] : [scored.join()]);
+
+  const unscored = intentAlternatives(resolutionWith('greeting', { greeting: 2 }));
+  record('common requests fill in when little else scored', unscored.length === 4 && !unscored.includes('greeting') ? [] : [unscored.join()]);
+
+  const live = intentAlternatives(resolveIntents('show me a chart of gas prices in italy'));
+  record('the detected intent is never offered', live.includes(resolveIntents('show me a chart of gas prices in italy').primary) ? ['primary offered'] : []);
+
+  const log = [
+    entry('gas prices in italy', 'up', 'data_query'),
+    entry('plot it', 'down', 'command', 'viz_request'),
+    entry('what about it', 'down', 'question'),
+  ];
+  const examples = toLabeledExamples(log);
+  record('confirmed and corrected answers become examples', [
+    ...(examples.length === 2 ? [] : [`${examples.length} examples`]),
+    ...(examples[0]?.intent === 'data_query' && examples[0].source === 'confirmed' ? [] : ['thumbs up not labeled with the detected intent']),
+    ...(examples[1]?.intent === 'viz_request' && examples[1].detectedIntent === 'command' && examples[1].source === 'corrected' ? [] : ['correction not labeled']),
+  ]);
+
+  const compound = toLabeledExamples([entry('Thanks! Now show me gas prices in France and export them as CSV', 'up', 'thanks')]);
+  record('compound messages are not labeled with one intent', compound.length === 0 ? [] : [`labeled ${compound[0].intent}`]);
+
+  const file = buildFeedbackFile(log);
+  const lines = decodeURIComponent(file.url.slice(file.url.indexOf(',') + 1)).trim().split('\n');
+  record('feedback exports as one JSON example per line', [
+    ...(file.filename.endsWith('.jsonl') ? [] : [file.filename]),
+    ...(lines.length === 2 && JSON.parse(lines[1]).text === 'plot it' ? [] : [lines.join(' / ')]),
+  ]);
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Every rated answer should become a labeled example of what the user meant');
+  return results;
+}
@@ -4,6 +4,7 @@
  */
 
 import { processMessage } from '../utils/messageProcessor';
+import type { TestResults } from './testHarness';
 
 const greetingTestSentences = [
   // === FORMAL GREETINGS ===
@@ -69,7 +70,7 @@ const greetingTestSentences = [
   "g'day"
 ];
 
-export async function runGreetingTests(): Promise<void> {
+export async function runGreetingTests(): Promise<TestResults> {
   console.log('🚀 Greeting Tests\n');
   console.log('=' .repeat(30));
 
@@ -108,6 +109,7 @@ export async function runGreetingTests(): Promise<void> {
   console.log('=' .repeat(30));
   console.log(`📊 Results: ${passed} passed, ${failed} failed`);
   console.log('🎯 All greetings should be detected as "greeting" intent');
+  return { passed, failed };
 }
 
 // Auto-run tests in browser environment
@@ -0,0 +1,73 @@
+/**
+ * Automated Intent Classifier Test
+ * Tests feature extraction, training and classification of the naive Bayes model, and
+ * how its probabilities blend into the rule scores of resolveIntents
+ */
+
+import { classifyWith, extractFeatures, getIntentModel, setIntentModel, trainIntentModel } from '../utils/intentClassifier';
+import type { IntentModel, LabeledText } from '../utils/intentClassifier';
+import { detectIntent, resolveIntents } from '../utils/intentDetection';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+export async function runIntentClassifierTests(): Promise<TestResults> {
+  console.log('🚀 Intent Classifier Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const features = extractFeatures('Électricité prices in 2019, top 5?');
+  record('features are normalized words and word pairs', [
+    'electricite', 'prices', '<year>', '<num>', '?', 'prices in', 'in <year>',
+  ].filter(feature => !features.includes(feature)).map(feature => `missing "${feature}"`));
+
+  const tiny: LabeledText[] = [
+    { text: 'show gas prices', intent: 'data_query' },
+    { text: 'gas prices in france', intent: 'data_query' },
+    { text: 'thanks a lot', intent: 'thanks' },
+    { text: 'thank you so much', intent: 'thanks' },
+  ];
+  const model = trainIntentModel(tiny);
+  const gas = classifyWith(model, 'what are gas prices in spain');
+  const total = Object.values(gas ?? {}).reduce((sum, p) => sum + p, 0);
+  record('a trained model classifies what it has seen', [
+    ...(model.labels.join(',') === 'data_query,thanks' ? [] : [`labels ${model.labels.join(',')}`]),
+    ...((gas?.data_query ?? 0) > 0.9 ? [] : [`data_query ${gas?.data_query}`]),
+    ...(Math.abs(total - 1) < 1e-9 ? [] : [`probabilities sum to ${total}`]),
+    ...(classifyWith(model, 'zzz qqq') === null ? [] : ['unknown words were classified']),
+  ]);
+
+  const restored = JSON.parse(JSON.stringify(model)) as IntentModel;
+  record('a model survives a JSON round trip', JSON.stringify(classifyWith(restored, 'thank you')) === JSON.stringify(classifyWith(model, 'thank you')) ? [] : ['different probabilities']);
+
+  const shipped = getIntentModel();
+  const shippedGuess = shipped ? classifyWith(shipped, 'show me the electricity prices in germany for 2020') : null;
+  record('the shipped model knows a plain data query', (shippedGuess?.data_query ?? 0) > 0.5 ? [] : [`data_query ${shippedGuess?.data_query}`]);
+
+  const blended = resolveIntents('thanks a lot');
+  setIntentModel(null);
+  try {
+    const rulesOnly = resolveIntents('thanks a lot');
+    record('the classifier adds to the rule scores', [
+      ...(rulesOnly.classifier === undefined ? [] : ['classified without a model']),
+      ...(blended.classifier ? [] : ['no classifier view on the resolution']),
+      ...(blended.scores.thanks > rulesOnly.scores.thanks ? [] : [`thanks ${blended.scores.thanks} vs ${rulesOnly.scores.thanks}`]),
+      ...(detectIntent('thanks a lot') === 'thanks' ? [] : ['rules alone lost the intent']),
+    ]);
+  } finally {
+    setIntentModel(shipped);
+  }
+
+  record('a classifier guess alone does not turn a chart request into a comparison', [
+    'plot gas prices in France and Italy',
+    'chart gas prices in france and spain',
+  ].flatMap(text => {
+    const { primary } = resolveIntents(text);
+    return primary === 'compare_request' ? [`"${text}" → ${primary}`] : [];
+  }));
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 The classifier should catch phrasings the rules miss without overruling them');
+  return results;
+}
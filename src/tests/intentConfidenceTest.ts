@@ -0,0 +1,102 @@
+/**
+ * Automated Intent Confidence Test
+ * Tests calibrated intent probabilities, the top-two margin, fitting the calibration and
+ * the "did you mean …?" clarification asked when the intent is a coin flip
+ */
+
+import { resolveIntents } from '../utils/intentDetection';
+import type { Intent, Resolution, Scores } from '../utils/intentDetection';
+import { calibrateScores, calibrationError, confidenceOf, fitCalibration } from '../utils/intentConfidence';
+import type { CalibrationSample } from '../utils/intentConfidence';
+import { chosenIntent, clarificationFor, clarificationResponse } from '../utils/clarification';
+import { extractEntities } from '../utils/entityExtractor';
+import { createRecorder, scoresOf } from './testHarness';
+import type { TestResults } from './testHarness';
+
+const resolutionOf = (primary: Intent, values: Partial<Scores>): Resolution => {
+  const scores = scoresOf(values);
+  const { confidence, margin } = confidenceOf(scores, primary);
+  return { primary, coIntents: [], modifiers: [], scores, confidence, margin };
+};
+
+export async function runIntentConfidenceTests(): Promise<TestResults> {
+  console.log('🚀 Intent Confidence Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const parameters = { temperature: 1, unscored: 0 };
+  const probabilities = calibrateScores(scoresOf({ viz_request: 2, download_request: 1, filter_change: 3 }), parameters);
+  const total = Object.values(probabilities).reduce((sum, p) => sum + p, 0);
+  record('scores become probabilities', [
+    ...(Math.abs(total - 1) < 1e-9 ? [] : [`sum ${total}`]),
+    ...(probabilities.filter_change === undefined ? [] : ['a modifier got a probability']),
+    ...((probabilities.viz_request ?? 0) > (probabilities.download_request ?? 0) ? [] : ['order lost']),
+    ...(probabilities.help === probabilities.greeting && (probabilities.help ?? 0) > 0 ? [] : ['unscored intents do not share evenly']),
+  ]);
+
+  // compare_request is routed over the higher-scoring data query it contains
+  const precedence = confidenceOf(scoresOf({ data_query: 3, compare_request: 1 }), 'compare_request', parameters);
+  record('the margin is taken between the two likeliest intents', [
+    ...(precedence.margin > 0 ? [] : [`margin ${precedence.margin}`]),
+    ...(precedence.runnerUp?.intent === 'data_query' ? [] : [`runner-up ${precedence.runnerUp?.intent}`]),
+    ...(precedence.confidence < precedence.runnerUp!.confidence ? [] : ['routed intent reported as likeliest']),
+  ]);
+
+  const sharp: CalibrationSample[] = Array.from({ length: 20 }, () => ({ scores: scoresOf({ data_query: 2, viz_request: 1 }), intent: 'data_query' }));
+  const mixed: CalibrationSample[] = sharp.map((sample, i) => ({ ...sample, intent: i % 2 ? 'viz_request' : 'data_query' }));
+  const sure = confidenceOf(sharp[0].scores, 'data_query', fitCalibration(sharp)).confidence;
+  const unsure = confidenceOf(mixed[0].scores, 'data_query', fitCalibration(mixed)).confidence;
+  record('fitting follows how often the scores are right', [
+    ...(sure > 0.9 ? [] : [`always right: ${sure.toFixed(2)}`]),
+    ...(Math.abs(unsure - 0.5) < 0.05 ? [] : [`right half the time: ${unsure.toFixed(2)}`]),
+  ]);
+
+  const calibrated = calibrationError([{ confidence: 0.75, correct: true }, { confidence: 0.75, correct: true }, { confidence: 0.75, correct: true }, { confidence: 0.75, correct: false }]);
+  const overconfident = calibrationError([{ confidence: 0.95, correct: true }, { confidence: 0.95, correct: false }]);
+  record('calibration error', Math.abs(calibrated) < 1e-9 && Math.abs(overconfident - 0.45) < 1e-9 ? [] : [`${calibrated} and ${overconfident}`]);
+
+  const resolved = resolveIntents('show me electricity production in germany for 2020');
+  record('resolutions carry a confidence and margin', resolved.confidence !== undefined && resolved.confidence > 0 && resolved.margin !== undefined ? [] : [`confidence ${resolved.confidence}, margin ${resolved.margin}`]);
+
+  const entities = extractEntities('gas prices in spain');
+  const coinFlip = resolutionOf('download_request', { download_request: 1.5, viz_request: 1.5 });
+  const question = clarificationFor(coinFlip, entities, 'gas prices in spain');
+  const response = question ? clarificationResponse(question) : null;
+  record('a coin flip is asked about', [
+    ...(question?.options.map(option => option.intent).join(',') === 'download_request,viz_request' ? [] : [`options ${question?.options.map(option => option.intent)}`]),
+    ...(response?.text.includes('download data or see a chart') ? [] : [`text "${response?.text}"`]),
+    ...(response?.metadata?.suggestions?.join(',') === 'Download the data,Show a chart' ? [] : [`quick replies ${response?.metadata?.suggestions}`]),
+    ...(response?.metadata?.clarification === question ? [] : ['question not kept for the answer']),
+  ]);
+
+  record('clear or settled intents are not asked about', [
+    ...(clarificationFor(resolutionOf('download_request', { download_request: 6, viz_request: 1 }), entities, '') === null ? [] : ['clear intent']),
+    ...(clarificationFor({ ...coinFlip, confidence: 1, margin: 1 }, entities, '') === null ? [] : ['picked intent']),
+    ...(clarificationFor(resolutionOf('greeting', { greeting: 1, farewell: 1 }), entities, '') === null ? [] : ['social intents']),
+    ...(clarificationFor(resolutionOf('download_request', { download_request: 0.2 }), entities, '') === null ? [] : ['unscored runner-up']),
+  ]);
+
+  // Precedence can route an intent the scores make unlikely; a likely runner-up is no reason to stay quiet
+  const overruled = resolutionOf('compare_request', { compare_request: 1, data_query: 5 });
+  const overruledQuestion = clarificationFor(overruled, entities, 'plot gas prices in france and italy');
+  record('an unlikely routed intent is asked about even when the runner-up is likely', [
+    ...((overruled.confidence ?? 1) < 0.4 && (confidenceOf(overruled.scores, 'compare_request').runnerUp?.confidence ?? 0) >= 0.4 ? [] : [`confidence ${overruled.confidence}`]),
+    ...(overruledQuestion?.options.map(option => option.intent).join(',') === 'compare_request,data_query' ? [] : [`options ${overruledQuestion?.options.map(option => option.intent)}`]),
+  ]);
+
+  if (question) {
+    const pick = (text: string) => chosenIntent(question, text, resolveIntents(text), extractEntities(text));
+    record('an answer picks an offered intent', [
+      ...(pick('Show a chart') === 'viz_request' ? [] : [`quick reply picked ${pick('Show a chart')}`]),
+      ...(pick('download the data!') === 'download_request' ? [] : [`typed reply picked ${pick('download the data!')}`]),
+      ...(pick('hello there') === null ? [] : ['a greeting picked an option']),
+      ...(pick('plot gas consumption in france') === null ? [] : ['a new question picked an option']),
+    ]);
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Confidence should mean what it says, and a coin flip should be asked about, not guessed');
+  return results;
+}
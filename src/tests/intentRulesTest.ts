@@ -0,0 +1,100 @@
+/**
+ * Automated Intent Rules Test
+ * Tests that declarative rule files are validated, compiled into PATTERNS and change
+ * intent detection, and that the built-in rules come back on reset
+ */
+
+import { IntentRulesError, compileCondition, installIntentRules, resetIntentRules, validateRuleSet } from '../utils/intentRules';
+import { RULE_INTENTS } from '../data/patterns';
+import builtInRules from '../data/intentRules.json';
+import { detectIntent, resolveIntents } from '../utils/intentDetection';
+import { getIntentModel, setIntentModel } from '../utils/intentClassifier';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+export async function runIntentRulesTests(): Promise<TestResults> {
+  console.log('🚀 Intent Rules Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const rejected = (value: unknown): string[] => {
+    try {
+      validateRuleSet(value);
+      return [];
+    } catch (error) {
+      return error instanceof IntentRulesError ? error.problems : [String(error)];
+    }
+  };
+
+  const problems = rejected({
+    version: 1,
+    rules: [
+      { id: 'typo', intent: 'viz_requests', weight: 2, when: { terms: ['heatmap'] } },
+      { intent: 'help', weight: 'high', when: { regex: '(unclosed' } },
+      { intent: 'help', weight: 1, when: { all: [{ lexicon: 'weather' }, { frobnicate: true }] } },
+    ],
+  });
+  record('invalid rules are rejected with every problem', [
+    'rule "typo": intent is not one of',
+    'rules[1]: weight is not a number',
+    'rules[1].when.regex does not compile',
+    'rules[2].when.all[0].lexicon is not one of',
+    'rules[2].when.all[1] has none of',
+  ].filter(expected => !problems.some(problem => problem.startsWith(expected))).map(expected => `missing "${expected}"`));
+
+  record('a stateful regex flag is rejected', rejected({ version: 1, rules: [{ intent: 'help', weight: 1, when: { regex: 'x', flags: 'g' } }] }).length === 1 ? [] : ['accepted flag g']);
+  const inherited = rejected({ version: 1, rules: [
+    { intent: 'toString', weight: 1, when: { terms: ['x'] } },
+    { intent: 'help', weight: 1, when: { lexicon: 'constructor' } },
+    { intent: '__proto__', weight: 1, when: { lexicon: 'hasOwnProperty' } },
+  ] });
+  record('object prototype names are not intents or lexicons', inherited.length === 4 ? [] : [`${inherited.length} problems: ${inherited.join('; ')}`]);
+  record('a rule file from a newer version is rejected', rejected({ version: 2, rules: [] }).length === 1 ? [] : ['accepted version 2']);
+
+  const ids = builtInRules.rules.map(rule => rule.id);
+  record('the built-in rule file is valid and covers every intent', [
+    ...rejected(builtInRules),
+    ...ids.filter((id, index) => ids.indexOf(id) !== index).map(id => `duplicate id ${id}`),
+    ...RULE_INTENTS.filter(intent => !builtInRules.rules.some(rule => rule.intent === intent)).map(intent => `no rule for ${intent}`),
+  ]);
+
+  const cooccurrence = compileCondition({ all: [{ lexicon: 'energy' }, { terms: ['line chart'] }] });
+  const guarded = compileCondition({ all: [{ terms: ['map'] }, { not: { terms: ['road map'] } }] });
+  record('conditions compile', [
+    ...(cooccurrence('gas line   chart for spain') && !cooccurrence('a line chart of visitors') ? [] : ['co-occurrence']),
+    ...(guarded('map of gas prices') && !guarded('the road map for 2030') ? [] : ['not']),
+    ...(compileCondition({ endsWith: '?' })('gas prices?') ? [] : ['endsWith']),
+  ]);
+
+  const before = detectIntent('lorem ipsum dolor');
+  // Rule scores only: the classifier would add its share to them
+  const model = getIntentModel();
+  setIntentModel(null);
+  try {
+    const installed = installIntentRules(validateRuleSet({
+      version: 1,
+      rules: [
+        { id: 'lorem', intent: 'smalltalk', weight: 3, when: { terms: ['lorem ipsum'] }, unless: { terms: ['sit amet'] } },
+      ],
+    }));
+    record('an installed rule changes detection', [
+      ...(installed === 1 ? [] : [`installed ${installed}`]),
+      ...(detectIntent('lorem ipsum dolor') === 'smalltalk' ? [] : [`detected ${detectIntent('lorem ipsum dolor')}`]),
+      ...(resolveIntents('lorem ipsum dolor sit amet').scores.smalltalk === 0 ? [] : ['guard did not hold']),
+    ]);
+
+    installIntentRules(validateRuleSet({ version: 1, mode: 'replace', rules: [{ intent: 'thanks', weight: 0.5, when: { terms: ['thanks'] } }] }));
+    record('replace mode drops the built-in rules of an intent', resolveIntents('thanks a lot').scores.thanks === 0.5 ? [] : [`thanks scored ${resolveIntents('thanks a lot').scores.thanks}`]);
+  } finally {
+    resetIntentRules();
+    setIntentModel(model);
+  }
+
+  record('reset restores the built-in rules', detectIntent('lorem ipsum dolor') === before && detectIntent('thanks a lot') === 'thanks' ? [] : ['rules still installed']);
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Rule files should tune intents without a code change, and bad ones should say what is wrong');
+  return results;
+}
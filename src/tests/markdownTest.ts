@@ -0,0 +1,91 @@
+/**
+ * Automated Markdown Test
+ * Tests the bot-message Markdown subset and that unsafe input stays plain text
+ */
+
+import { parseMarkdown } from '../utils/markdown';
+import type { BlockNode, InlineNode } from '../utils/markdown';
+import type { TestResults } from './testHarness';
+
+interface MarkdownCase {
+  input: string;
+  expected: string;
+}
+
+// Compact tag notation of the parsed tree, e.g. <p>a <b>b</b></p>
+function inline(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': return node.text;
+      case 'strong': return `<b>${inline(node.children)}</b>`;
+      case 'em': return `<i>${inline(node.children)}</i>`;
+      case 'code': return `<code>${node.text}</code>`;
+      case 'break': return '<br>';
+      case 'link': return `<a ${node.href}>${inline(node.children)}</a>`;
+    }
+  }).join('');
+}
+
+function serialize(blocks: BlockNode[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph': return `<p>${inline(block.children)}</p>`;
+      case 'heading': return `<h>${inline(block.children)}</h>`;
+      case 'list': return `<${block.ordered ? 'ol' : 'ul'}>${block.items.map(item => `<li>${inline(item)}</li>`).join('')}</${block.ordered ? 'ol' : 'ul'}>`;
+      case 'table': return `<table>${[block.header, ...block.rows].map(row => `<tr>${row.map(cell => `<td>${inline(cell)}</td>`).join('')}</tr>`).join('')}</table>`;
+    }
+  }).join('');
+}
+
+const markdownTestCases: MarkdownCase[] = [
+  // === INLINE ===
+  { input: '**Energy Data Comparison Analysis**', expected: '<p><b>Energy Data Comparison Analysis</b></p>' },
+  { input: 'values are *provisional* here', expected: '<p>values are <i>provisional</i> here</p>' },
+  { input: 'dataset `nrg_bal_c` and nrg_ind_ren', expected: '<p>dataset <code>nrg_bal_c</code> and nrg_ind_ren</p>' },
+  { input: '`**not bold**`', expected: '<p><code>**not bold**</code></p>' },
+  { input: '2 * 3 * 4', expected: '<p>2 * 3 * 4</p>' },
+  { input: 'see [Eurostat](https://ec.europa.eu/eurostat)', expected: '<p>see <a https://ec.europa.eu/eurostat>Eurostat</a></p>' },
+  { input: 'go to https://ec.europa.eu/eurostat.', expected: '<p>go to <a https://ec.europa.eu/eurostat>https://ec.europa.eu/eurostat</a>.</p>' },
+
+  // === BLOCKS ===
+  { input: 'Line one\nLine two', expected: '<p>Line one<br>Line two</p>' },
+  { input: 'Options:\n• **Geographic**: countries\n• Temporal', expected: '<p>Options:</p><ul><li><b>Geographic</b>: countries</li><li>Temporal</li></ul>' },
+  { input: '1. first\n2. second', expected: '<ol><li>first</li><li>second</li></ol>' },
+  { input: '## Results', expected: '<h>Results</h>' },
+  { input: '| Country | Value |\n|---|---:|\n| DE | **1** |', expected: '<table><tr><td>Country</td><td>Value</td></tr><tr><td>DE</td><td><b>1</b></td></tr></table>' },
+
+  // === SAFETY ===
+  { input: '<img src=x onerror=alert(1)>', expected: '<p><img src=x onerror=alert(1)></p>' },
+  { input: '[click](javascript:alert(1))', expected: '<p>click</p>' },
+  { input: '[data](data:text/html;base64,AAAA)', expected: '<p>data</p>' },
+];
+
+export async function runMarkdownTests(): Promise<TestResults> {
+  console.log('🚀 Markdown Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of markdownTestCases) {
+    try {
+      const result = serialize(parseMarkdown(testCase.input));
+      if (result === testCase.expected) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL "${testCase.input}"`);
+        console.log(`  └─ Got:      ${result}`);
+        console.log(`  └─ Expected: ${testCase.expected}`);
+      }
+    } catch (error) {
+      console.error(`❌ ERROR testing "${testCase.input}":`, error);
+      failed++;
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Markup should render as elements, everything else as plain text');
+  return { passed, failed };
+}
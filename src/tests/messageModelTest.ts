@@ -0,0 +1,76 @@
+/**
+ * Automated Message Model Test
+ * Tests reply/turn linkage and the edit, retry, regenerate and delete operations on a message list
+ */
+
+import {
+  createBotReply,
+  createFailedReply,
+  createUserMessage,
+  editMessageText,
+  messagesBefore,
+  removeMessage,
+  replaceReplies,
+  repliesTo,
+  supersedeReply,
+} from '../utils/messageModel';
+import type { ChatMessage } from '../utils/messageModel';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+export async function runMessageModelTests(): Promise<TestResults> {
+  console.log('🚀 Message Model Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  const texts = (messages: ChatMessage[]) => messages.map(msg => msg.text).join(' | ');
+
+  const q1 = createUserMessage('gas prices in italy');
+  const r1 = createBotReply(q1, { text: 'Gas prices…', type: 'data' }, 'turn-1');
+  const q2 = createUserMessage('and in spain');
+  const r2 = createFailedReply(q2, 'turn-2');
+  const conversation = [q1, r1, q2, r2];
+
+  record('ids are unique', new Set(conversation.map(msg => msg.id)).size === 4 ? [] : ['repeated id']);
+  record('a reply links to its question and turn', [
+    ...(r1.parentId === q1.id ? [] : ['parentId not set']),
+    ...(r1.turnId === 'turn-1' ? [] : ['turnId not set']),
+    ...(q1.status === 'pending' && r1.status === 'delivered' && r2.status === 'failed' ? [] : ['statuses wrong']),
+  ]);
+  record('replies are found by question', repliesTo(conversation, q2.id).map(msg => msg.id).join() === r2.id ? [] : ['wrong replies']);
+  record('messages before a question', texts(messagesBefore(conversation, q2.id)) === 'gas prices in italy | Gas prices…' ? [] : [texts(messagesBefore(conversation, q2.id))]);
+
+  const retried = replaceReplies(conversation, createBotReply(q2, { text: 'Spain…', type: 'data' }));
+  record('an answer replaces the failed reply in place', texts(retried) === 'gas prices in italy | Gas prices… | and in spain | Spain…' ? [] : [texts(retried)]);
+
+  const reanswered = replaceReplies(conversation, createBotReply(q1, { text: 'New gas answer', type: 'data' }));
+  record('an earlier question is answered in place', texts(reanswered) === 'gas prices in italy | New gas answer | and in spain | Sorry, I encountered an error processing your message.' ? [] : [texts(reanswered)]);
+
+  const regenerated = supersedeReply(r1, createBotReply(q1, { text: 'Another gas answer', type: 'data' }, 'turn-3'));
+  record('a regenerated answer keeps the reply id and the earlier answer', [
+    ...(regenerated.id === r1.id && regenerated.turnId === 'turn-3' ? [] : ['id or turn not carried over']),
+    ...(regenerated.previousVersions?.map(version => version.text).join() === 'Gas prices…' ? [] : ['earlier answer not kept']),
+    ...(texts(replaceReplies(conversation, regenerated)).startsWith('gas prices in italy | Another gas answer | and in spain') ? [] : ['not answered in place']),
+  ]);
+
+  const again = supersedeReply(regenerated, createBotReply(q1, { text: 'Third gas answer', type: 'data' }));
+  const afterFailure = supersedeReply(again, createFailedReply(q1));
+  const recovered = supersedeReply(afterFailure, createBotReply(q1, { text: 'Fourth gas answer', type: 'data' }));
+  record('versions pile up oldest first, failed replies are not kept', recovered.previousVersions?.map(version => version.text).join(' | ') === 'Gas prices… | Another gas answer | Third gas answer' ? [] : [recovered.previousVersions?.map(version => version.text).join(' | ') ?? 'no versions']);
+
+  const edited = editMessageText(conversation, q1.id, 'gas prices in france');
+  const editedQuestion = edited[0];
+  record('editing changes the text and marks it', editedQuestion.text === 'gas prices in france' && editedQuestion.editedAt && editedQuestion.status === 'pending' ? [] : ['not edited']);
+
+  const { messages: afterDelete, removedIds } = removeMessage(conversation, q1.id);
+  record('deleting a question deletes its reply', texts(afterDelete) === 'and in spain | Sorry, I encountered an error processing your message.' && removedIds.length === 2 ? [] : [texts(afterDelete)]);
+
+  const { messages: afterReplyDelete } = removeMessage(conversation, r1.id);
+  record('deleting a reply keeps the question', texts(afterReplyDelete).startsWith('gas prices in italy | and in spain') ? [] : [texts(afterReplyDelete)]);
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Each message should stay linked to its turn through edits, retries, regenerations and deletes');
+  return results;
+}
@@ -0,0 +1,104 @@
+/**
+ * Automated Metadata Test
+ * Tests that definition, calculation and dataset questions reach the metadata handler
+ * and come back with the matching glossary entry or catalog dataset
+ */
+
+import { processMessage } from '../utils/messageProcessor';
+import { dialogManager } from '../utils/dialogManager';
+import { resolveResponse } from '../utils/responseResolver';
+import type { TestResults } from './testHarness';
+
+interface MetadataCase {
+  input: string;
+  /** Heading the answer should open with */
+  heading: string;
+  /** Text that must appear first in the body (calculation questions lead with the formula) */
+  leadsWith?: string;
+  /** Link that must be given as the source */
+  source?: string;
+}
+
+const metadataTestCases: MetadataCase[] = [
+  {
+    input: 'definition of gross inland consumption',
+    heading: '📖 **Gross inland consumption** (GIC)',
+    leadsWith: 'The total energy demand',
+    source: 'Glossary:Gross_inland_energy_consumption',
+  },
+  {
+    input: 'how is final energy consumption calculated',
+    heading: '📖 **Final energy consumption** (FEC)',
+    leadsWith: '**How it is calculated:**',
+  },
+  {
+    input: 'what does ktoe mean',
+    heading: '📖 **Tonne of oil equivalent** (toe)',
+    source: 'Glossary:Tonnes_of_oil_equivalent_(toe)',
+  },
+  {
+    input: 'what is energy intensity?',
+    heading: '📖 **Energy intensity**',
+  },
+  {
+    input: 'define import dependency',
+    heading: '📖 **Energy dependency rate**',
+  },
+  {
+    input: 'how is the share of renewables computed',
+    heading: '📖 **Share of energy from renewable sources**',
+    leadsWith: '**How it is calculated:**',
+  },
+  {
+    input: 'tell me about nrg_bal_c',
+    heading: '🗂️ **Complete energy balances** (nrg_bal_c)',
+    source: 'nrg_bal_esms.htm',
+  },
+  {
+    input: 'metadata for gas prices',
+    heading: '🗂️ **Gas prices for household consumers** (nrg_pc_202)',
+  },
+];
+
+export async function runMetadataTests(): Promise<TestResults> {
+  console.log('🚀 Metadata Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of metadataTestCases) {
+    try {
+      dialogManager.reset();
+      const processed = processMessage(testCase.input);
+      const outcome = dialogManager.handle(processed.resolution, processed.entities, processed.preprocessed.cleaned);
+      const problems: string[] = [];
+
+      if (outcome.kind !== 'resolve' || outcome.resolution.primary !== 'metadata_request') {
+        problems.push(`routed to ${outcome.kind === 'resolve' ? outcome.resolution.primary : 'a dialog prompt'}`);
+      } else {
+        const response = await resolveResponse(outcome.resolution, outcome.entities, processed.preprocessed.cleaned);
+        const [heading, body = ''] = response.text.split('\n\n');
+        if (heading !== testCase.heading) problems.push(`heading "${heading}"`);
+        if (testCase.leadsWith && !body.startsWith(testCase.leadsWith)) problems.push(`body starts "${body.slice(0, 40)}"`);
+        if (testCase.source && !response.text.includes(`${testCase.source})`)) problems.push(`no source link to ${testCase.source}`);
+      }
+
+      if (problems.length === 0) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL "${testCase.input}"`);
+        problems.forEach(problem => console.log(`  └─ ${problem}`));
+      }
+    } catch (error) {
+      console.error(`❌ ERROR testing "${testCase.input}":`, error);
+      failed++;
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Definitions and dataset metadata should come from the glossary and catalog');
+  return { passed, failed };
+}
@@ -0,0 +1,86 @@
+/**
+ * Automated Query Planner Test
+ * Tests the entities → Eurostat dataset/dimension mapping
+ */
+
+import { processMessage } from '../utils/messageProcessor';
+import { planQuery, toEurostatRequest } from '../utils/queryPlanner';
+import type { TestResults } from './testHarness';
+
+interface PlannerCase {
+  input: string;
+  dataset?: string;
+  filters?: Record<string, string[]>;
+  missing?: string[];
+}
+
+const plannerTestCases: PlannerCase[] = [
+  // === ENERGY BALANCES ===
+  { input: 'electricity consumption in germany in 2021', dataset: 'nrg_bal_c', filters: { nrg_bal: ['FC_E'], siec: ['E7000'], geo: ['DE'], time: ['2021'] } },
+  { input: 'electricity production in germany', dataset: 'nrg_bal_c', filters: { nrg_bal: ['GEP'], siec: ['E7000'], geo: ['DE'] } },
+  { input: 'district heating generation in denmark', dataset: 'nrg_bal_c', filters: { nrg_bal: ['GHP'], siec: ['H8000'], geo: ['DK'] } },
+  { input: 'gas production in the netherlands', dataset: 'nrg_bal_c', filters: { nrg_bal: ['PPRD'], siec: ['G3000'], geo: ['NL'] } },
+  { input: 'oil consumption of households in france and spain', dataset: 'nrg_bal_c', filters: { nrg_bal: ['FC_OTH_HH_E'], siec: ['O4000XBIO'], geo: ['FR', 'ES'] } },
+  { input: 'coal consumption in poland in gwh', dataset: 'nrg_bal_c', filters: { unit: ['GWH'], geo: ['PL'] } },
+
+  // === PRICES ===
+  { input: 'electricity prices in italy', dataset: 'nrg_pc_204', filters: { product: ['6000'], geo: ['IT'] } },
+  { input: 'natural gas prices in the eu', dataset: 'nrg_pc_202', filters: { product: ['4100'], geo: ['EU27_2020'] } },
+
+  // === INDICATORS ===
+  { input: 'share of renewables in electricity in sweden', dataset: 'nrg_ind_ren', filters: { nrg_bal: ['REN_ELC'], geo: ['SE'] } },
+  { input: 'energy consumption per capita in austria', dataset: 'nrg_ind_eff', filters: { unit: ['TOE_HAB'], geo: ['AT'] } },
+  { input: 'show nrg_ind_ren for belgium', dataset: 'nrg_ind_ren', filters: { geo: ['BE'] } },
+
+  // === MISSING SLOTS ===
+  { input: 'electricity production', dataset: 'nrg_bal_c', missing: ['geo'] },
+  { input: 'show me data for germany', missing: ['product'] },
+];
+
+export async function runQueryPlannerTests(): Promise<TestResults> {
+  console.log('🚀 Query Planner Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of plannerTestCases) {
+    try {
+      const { entities } = processMessage(testCase.input, false);
+      const plan = planQuery(entities);
+      const request = toEurostatRequest(plan);
+      const problems: string[] = [];
+
+      if (testCase.dataset && plan.dataset !== testCase.dataset) {
+        problems.push(`dataset ${plan.dataset} (expected ${testCase.dataset})`);
+      }
+      for (const [dimension, codes] of Object.entries(testCase.filters ?? {})) {
+        const actual = request?.filters[dimension] ?? [];
+        if (actual.join(',') !== codes.join(',')) {
+          problems.push(`${dimension}=[${actual.join(',')}] (expected [${codes.join(',')}])`);
+        }
+      }
+      if ((plan.missing.join(',')) !== (testCase.missing ?? []).join(',')) {
+        problems.push(`missing=[${plan.missing.join(',')}] (expected [${(testCase.missing ?? []).join(',')}])`);
+      }
+
+      if (problems.length === 0) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL "${testCase.input}"`);
+        problems.forEach(problem => console.log(`  └─ ${problem}`));
+        console.log(`  └─ Plan: ${plan.explanation.join(' | ')}`);
+      }
+
+    } catch (error) {
+      console.error(`❌ ERROR testing "${testCase.input}":`, error);
+      failed++;
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Every query should map onto the expected dataset and dimension codes');
+  return { passed, failed };
+}
@@ -0,0 +1,81 @@
+/**
+ * Automated Query Refinement Test
+ * Tests follow-ups applied to the active query, the reported changes, and that a
+ * follow-up moving the query to another dataset is noticed
+ */
+
+import { processMessage } from '../utils/messageProcessor';
+import { refineQuery, describeChanges, measureSwitch } from '../utils/queryRefinement';
+import type { TestResults } from './testHarness';
+
+interface RefinementCase {
+  base: string;
+  followUp: string;
+  changes: string;
+}
+
+const refinementTestCases: RefinementCase[] = [
+  { base: 'electricity consumption in germany in 2021', followUp: 'and for 2019?', changes: 'period: 2021 → 2019' },
+  { base: 'electricity consumption in germany in 2021', followUp: 'what about Germany?', changes: '' },
+  { base: 'electricity consumption in germany in 2021', followUp: 'what about France?', changes: 'geography: Germany → France' },
+  { base: 'electricity consumption in germany in 2021', followUp: 'also spain', changes: 'geography: Germany → Germany, Spain' },
+  { base: 'electricity consumption in germany in 2021', followUp: 'compare with spain', changes: 'geography: Germany → Germany, Spain' },
+  { base: 'energy consumption in austria', followUp: 'per capita please', changes: 'unit: default unit → per capita' },
+  { base: 'gas consumption in france', followUp: 'only households', changes: 'sector: all sectors → households' },
+  { base: 'gas consumption in france', followUp: 'how about coal in 2020?', changes: 'energy type: Gas → Coal; period: latest available → 2020' },
+];
+
+export async function runQueryRefinementTests(): Promise<TestResults> {
+  console.log('🚀 Query Refinement Tests\n');
+  console.log('=' .repeat(30));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of refinementTestCases) {
+    try {
+      const base = processMessage(testCase.base, false).entities;
+      const followUp = processMessage(testCase.followUp, false);
+      const { changes } = refineQuery(base, followUp.entities, followUp.preprocessed.cleaned);
+      const described = describeChanges(changes);
+
+      if (described === testCase.changes) {
+        passed++;
+      } else {
+        failed++;
+        console.log(`❌ FAIL "${testCase.base}" + "${testCase.followUp}"`);
+        console.log(`  └─ Got: "${described}" (expected "${testCase.changes}")`);
+      }
+
+    } catch (error) {
+      console.error(`❌ ERROR testing "${testCase.followUp}":`, error);
+      failed++;
+    }
+  }
+
+  // A follow-up must not quietly swap the indicator for another dataset's
+  const switchCases: [string, string, string | null][] = [
+    ['electricity consumption in germany in 2021', 'per capita please', 'nrg_bal_c → nrg_ind_eff'],
+    ['electricity consumption in germany in 2021', 'what about France?', null],
+    ['gas consumption in france', 'how about coal in 2020?', null],
+  ];
+  for (const [baseText, followUpText, expected] of switchCases) {
+    const base = processMessage(baseText, false).entities;
+    const followUp = processMessage(followUpText, false);
+    const { entities, changes } = refineQuery(base, followUp.entities, followUp.preprocessed.cleaned);
+    const switched = measureSwitch(base, entities, changes);
+    const described = switched ? `${switched.from.dataset} → ${switched.to.dataset}` : null;
+    if (described === expected) {
+      passed++;
+    } else {
+      failed++;
+      console.log(`❌ FAIL switch "${baseText}" + "${followUpText}"`);
+      console.log(`  └─ Got: ${described} (expected ${expected})`);
+    }
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${passed} passed, ${failed} failed`);
+  console.log('🎯 Follow-ups should change only the slots they mention');
+  return { passed, failed };
+}
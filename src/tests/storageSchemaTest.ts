@@ -0,0 +1,151 @@
+/**
+ * Automated Storage Schema Test
+ * Tests that stored chat records of every schema version migrate to the current one
+ * and that unreadable records are rejected with the problems found
+ */
+
+import { SCHEMA_VERSION, StorageSchemaError, fromStoredMessage, migrateIndex, migrateSession, toStoredMessage } from '../utils/storageSchema';
+import { createRecorder } from './testHarness';
+import type { TestResults } from './testHarness';
+
+interface MigrationCase {
+  name: string;
+  record: unknown;
+  /** Version the record should be detected as; omitted when it must be rejected */
+  from?: number;
+  /** Problem substrings the rejection should mention */
+  problems?: string[];
+}
+
+const validMessage = { id: 'm1', text: 'gas prices in italy', sender: 'user', timestamp: '2024-03-01T10:00:00.000Z', status: 'delivered' };
+
+const sessionTestCases: MigrationCase[] = [
+  {
+    name: 'unversioned single chat history (v0)',
+    record: { messages: [{ text: 'Hello', sender: 'bot', timestamp: '2024-01-01T09:00:00Z' }, validMessage], messageHistory: ['gas prices in italy'], lastUpdated: '2024-01-01T10:00:00Z' },
+    from: 0,
+  },
+  {
+    name: 'unversioned session with Date timestamps (v1)',
+    record: { id: 'a', title: 'Prices', createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ ...validMessage, timestamp: new Date('2024-02-01') }], messageHistory: [] },
+    from: 1,
+  },
+  {
+    name: 'session without message ids (v2)',
+    record: { schemaVersion: 2, id: 'e', title: 'Prices', autoTitle: true, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ text: 'hi', sender: 'bot', timestamp: '2024-02-01T00:00:00Z' }, { text: 'hi', sender: 'user', timestamp: '2024-02-01T00:00:00Z' }], messageHistory: [], context: null },
+    from: 2,
+  },
+  {
+    name: 'session without message statuses (v3)',
+    record: { schemaVersion: 3, id: 'f', title: 'Prices', autoTitle: true, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ id: 'm1', text: 'hi', sender: 'user', timestamp: '2024-02-01T00:00:00Z' }], messageHistory: [], context: null },
+    from: 3,
+  },
+  {
+    name: 'current session',
+    record: { schemaVersion: SCHEMA_VERSION, id: 'b', title: 'Prices', autoTitle: false, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [validMessage], messageHistory: ['gas'], context: null },
+    from: SCHEMA_VERSION,
+  },
+  {
+    name: 'record from a newer app version',
+    record: { schemaVersion: SCHEMA_VERSION + 1, id: 'c' },
+    problems: [],
+  },
+  {
+    name: 'malformed messages',
+    record: { schemaVersion: SCHEMA_VERSION, id: 'd', title: 'Broken', autoTitle: true, createdAt: 'x', lastUpdated: 'y', messages: [{ text: 42, sender: 'robot', timestamp: 'yesterday', status: 'sent' }], messageHistory: [], context: null },
+    problems: ['id is not a non-empty string', 'text is not a string', 'sender is neither', 'timestamp is not an ISO date', 'status is not one of'],
+  },
+  {
+    name: 'unsafe actions and malformed content',
+    record: { schemaVersion: SCHEMA_VERSION, id: 'i', title: 'Prices', autoTitle: false, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ ...validMessage, sender: 'bot', metadata: { actions: [{ type: 'link', label: 'Open', url: 'javascript:alert(1)' }], content: [{ kind: 'table', caption: 'Prices', rows: [] }] } }], messageHistory: [], context: null },
+    problems: ['metadata actions[0] url is not an https, mailto or file URL', 'metadata content[0] columns is not a list'],
+  },
+  {
+    name: 'download built from its selection',
+    record: { schemaVersion: SCHEMA_VERSION, id: 'j', title: 'Prices', autoTitle: false, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ ...validMessage, sender: 'bot', metadata: { actions: [{ type: 'download', label: 'Download CSV', url: 'https://ec.europa.eu/eurostat/api/dissemination/statistics/1.0/data/nrg_pc_202?geo=IT', filename: 'nrg_pc_202.csv', export: { request: { dataset: 'nrg_pc_202', filters: { geo: ['IT'] } }, format: 'csv' } }] } }], messageHistory: [], context: null },
+    from: SCHEMA_VERSION,
+  },
+  {
+    name: 'malformed download selection',
+    record: { schemaVersion: SCHEMA_VERSION, id: 'k', title: 'Prices', autoTitle: false, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ ...validMessage, sender: 'bot', metadata: { actions: [{ type: 'download', label: 'Download', url: 'https://ec.europa.eu/', export: { request: { dataset: 'nrg_pc_202', filters: { geo: 'IT' } }, format: 'pdf' } }] } }], messageHistory: [], context: null },
+    problems: ['actions[0] export format is not an export format', 'actions[0] export request filters are not lists of codes'],
+  },
+  {
+    name: 'not an object',
+    record: '{"messages": [',
+    problems: [],
+  },
+];
+
+export async function runStorageSchemaTests(): Promise<TestResults> {
+  console.log('🚀 Storage Schema Tests\n');
+  console.log('=' .repeat(30));
+
+  const { results, record } = createRecorder();
+
+  for (const testCase of sessionTestCases) {
+    const problems: string[] = [];
+    try {
+      const { record: migrated, from } = migrateSession(testCase.record);
+      if (testCase.from === undefined) problems.push('accepted a record that should be quarantined');
+      else if (from !== testCase.from) problems.push(`detected as v${from}`);
+      if (migrated.schemaVersion !== SCHEMA_VERSION) problems.push(`migrated to v${migrated.schemaVersion}`);
+      if (migrated.messages.some(msg => typeof msg.timestamp !== 'string')) problems.push('timestamps not stored as strings');
+      if (new Set(migrated.messages.map(msg => msg.id)).size !== migrated.messages.length) problems.push('message ids missing or repeated');
+      if (migrated.messages.some(msg => msg.status !== 'delivered')) problems.push('stored messages not marked delivered');
+    } catch (error) {
+      if (!(error instanceof StorageSchemaError) || testCase.problems === undefined) {
+        problems.push(`rejected: ${error instanceof Error ? error.message : String(error)}`);
+      } else {
+        testCase.problems
+          .filter(expected => !error.problems.some(problem => problem.includes(expected)))
+          .forEach(expected => problems.push(`missing problem "${expected}"`));
+      }
+    }
+    record(testCase.name, problems);
+  }
+
+  // The v0 import takes its title from the first question
+  const legacy = migrateSession(sessionTestCases[0].record).record;
+  record('legacy history is titled from its first question', legacy.title === 'gas prices in italy' && legacy.autoTitle ? [] : [`titled "${legacy.title}"`]);
+
+  // Earlier answers of a regenerated reply are stored with the reply
+  const versioned = { ...validMessage, sender: 'bot', previousVersions: [{ text: 'first answer', timestamp: '2024-03-01T09:00:00.000Z', turnId: 't1' }] };
+  try {
+    const { record: session } = migrateSession({ schemaVersion: SCHEMA_VERSION, id: 'g', title: 'Prices', autoTitle: false, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [versioned], messageHistory: [], context: null });
+    const restored = fromStoredMessage(session.messages[0]);
+    const version = restored.previousVersions?.[0];
+    record('earlier answers round-trip through storage', [
+      ...(version?.text === 'first answer' && version.timestamp instanceof Date ? [] : ['version not restored']),
+      ...(JSON.stringify(toStoredMessage(restored).previousVersions) === JSON.stringify(versioned.previousVersions) ? [] : ['stored form changed']),
+    ]);
+  } catch (error) {
+    record('earlier answers round-trip through storage', [`rejected: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  try {
+    migrateSession({ schemaVersion: SCHEMA_VERSION, id: 'h', title: 'Prices', autoTitle: false, createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z', messages: [{ ...versioned, previousVersions: [{ text: 1 }] }], messageHistory: [], context: null });
+    record('malformed earlier answers', ['accepted a malformed version']);
+  } catch (error) {
+    record('malformed earlier answers', error instanceof StorageSchemaError ? [] : [String(error)]);
+  }
+
+  try {
+    const { record: index, from } = migrateIndex({ activeId: 'a', sessions: [{ id: 'a', title: 'Prices', createdAt: '2024-02-01T00:00:00Z', lastUpdated: '2024-02-01T00:00:00Z' }] });
+    record('unversioned session index (v1)', from === 1 && index.sessions[0].messageCount === 0 ? [] : [`v${from}, ${index.sessions[0].messageCount} messages`]);
+  } catch (error) {
+    record('unversioned session index (v1)', [`rejected: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  try {
+    migrateIndex({ activeId: 3, sessions: 'none' });
+    record('malformed session index', ['accepted a malformed index']);
+  } catch (error) {
+    record('malformed session index', error instanceof StorageSchemaError && error.problems.length === 2 ? [] : [String(error)]);
+  }
+
+  console.log('=' .repeat(30));
+  console.log(`📊 Results: ${results.passed} passed, ${results.failed} failed`);
+  console.log('🎯 Old records should migrate and unreadable ones should be quarantined, not loaded');
+  return results;
+}
@@ -0,0 +1,46 @@
+/**
+ * Test Harness
+ * What the automated test suites share: tallying checks and printing failures the same way,
+ * and intent scores and resolutions to feed the code under test. Every run*Tests() returns
+ * its tally, so `npm test` (tools/run-tests.mts) can fail when a check does.
+ */
+
+import { INTENTS } from '../utils/intentDetection';
+import type { Intent, Resolution, Scores } from '../utils/intentDetection';
+
+export interface TestResults {
+  passed: number;
+  failed: number;
+}
+
+/**
+ * A tally and the function that records one named check into it; a check passes when it
+ * found no problems, otherwise each problem is printed under its name
+ */
+export function createRecorder(): { results: TestResults; record: (name: string, problems: string[]) => void } {
+  const results: TestResults = { passed: 0, failed: 0 };
+  const record = (name: string, problems: string[]) => {
+    if (problems.length === 0) {
+      results.passed++;
+    } else {
+      results.failed++;
+      console.log(`❌ FAIL ${name}`);
+      problems.forEach(problem => console.log(`  └─ ${problem}`));
+    }
+  };
+  return { results, record };
+}
+
+/**
+ * Scores with every intent at 0 except the ones given
+ */
+export function scoresOf(values: Partial<Scores>): Scores {
+  return { ...Object.fromEntries(INTENTS.map(intent => [intent, 0])) as Scores, ...values };
+}
+
+/**
+ * A resolution with the given scores and no co-intents or modifiers
+ */
+export function resolutionWith(primary: Intent, values: Partial<Scores>): Resolution {
+  return { primary, coIntents: [], modifiers: [], scores: scoresOf(values) };
+}
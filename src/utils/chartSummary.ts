@@ -0,0 +1,92 @@
+// utils/chartSummary.ts
+// Plain-language description of a chart's data: the text alternative read out instead of
+// the SVG and shown under it. Describes trends for time series and the ranking for bars.
+
+import { formatValue } from './richContent';
+import type { BarChartContent, ChartPoint, TimeSeriesContent } from './richContent';
+
+// Relative changes below this are described as stable
+const FLAT_THRESHOLD = 0.01;
+// Series described one by one; the rest are only counted
+const MAX_DESCRIBED_SERIES = 3;
+
+export function summarizeChart(chart: TimeSeriesContent | BarChartContent): string {
+  return chart.kind === 'timeseries' ? summarizeTimeSeries(chart) : summarizeBars(chart);
+}
+
+function summarizeTimeSeries(chart: TimeSeriesContent): string {
+  const series = chart.series.filter(s => s.points.length > 0);
+  if (series.length === 0) return `${chart.title}: no values to show.`;
+
+  const sentences = series.slice(0, MAX_DESCRIBED_SERIES).map(({ name, points }) => describeTrend(name, points));
+  if (series.length > MAX_DESCRIBED_SERIES) {
+    sentences.push(`${series.length - MAX_DESCRIBED_SERIES} more series are in the table.`);
+  }
+
+  // Who leads in the most recent period all series share
+  if (series.length > 1) {
+    const shared = series
+      .map(s => new Set(s.points.map(p => p.label)))
+      .reduce((common, labels) => new Set([...common].filter(label => labels.has(label))));
+    const latest = [...shared].sort().pop();
+    if (latest) {
+      const ranked = series
+        .map(s => ({ name: s.name, value: s.points.find(p => p.label === latest)!.value }))
+        .sort((a, b) => b.value - a.value);
+      const top = ranked[0];
+      const bottom = ranked[ranked.length - 1];
+      sentences.push(`In ${latest}, ${top.name} had the highest value (${formatValue(top.value)}) and ${bottom.name} the lowest (${formatValue(bottom.value)}).`);
+    }
+  }
+
+  return `${sentences.join(' ')} Values in ${chart.unit}.`;
+}
+
+function describeTrend(name: string, points: ChartPoint[]): string {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (points.length === 1) {
+    return `${name}: ${formatValue(first.value)} in ${first.label}.`;
+  }
+
+  const change = first.value === 0 ? 0 : (last.value - first.value) / Math.abs(first.value);
+  const direction = Math.abs(change) < FLAT_THRESHOLD ? 'stayed roughly stable' : change > 0 ? 'rose' : 'fell';
+  const percent = Math.abs(change) < FLAT_THRESHOLD || first.value === 0
+    ? ''
+    : ` (${change > 0 ? '+' : '−'}${Math.abs(change * 100).toFixed(1)}%)`;
+
+  let sentence = `${name} ${direction} from ${formatValue(first.value)} in ${first.label} to ${formatValue(last.value)} in ${last.label}${percent}`;
+
+  // Mention a peak or low that lies strictly inside the period
+  const peak = points.reduce((best, p) => (p.value > best.value ? p : best));
+  const low = points.reduce((best, p) => (p.value < best.value ? p : best));
+  if (peak !== first && peak !== last) sentence += `, peaking at ${formatValue(peak.value)} in ${peak.label}`;
+  else if (low !== first && low !== last) sentence += `, with a low of ${formatValue(low.value)} in ${low.label}`;
+
+  return `${sentence}.`;
+}
+
+function summarizeBars(chart: BarChartContent): string {
+  if (chart.bars.length === 0) return `${chart.title}: no values to show.`;
+
+  const ranked = [...chart.bars].sort((a, b) => b.value - a.value);
+  const top = ranked[0];
+  const bottom = ranked[ranked.length - 1];
+
+  if (ranked.length === 1) {
+    return `${top.label}: ${formatValue(top.value)} ${chart.unit}.`;
+  }
+
+  const sentences = [
+    `${top.label} has the highest value (${formatValue(top.value)}) and ${bottom.label} the lowest (${formatValue(bottom.value)}).`,
+  ];
+  if (bottom.value > 0) {
+    sentences.push(`The highest is ${(top.value / bottom.value).toFixed(1)} times the lowest.`);
+  }
+  if (ranked.length > 2) {
+    sentences.push(`Order from highest to lowest: ${ranked.map(bar => bar.label).join(', ')}.`);
+  }
+
+  return `${sentences.join(' ')} Values in ${chart.unit}.`;
+}
@@ -1,25 +1,72 @@
 import localforage from 'localforage';
+import type { ConversationSnapshot } from '../state/conversationContext';
+import type { QueryFrame } from './dialogManager';
+import chatSync from './chatSync';
+import type { ChatMessage } from './messageModel';
+import {
+  SCHEMA_VERSION,
+  StorageSchemaError,
+  fromStoredMessage,
+  migrateIndex,
+  migrateSession,
+  titleFrom,
+  toStoredMessage,
+  type SessionSummary,
+  type StoredIndex,
+  type StoredSession,
+} from './storageSchema';
 
-interface Message {
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: Date;
-  metadata?: {
-    actions?: Array<{
-      type: 'mailto' | 'link' | 'button';
-      label: string;
-      url: string;
-    }>;
-  };
-}
+export type { SessionSummary } from './storageSchema';
 
 interface ChatHistory {
-  messages: Message[];
+  messages: ChatMessage[];
   messageHistory: string[];
   lastUpdated: string;
 }
 
-// Configure localforage
+/** Query context of a conversation: what follow-ups refer to and any half-asked question */
+export interface SessionContext {
+  conversation: ConversationSnapshot;
+  frame: QueryFrame | null;
+  /** The context as it stood before the latest question, so that question can be answered again */
+  beforeLatest?: TurnContext;
+}
+
+export interface TurnContext {
+  /** The user message answered from this context */
+  questionId: string;
+  conversation: ConversationSnapshot;
+  frame: QueryFrame | null;
+}
+
+export interface ChatSession extends ChatHistory {
+  id: string;
+  title: string;
+  /** Title still follows the first question; false once the user renames the conversation */
+  autoTitle: boolean;
+  createdAt: string;
+  context: SessionContext | null;
+  /** When the conversation was last cleared; older messages from other tabs are not merged back */
+  clearedAt?: string;
+  /** Messages deleted one by one, kept so other tabs' copies do not bring them back */
+  deletedMessageIds?: string[];
+}
+
+type SessionIndex = Omit<StoredIndex, 'schemaVersion'>;
+
+/** A stored record that could not be migrated or validated, kept aside instead of loaded */
+export interface QuarantinedRecord {
+  /** Storage key the record was read from */
+  key: string;
+  reason: string;
+  problems: string[];
+  quarantinedAt: string;
+  /** The record as it was stored; undefined when it could not be read at all */
+  record: unknown;
+}
+
+// Configure localforage. `version` is the IndexedDB database version, not the record
+// schema: records carry their own schemaVersion (see storageSchema.ts)
 localforage.config({
   name: 'EurostatChatbot',
   version: 1.0,
@@ -27,51 +74,228 @@ localforage.config({
   description: 'Persistent chat history for Eurostat Energy Chatbot'
 });
 
+// Single-conversation key of earlier versions, imported as the first session
 const CHAT_HISTORY_KEY = 'chatHistory';
+const SESSION_INDEX_KEY = 'sessionIndex';
+const SESSION_KEY_PREFIX = 'session:';
+const QUARANTINE_KEY_PREFIX = 'quarantine:';
+
+const DEFAULT_TITLE = 'New conversation';
 
 export class ChatStorage {
+  // Concurrent first loads (StrictMode mounts effects twice) share one promise, so a first
+  // run creates or imports a single conversation
+  private static activeLoad: Promise<ChatSession> | null = null;
+  private static indexLoad: Promise<SessionIndex> | null = null;
+
   /**
-   * Save chat history to browser storage
+   * List conversations, most recently updated first
    */
-  static async saveChatHistory(
-    messages: Message[],
-    messageHistory: string[]
-  ): Promise<void> {
+  static async listSessions(): Promise<SessionSummary[]> {
+    const index = await ChatStorage.loadIndex();
+    return [...index.sessions].sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+  }
+
+  static async getActiveSessionId(): Promise<string | null> {
+    return (await ChatStorage.loadIndex()).activeId;
+  }
+
+  /**
+   * Load the active conversation, creating one when there is none yet
+   */
+  static loadActiveSession(): Promise<ChatSession> {
+    ChatStorage.activeLoad ??= (async () => {
+      const index = await ChatStorage.loadIndex();
+      const active = index.activeId ? await ChatStorage.loadSession(index.activeId) : null;
+      return active ?? ChatStorage.createSession();
+    })().finally(() => {
+      ChatStorage.activeLoad = null;
+    });
+    return ChatStorage.activeLoad;
+  }
+
+  /**
+   * Load one conversation, migrated to the current schema and with timestamps turned back
+   * into Date objects. A conversation that cannot be read is quarantined and left out of the list.
+   */
+  static async loadSession(id: string): Promise<ChatSession | null> {
+    const session = await ChatStorage.readSession(id);
+    if (!session) await ChatStorage.dropFromIndex(id);
+    return session;
+  }
+
+  /**
+   * Start an empty conversation and make it the active one
+   */
+  static async createSession(title?: string): Promise<ChatSession> {
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      id: createSessionId(),
+      title: title?.trim() || DEFAULT_TITLE,
+      autoTitle: !title?.trim(),
+      createdAt: now,
+      lastUpdated: now,
+      messages: [],
+      messageHistory: [],
+      context: null,
+    };
+
+    await ChatStorage.writeSession(session, true);
+    return session;
+  }
+
+  /**
+   * Make another conversation the active one and return it
+   */
+  static async switchSession(id: string): Promise<ChatSession | null> {
+    const session = await ChatStorage.loadSession(id);
+    if (!session) return null;
+
+    await ChatStorage.updateIndex({ activeId: id });
+    return session;
+  }
+
+  /**
+   * Save messages, input history and query context into a conversation. Messages another
+   * tab stored in the meantime are merged in by id rather than overwritten; the conversation
+   * as saved is returned.
+   */
+  static async saveSession(
+    id: string,
+    messages: ChatMessage[],
+    messageHistory: string[],
+    context: SessionContext | null
+  ): Promise<ChatSession | null> {
     try {
-      const chatHistory: ChatHistory = {
-        messages,
+      const session = await ChatStorage.loadSession(id);
+      if (!session) return null;
+
+      const merged = mergeMessages(session.messages, messages, session.clearedAt, session.deletedMessageIds);
+      const firstQuestion = merged.find(msg => msg.sender === 'user')?.text;
+      const saved: ChatSession = {
+        ...session,
+        title: session.autoTitle && firstQuestion ? titleFrom(firstQuestion) : session.title,
+        messages: merged,
         messageHistory,
+        context,
         lastUpdated: new Date().toISOString(),
       };
-
-      await localforage.setItem(CHAT_HISTORY_KEY, chatHistory);
-      console.log('Chat history saved successfully');
+      await ChatStorage.writeSession(saved, false);
+      return saved;
     } catch (error) {
-      console.error('Failed to save chat history:', error);
+      console.error('Failed to save chat session:', error);
+      return null;
     }
   }
 
   /**
-   * Load chat history from browser storage
+   * Delete individual messages from a conversation and remember them as deleted
    */
-  static async loadChatHistory(): Promise<ChatHistory | null> {
+  static async deleteMessages(id: string, messageIds: string[]): Promise<ChatSession | null> {
     try {
-      const chatHistory = await localforage.getItem<ChatHistory>(CHAT_HISTORY_KEY);
-
-      if (chatHistory) {
-        // Convert timestamp strings back to Date objects
-        const processedMessages = chatHistory.messages.map(msg => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-
-        return {
-          ...chatHistory,
-          messages: processedMessages
-        };
-      }
+      const session = await ChatStorage.loadSession(id);
+      if (!session) return null;
 
+      const removed = new Set(messageIds);
+      const saved: ChatSession = {
+        ...session,
+        messages: session.messages.filter(msg => !removed.has(msg.id)),
+        deletedMessageIds: [...new Set([...(session.deletedMessageIds ?? []), ...messageIds])],
+        lastUpdated: new Date().toISOString(),
+      };
+      await ChatStorage.writeSession(saved, false);
+      return saved;
+    } catch (error) {
+      console.error('Failed to delete messages:', error);
       return null;
+    }
+  }
+
+  static async renameSession(id: string, title: string): Promise<void> {
+    const session = await ChatStorage.loadSession(id);
+    if (!session || !title.trim()) return;
+    await ChatStorage.writeSession({ ...session, title: title.trim(), autoTitle: false }, false);
+  }
+
+  /**
+   * Copy a conversation, messages and context included, and make the copy active
+   */
+  static async duplicateSession(id: string): Promise<ChatSession | null> {
+    const session = await ChatStorage.loadSession(id);
+    if (!session) return null;
+
+    const now = new Date().toISOString();
+    const copy: ChatSession = {
+      ...session,
+      id: createSessionId(),
+      title: `${session.title} (copy)`,
+      autoTitle: false,
+      createdAt: now,
+      lastUpdated: now,
+    };
+
+    await ChatStorage.writeSession(copy, true);
+    return copy;
+  }
+
+  /**
+   * Store an imported conversation (see conversationExport.ts) as a new, active session.
+   * It gets a fresh id so importing the same file twice never overwrites a conversation.
+   */
+  static async importSession(record: StoredSession): Promise<ChatSession> {
+    const session: ChatSession = {
+      ...fromStored(record),
+      id: createSessionId(),
+      autoTitle: false,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    await ChatStorage.writeSession(session, true);
+    return session;
+  }
+
+  /**
+   * Delete a conversation. Deleting the active one switches to the most recent other
+   * conversation, or a new empty one; the conversation that is active afterwards is returned.
+   */
+  static async deleteSession(id: string): Promise<ChatSession> {
+    const index = await ChatStorage.loadIndex();
+    const keepActive = index.activeId !== id ? index.activeId : null;
+
+    try {
+      await localforage.removeItem(SESSION_KEY_PREFIX + id);
+      await ChatStorage.updateIndex({ remove: id });
+      chatSync.publish({ type: 'session-deleted', sessionId: id });
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+    }
+
+    const active = keepActive ? await ChatStorage.loadSession(keepActive) : null;
+    if (active) return active;
+
+    const [next] = await ChatStorage.listSessions();
+    return (next ? await ChatStorage.switchSession(next.id) : null) ?? ChatStorage.createSession();
+  }
+
+  /**
+   * Save chat history into the active conversation
+   */
+  static async saveChatHistory(
+    messages: ChatMessage[],
+    messageHistory: string[],
+    context: SessionContext | null = null
+  ): Promise<void> {
+    const session = await ChatStorage.loadActiveSession();
+    await ChatStorage.saveSession(session.id, messages, messageHistory, context);
+  }
+
+  /**
+   * Load the active conversation's chat history
+   */
+  static async loadChatHistory(): Promise<ChatHistory | null> {
+    try {
+      const session = await ChatStorage.loadActiveSession();
+      return session.messages.length > 0 ? session : null;
     } catch (error) {
       console.error('Failed to load chat history:', error);
       return null;
@@ -79,29 +303,278 @@ export class ChatStorage {
   }
 
   /**
-   * Clear chat history from browser storage
+   * Empty a conversation, the active one by default; the conversation itself and the others
+   * are kept
+   */
+  static async clearChatHistory(id?: string): Promise<void> {
+    const session = (id ? await ChatStorage.loadSession(id) : null) ?? await ChatStorage.loadActiveSession();
+    await ChatStorage.writeSession({
+      ...session,
+      messages: [],
+      messageHistory: [],
+      context: null,
+      clearedAt: new Date().toISOString(),
+      deletedMessageIds: [],
+      lastUpdated: new Date().toISOString(),
+    }, false);
+    console.log('Chat history cleared successfully');
+  }
+
+  /**
+   * Check if any conversation has messages
    */
-  static async clearChatHistory(): Promise<void> {
+  static async hasChatHistory(): Promise<boolean> {
+    const sessions = await ChatStorage.listSessions();
+    return sessions.some(s => s.messageCount > 0);
+  }
+
+  /**
+   * Records set aside because they could not be migrated or validated, oldest first
+   */
+  static async listQuarantined(): Promise<QuarantinedRecord[]> {
     try {
-      await localforage.removeItem(CHAT_HISTORY_KEY);
-      console.log('Chat history cleared successfully');
+      const keys = (await localforage.keys()).filter(key => key.startsWith(QUARANTINE_KEY_PREFIX)).sort();
+      const records = await Promise.all(keys.map(key => localforage.getItem<QuarantinedRecord>(key)));
+      return records.filter((record): record is QuarantinedRecord => record !== null);
     } catch (error) {
-      console.error('Failed to clear chat history:', error);
+      console.error('Failed to list quarantined records:', error);
+      return [];
     }
   }
 
   /**
-   * Check if chat history exists
+   * Delete quarantined records for good; returns how many were removed
    */
-  static async hasChatHistory(): Promise<boolean> {
+  static async clearQuarantine(): Promise<number> {
+    const keys = (await localforage.keys()).filter(key => key.startsWith(QUARANTINE_KEY_PREFIX));
+    await Promise.all(keys.map(key => localforage.removeItem(key)));
+    return keys.length;
+  }
+
+  /* ===================== Internals ===================== */
+
+  /**
+   * Read, migrate and validate a conversation without touching the index
+   */
+  private static async readSession(id: string): Promise<ChatSession | null> {
+    const key = SESSION_KEY_PREFIX + id;
+    let raw: unknown;
+    try {
+      raw = await localforage.getItem(key);
+    } catch (error) {
+      await ChatStorage.quarantine(key, undefined, error);
+      return null;
+    }
+    if (raw === null) return null;
+
+    try {
+      const { record, from } = migrateSession(raw);
+      if (from < SCHEMA_VERSION) await localforage.setItem(key, record);
+      return fromStored(record);
+    } catch (error) {
+      await ChatStorage.quarantine(key, raw, error);
+      return null;
+    }
+  }
+
+  private static async writeSession(session: ChatSession, activate: boolean): Promise<void> {
+    await localforage.setItem(SESSION_KEY_PREFIX + session.id, toStored(session));
+
+    await ChatStorage.updateIndex({ upsert: summaryOf(session), ...(activate ? { activeId: session.id } : {}) });
+    chatSync.publish({ type: 'session-updated', sessionId: session.id });
+  }
+
+  private static async loadIndex(): Promise<SessionIndex> {
+    try {
+      const raw = await localforage.getItem(SESSION_INDEX_KEY);
+      if (raw === null) {
+        ChatStorage.indexLoad ??= ChatStorage.importLegacyHistory().finally(() => {
+          ChatStorage.indexLoad = null;
+        });
+        return await ChatStorage.indexLoad;
+      }
+
+      try {
+        const { record, from } = migrateIndex(raw);
+        if (from < SCHEMA_VERSION) await localforage.setItem(SESSION_INDEX_KEY, record);
+        return record;
+      } catch (error) {
+        // The conversations themselves are intact; list them again from their own records
+        await ChatStorage.quarantine(SESSION_INDEX_KEY, raw, error);
+        return await ChatStorage.rebuildIndex();
+      }
+    } catch (error) {
+      console.error('Failed to load chat sessions:', error);
+      return { activeId: null, sessions: [] };
+    }
+  }
+
+  private static async saveIndex(index: SessionIndex): Promise<void> {
+    await localforage.setItem(SESSION_INDEX_KEY, { schemaVersion: SCHEMA_VERSION, ...index });
+  }
+
+  /**
+   * Change one entry of the index. The index is read again right before writing and only
+   * the entry changed is applied to it, so two tabs saving at once keep each other's
+   * conversations; removing the active conversation leaves none active.
+   */
+  private static async updateIndex(change: { upsert?: SessionSummary; remove?: string; activeId?: string | null }): Promise<void> {
+    const index = await ChatStorage.loadIndex();
+    const removed = change.remove !== undefined ? [change.remove] : [];
+    const activeId = change.activeId !== undefined ? change.activeId : index.activeId;
+    await ChatStorage.saveIndex({
+      activeId: activeId !== null && removed.includes(activeId) ? null : activeId,
+      sessions: mergeSummaries(index.sessions, change.upsert ? [change.upsert] : [], removed),
+    });
+  }
+
+  private static async dropFromIndex(id: string): Promise<void> {
+    const index = await ChatStorage.loadIndex();
+    if (!index.sessions.some(s => s.id === id)) return;
+    await ChatStorage.updateIndex({ remove: id });
+  }
+
+  /**
+   * Recreate the index from the stored conversations; the most recent one becomes active
+   */
+  private static async rebuildIndex(): Promise<SessionIndex> {
+    const keys = (await localforage.keys()).filter(key => key.startsWith(SESSION_KEY_PREFIX));
+    const sessions: ChatSession[] = [];
+    for (const key of keys) {
+      const session = await ChatStorage.readSession(key.slice(SESSION_KEY_PREFIX.length));
+      if (session) sessions.push(session);
+    }
+
+    const summaries = sessions.map(summaryOf).sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+    const index: SessionIndex = { activeId: summaries[0]?.id ?? null, sessions: summaries };
+    await ChatStorage.saveIndex(index);
+    return index;
+  }
+
+  /**
+   * First run with sessions: the single stored conversation becomes the first session
+   */
+  private static async importLegacyHistory(): Promise<SessionIndex> {
+    const legacy = await localforage.getItem<ChatHistory>(CHAT_HISTORY_KEY);
+    const empty: SessionIndex = { activeId: null, sessions: [] };
+    if (!legacy?.messages?.length) {
+      await ChatStorage.saveIndex(empty);
+      return empty;
+    }
+
+    let session: StoredSession;
     try {
-      const chatHistory = await localforage.getItem(CHAT_HISTORY_KEY);
-      return chatHistory !== null;
+      session = migrateSession(legacy).record;
     } catch (error) {
-      console.error('Failed to check chat history existence:', error);
-      return false;
+      await ChatStorage.quarantine(CHAT_HISTORY_KEY, legacy, error);
+      await ChatStorage.saveIndex(empty);
+      return empty;
     }
+
+    const index: SessionIndex = { activeId: session.id, sessions: [summaryOf(session)] };
+    await localforage.setItem(SESSION_KEY_PREFIX + session.id, session);
+    await ChatStorage.saveIndex(index);
+    await localforage.removeItem(CHAT_HISTORY_KEY);
+    return index;
   }
+
+  /**
+   * Move an unreadable record out of the way: it is kept under a quarantine key for
+   * inspection and its original key is freed so loading carries on without it
+   */
+  private static async quarantine(key: string, record: unknown, error: unknown): Promise<void> {
+    const quarantined: QuarantinedRecord = {
+      key,
+      reason: error instanceof Error ? error.message : String(error),
+      problems: error instanceof StorageSchemaError ? error.problems : [],
+      quarantinedAt: new Date().toISOString(),
+      record,
+    };
+    console.warn(`Quarantined unreadable stored record "${key}":`, quarantined.reason);
+
+    try {
+      await localforage.setItem(`${QUARANTINE_KEY_PREFIX}${key}:${Date.now()}`, quarantined);
+      await localforage.removeItem(key);
+    } catch (quarantineError) {
+      console.error('Failed to quarantine stored record:', quarantineError);
+    }
+  }
+}
+
+/**
+ * Union of two copies of a conversation by message id. The incoming copy keeps its order
+ * and wins for ids in both; messages only in the stored copy are slotted in by time.
+ * Messages from before the last clear, or deleted, are dropped.
+ */
+export function mergeMessages<T extends { id: string; timestamp: Date }>(
+  stored: T[],
+  incoming: T[],
+  clearedAt?: string,
+  deletedIds: string[] = []
+): T[] {
+  const cutoff = clearedAt ? Date.parse(clearedAt) : -Infinity;
+  const deleted = new Set(deletedIds);
+  const keep = (msg: T) => !deleted.has(msg.id) && new Date(msg.timestamp).getTime() > cutoff;
+
+  const merged = incoming.filter(keep);
+  const incomingIds = new Set(incoming.map(msg => msg.id));
+  for (const msg of stored.filter(msg => keep(msg) && !incomingIds.has(msg.id))) {
+    const time = new Date(msg.timestamp).getTime();
+    const later = merged.findIndex(other => incomingIds.has(other.id) && new Date(other.timestamp).getTime() > time);
+    merged.splice(later < 0 ? merged.length : later, 0, msg);
+  }
+  return merged;
+}
+
+/**
+ * Union of two lists of conversation summaries by id; for an id in both, the summary
+ * updated last wins. Removed conversations are dropped.
+ */
+export function mergeSummaries(stored: SessionSummary[], incoming: SessionSummary[], removedIds: string[] = []): SessionSummary[] {
+  const merged = new Map(stored.map(summary => [summary.id, summary]));
+  for (const summary of incoming) {
+    const current = merged.get(summary.id);
+    if (!current || summary.lastUpdated >= current.lastUpdated) merged.set(summary.id, summary);
+  }
+  removedIds.forEach(id => merged.delete(id));
+  return [...merged.values()];
+}
+
+function createSessionId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function summaryOf(session: ChatSession | StoredSession): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    lastUpdated: session.lastUpdated,
+    messageCount: session.messages.length,
+  };
+}
+
+function toStored(session: ChatSession): StoredSession {
+  return {
+    ...session,
+    schemaVersion: SCHEMA_VERSION,
+    messages: session.messages.map(toStoredMessage),
+  };
+}
+
+function fromStored(record: StoredSession): ChatSession {
+  return {
+    id: record.id,
+    title: record.title,
+    autoTitle: record.autoTitle,
+    createdAt: record.createdAt,
+    lastUpdated: record.lastUpdated,
+    messages: record.messages.map(fromStoredMessage),
+    messageHistory: record.messageHistory,
+    context: record.context,
+    ...(record.clearedAt ? { clearedAt: record.clearedAt } : {}),
+    ...(record.deletedMessageIds?.length ? { deletedMessageIds: record.deletedMessageIds } : {}),
+  };
 }
 
-export default ChatStorage;
\ No newline at end of file
+export default ChatStorage;
@@ -0,0 +1,90 @@
+/**
+ * Chat Sync
+ * Tells other tabs of the dashboard that stored conversations changed, so each ChatbotUI
+ * can merge the new messages instead of overwriting them on its next save. Uses a
+ * BroadcastChannel, falling back to `storage` events where BroadcastChannel is missing.
+ * Events only name what changed; receivers read the merged record back from ChatStorage.
+ */
+
+export type SyncEvent =
+  | { type: 'session-updated'; sessionId: string }
+  | { type: 'session-deleted'; sessionId: string };
+
+type SyncEnvelope = SyncEvent & {
+  /** Tab that sent the event; a tab ignores its own events */
+  origin: string;
+  sentAt: number;
+};
+
+type SyncListener = (event: SyncEvent) => void;
+
+const CHANNEL_NAME = 'enchatbot-sync';
+// localStorage key written by the fallback transport; only its change events matter
+const STORAGE_KEY = 'enchatbot:sync';
+
+class ChatSync {
+  private readonly tabId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  private readonly listeners = new Set<SyncListener>();
+  private channel: BroadcastChannel | null = null;
+  private connected = false;
+
+  /**
+   * Announce a change to the other tabs
+   */
+  publish(event: SyncEvent): void {
+    // Outside a browser (tests, scripts) there are no other tabs to tell
+    if (typeof window === 'undefined') return;
+
+    const envelope: SyncEnvelope = { ...event, origin: this.tabId, sentAt: Date.now() };
+    try {
+      if (typeof BroadcastChannel !== 'undefined') {
+        this.channel ??= new BroadcastChannel(CHANNEL_NAME);
+        this.channel.postMessage(envelope);
+      } else {
+        // sentAt makes every write a change, so repeating an event still fires `storage`
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+      }
+    } catch (error) {
+      console.error('Failed to notify other tabs:', error);
+    }
+  }
+
+  /**
+   * Listen for changes made in other tabs; returns the unsubscribe function
+   */
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    this.connect();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private connect(): void {
+    if (this.connected || typeof window === 'undefined') return;
+    this.connected = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel ??= new BroadcastChannel(CHANNEL_NAME);
+      this.channel.addEventListener('message', (e: MessageEvent<SyncEnvelope>) => this.deliver(e.data));
+    } else {
+      window.addEventListener('storage', e => {
+        if (e.key !== STORAGE_KEY || !e.newValue) return;
+        try {
+          this.deliver(JSON.parse(e.newValue) as SyncEnvelope);
+        } catch (error) {
+          console.error('Ignoring unreadable sync event:', error);
+        }
+      });
+    }
+  }
+
+  private deliver(envelope: SyncEnvelope): void {
+    if (!envelope || envelope.origin === this.tabId) return;
+    const event: SyncEvent = { type: envelope.type, sessionId: envelope.sessionId };
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export const chatSync = new ChatSync();
+export default chatSync;
@@ -0,0 +1,81 @@
+/**
+ * Clarification
+ * When the calibrated confidence in a message's intent is low, or the runner-up is close
+ * behind, the bot asks which one was meant ("Did you mean to download data or see a
+ * chart?") with a quick reply for each instead of guessing. Picking one routes the
+ * unclear message again, as that intent and with its own entities.
+ */
+
+import { clarificationOptions } from '../data/responses';
+import { confidenceOf } from './intentConfidence';
+import type { Entities } from './entityExtractor';
+import type { Intent, Resolution } from './intentDetection';
+import type { ResolverResponse } from './responseResolver';
+import type { Clarification } from '../state/conversationContext';
+
+// Below either, the intent is a guess worth asking about. Tuned on the cross-validated
+// corpus (`npm run train:intents` reports how often they ask)
+export const CLARIFY_BELOW_CONFIDENCE = 0.4;
+export const CLARIFY_BELOW_MARGIN = 0.1;
+
+/**
+ * Whether a routed intent is a guess: it is unlikely itself, however likely the runner-up
+ * (a confident other intent is all the more reason to ask), or the two likeliest are close
+ */
+export function isUnsure(confidence: number, margin: number): boolean {
+  return confidence < CLARIFY_BELOW_CONFIDENCE || margin < CLARIFY_BELOW_MARGIN;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * The question to ask about a message, or null when its intent is clear enough or the
+ * close call is not between two intents the question can name
+ */
+export function clarificationFor(resolution: Resolution, entities: Entities, input: string): Clarification | null {
+  // Resolutions recorded before calibration count as certain, as does a picked option
+  const { confidence = 1, margin = 1 } = resolution;
+  const { runnerUp } = confidenceOf(resolution.scores, resolution.primary);
+  // An intent no rule scored is not a real alternative
+  if (!runnerUp || resolution.scores[runnerUp.intent] <= 0) return null;
+  if (!isUnsure(confidence, margin)) return null;
+
+  const intents = [resolution.primary, runnerUp.intent];
+  if (!intents.every(intent => clarificationOptions[intent])) return null;
+
+  return {
+    input,
+    resolution,
+    entities,
+    options: intents.map(intent => ({ intent, reply: clarificationOptions[intent]!.reply })),
+  };
+}
+
+export function clarificationResponse(clarification: Clarification): ResolverResponse {
+  const phrases = clarification.options.map(option => clarificationOptions[option.intent]?.phrase ?? option.intent);
+  return {
+    text: `I'm not sure I understood. Did you mean to ${phrases.join(' or ')}?`,
+    type: 'text',
+    metadata: {
+      source: 'clarification',
+      confidence: clarification.resolution.confidence,
+      suggestions: clarification.options.map(option => option.reply),
+      clarification,
+    },
+  };
+}
+
+/**
+ * The intent a reply picks: one of the quick replies, or a short message of one of the
+ * offered intents that names no subject of its own ("a chart please"). Anything else is
+ * a new question.
+ */
+export function chosenIntent(clarification: Clarification, input: string, resolution: Resolution, entities: Entities): Intent | null {
+  const reply = normalize(input);
+  const quickReply = clarification.options.find(option => normalize(option.reply) === reply);
+  if (quickReply) return quickReply.intent;
+
+  const namesSubject = entities.measure.products.length > 0 || entities.measure.measures.length > 0;
+  const offered = clarification.options.find(option => option.intent === resolution.primary);
+  return offered && !namesSubject ? offered.intent : null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Clause Splitter
+ * Segments a compound message ("Thanks! Now show me gas prices in France and export them
+ * as CSV") into clauses that each carry one request, so they can be resolved and answered
+ * in order. Splits at sentence ends, and at "and" / "then" / "also" only when a request
+ * verb follows: "gas and electricity in Germany and France" stays one clause.
+ */
+
+// Sentence ends followed by more text; decimals ("1.5") have no space after the point
+const SENTENCE_END_RE = /(?<=[.!?;])\s+/u;
+
+// Verbs that start a request of their own
+const REQUEST_VERBS = [
+  'show', 'plot', 'chart', 'graph', 'visuali[sz]e', 'draw', 'display', 'export', 'download', 'save',
+  'compare', 'rank', 'explain', 'define', 'tell', 'give', 'list', 'send', 'get', 'make', 'find',
+  'search', 'look\\s+up', 'what', 'how', 'which',
+].join('|');
+
+// A connector, optional politeness, then a request verb; the split falls before the connector
+const CONNECTOR_RE = new RegExp(
+  `\\s*,?\\s+\\b(?:and\\s+then|and\\s+also|and|then|also|after\\s+that|afterwards)\\b(?=\\s+(?:(?:please|also|then|now|can\\s+you|could\\s+you)\\s+)*(?:${REQUEST_VERBS})\\b)`,
+  'giu'
+);
+
+// Connectors and fillers left at the start of a clause
+const LEADING_FILLER_RE = /^(?:(?:and|then|now|also|so|ok(?:ay)?|after\s+that|afterwards)\b[\s,]*)+/iu;
+
+const MAX_CLAUSES = 5;
+
+/**
+ * The clauses of a message, in order. A message with one request comes back as one clause;
+ * anything past the fifth clause stays with the fifth.
+ */
+export function splitClauses(text: string): string[] {
+  const clauses = text
+    .split(SENTENCE_END_RE)
+    .flatMap(sentence => sentence.split(CONNECTOR_RE))
+    .map(clause => clause.trim().replace(LEADING_FILLER_RE, '').trim())
+    .filter(clause => /[\p{L}\p{N}]/u.test(clause));
+
+  if (clauses.length <= 1) return [text.trim()];
+  if (clauses.length <= MAX_CLAUSES) return clauses;
+  return [...clauses.slice(0, MAX_CLAUSES - 1), clauses.slice(MAX_CLAUSES - 1).join(' ')];
+}
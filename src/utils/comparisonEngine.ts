@@ -0,0 +1,368 @@
+// utils/comparisonEngine.ts
+// Comparisons over a fetched Eurostat result: two series side by side (difference, ratio),
+// one series over time (period-on-period changes) or a top/bottom-N ranking. Returns a
+// table and a one-paragraph narrative; fetching is left to the caller. Shares in percent
+// (unit PC) differ and change by percentage points, not by a percentage of themselves.
+
+import type { CompareEntities } from './entityExtractor';
+import type { EurostatResult } from './eurostatClient';
+import { categoryText, distinctCodes, formatValue, unitText, valueDecimals } from './richContent';
+import type { DataTableContent, TableColumn } from './richContent';
+
+export type ComparisonKind = 'pair' | 'change' | 'ranking';
+
+export type Ranking = NonNullable<CompareEntities['ranking']>;
+
+export interface ComparisonOptions {
+  /** "compare X vs Y": decides which series comes first */
+  pair?: CompareEntities['pair'];
+  ranking?: Ranking;
+}
+
+export interface Comparison {
+  kind: ComparisonKind;
+  table: DataTableContent;
+  narrative: string;
+}
+
+interface Series {
+  key: string;
+  label: string;
+  /** Category code per varying dimension */
+  codes: Record<string, string>;
+  values: Map<string, number>;
+}
+
+// Rows shown when a ranking names no N ("which countries have the lowest gas prices")
+export const DEFAULT_RANKING_SIZE = 5;
+
+/**
+ * Compare the series of a result; null when it holds a single value and there is nothing
+ * to compare it with
+ */
+export function compareResult(result: EurostatResult, title: string, options: ComparisonOptions = {}): Comparison | null {
+  const series = orderSeries(buildSeries(result), options.pair);
+  const periods = distinctCodes(result, 'time').sort();
+  const unit = result.observations.length ? unitText(result.observations[0].dimensions) : '';
+  const points = PERCENT_UNIT.test(result.observations[0]?.dimensions.unit ?? '');
+
+  if (options.ranking || series.length > 2) {
+    return series.length > 1 ? compareRanking(series, periods, unit, title, points, options.ranking) : null;
+  }
+  if (series.length === 2) return comparePair(series[0], series[1], periods, unit, title, points);
+  if (series.length === 1 && periods.length > 1) return compareChange(series[0], periods, unit, title, points);
+  return null;
+}
+
+/* ===================== Comparisons ===================== */
+
+function comparePair(a: Series, b: Series, periods: string[], unit: string, title: string, points: boolean): Comparison {
+  const shared = periods.filter(p => a.values.has(p) && b.values.has(p));
+  const difference = (va: number, vb: number) => points ? roundPoints(va - vb, va, vb) : round(va - vb);
+
+  const columns: TableColumn[] = [
+    { key: 'period', label: 'Period' },
+    { key: 'a', label: a.label, numeric: true },
+    { key: 'b', label: b.label, numeric: true },
+    { key: 'difference', label: `Difference (${a.label} − ${b.label})${points ? ', pp' : ''}`, numeric: true },
+    { key: 'ratio', label: `Ratio (${a.label} / ${b.label})`, numeric: true },
+  ];
+  const rows = shared.map(period => {
+    const va = a.values.get(period)!;
+    const vb = b.values.get(period)!;
+    return { period, a: va, b: vb, difference: difference(va, vb), ratio: vb === 0 ? null : round(va / vb, 3) };
+  });
+
+  const sentences: string[] = [];
+  const latest = shared[shared.length - 1];
+  if (latest) {
+    const va = a.values.get(latest)!;
+    const vb = b.values.get(latest)!;
+    if (points) {
+      const gap = difference(va, vb);
+      const relation = gap === 0 ? 'the same as' : `${pointsText(gap)} ${gap > 0 ? 'higher' : 'lower'} than`;
+      sentences.push(`In ${latest}, ${a.label} recorded ${formatValue(va)} ${unit}, ${relation} ${b.label} (${formatValue(vb)}).`);
+    } else {
+      const relative = vb === 0 ? '' : `, ${percentText(Math.abs(va / vb - 1))} ${va >= vb ? 'higher' : 'lower'} than`;
+      sentences.push(
+        `In ${latest}, ${a.label} recorded ${formatValue(va)} ${unit}${relative || ' against'} ${b.label} (${formatValue(vb)})`
+        + `: a difference of ${formatValue(round(va - vb))}${vb === 0 ? '' : ` and a ratio of ${formatValue(round(va / vb, 3))}`}.`
+      );
+    }
+  }
+
+  if (shared.length > 1) {
+    const first = shared[0];
+    const gapBefore = Math.abs(difference(a.values.get(first)!, b.values.get(first)!));
+    const gapAfter = Math.abs(difference(a.values.get(latest)!, b.values.get(latest)!));
+    const gapText = (gap: number) => points ? pointsText(gap) : formatValue(gap);
+    sentences.push(
+      `From ${first} to ${latest}, ${a.label} ${changeText(a.values.get(first)!, a.values.get(latest)!, true, points)}`
+      + ` and ${b.label} ${changeText(b.values.get(first)!, b.values.get(latest)!, true, points)},`
+      + ` so the gap ${gapAfter > gapBefore ? 'widened' : gapAfter < gapBefore ? 'narrowed' : 'stayed the same'}`
+      + ` (${gapText(gapBefore)} → ${gapText(gapAfter)}).`
+    );
+    const previous = shared[shared.length - 2];
+    sentences.push(
+      `${stepName(previous, latest)} (${previous} → ${latest}), ${a.label} ${changeText(a.values.get(previous)!, a.values.get(latest)!, true, points)}`
+      + ` and ${b.label} ${changeText(b.values.get(previous)!, b.values.get(latest)!, true, points)}.`
+    );
+  }
+
+  if (shared.length === 0) {
+    sentences.push(`${a.label} and ${b.label} have no period in common, so they cannot be compared directly.`);
+  }
+
+  return {
+    kind: 'pair',
+    table: { kind: 'table', caption: `${title}: ${a.label} vs ${b.label} (${unit})`, columns, rows },
+    narrative: sentences.join(' '),
+  };
+}
+
+function compareChange(series: Series, periods: string[], unit: string, title: string, points: boolean): Comparison {
+  const available = periods.filter(p => series.values.has(p));
+
+  // A share's change in points is the change itself, a percentage of it would say the same twice
+  const columns: TableColumn[] = [
+    { key: 'period', label: 'Period' },
+    { key: 'value', label: 'Value', numeric: true },
+    { key: 'change', label: points ? 'Change vs previous (pp)' : 'Change vs previous', numeric: true },
+    ...(points ? [] : [{ key: 'percent', label: 'Change (%)', numeric: true }]),
+  ];
+  const changes = available.slice(1).map((period, i) => {
+    const before = series.values.get(available[i])!;
+    const after = series.values.get(period)!;
+    return {
+      from: available[i],
+      to: period,
+      change: points ? roundPoints(after - before, before, after) : round(after - before),
+      // What the narrative ranks the steps by
+      size: points ? roundPoints(after - before, before, after) : before === 0 ? null : (after - before) / Math.abs(before),
+    };
+  });
+  const rows = available.map((period, i) => {
+    const step = i > 0 ? changes[i - 1] : undefined;
+    return {
+      period,
+      value: series.values.get(period)!,
+      change: step ? step.change : null,
+      ...(points ? {} : { percent: step?.size != null ? signedPercent(step.size) : null }),
+    };
+  });
+  const sizeText = (size: number) => points ? signedPoints(size) : signedPercent(size);
+
+  const first = available[0];
+  const last = available[available.length - 1];
+  const sentences = [
+    `${series.label} went from ${formatValue(series.values.get(first)!)} ${unit} in ${first} to ${formatValue(series.values.get(last)!)} in ${last}`
+    + ` (${changeText(series.values.get(first)!, series.values.get(last)!, false, points)}).`,
+  ];
+
+  const measurable = changes.filter((c): c is typeof c & { size: number } => c.size !== null);
+  if (measurable.length > 1) {
+    const rise = measurable.reduce((best, c) => (c.size > best.size ? c : best));
+    const fall = measurable.reduce((best, c) => (c.size < best.size ? c : best));
+    if (rise.size > 0) sentences.push(`The largest increase was from ${rise.from} to ${rise.to} (${sizeText(rise.size)}).`);
+    if (fall.size < 0) sentences.push(`The largest decrease was from ${fall.from} to ${fall.to} (${sizeText(fall.size)}).`);
+  }
+
+  return {
+    kind: 'change',
+    table: { kind: 'table', caption: `${title}: ${series.label}, change over time (${unit})`, columns, rows },
+    narrative: sentences.join(' '),
+  };
+}
+
+function compareRanking(series: Series[], periods: string[], unit: string, title: string, points: boolean, ranking?: Ranking): Comparison {
+  // Rank on the latest period most series have a value for
+  const period = [...periods].reverse().reduce((best, p) =>
+    countValues(series, p) > countValues(series, best) ? p : best, periods[periods.length - 1]);
+  const previous = periods[periods.indexOf(period) - 1];
+
+  const ascending = ranking?.order === 'bottom' || ranking?.order === 'lowest';
+  const ranked = series
+    .filter(s => s.values.has(period))
+    .sort((x, y) => ascending ? x.values.get(period)! - y.values.get(period)! : y.values.get(period)! - x.values.get(period)!);
+  const shown = ranked.slice(0, ranking ? ranking.n ?? DEFAULT_RANKING_SIZE : ranked.length);
+
+  const change = (s: Series) => {
+    const before = previous ? s.values.get(previous) : undefined;
+    const after = s.values.get(period)!;
+    if (before === undefined) return null;
+    if (points) return roundPoints(after - before, before, after);
+    return before === 0 ? null : (after - before) / Math.abs(before);
+  };
+  const changeLabel = (value: number) => points ? signedPoints(value) : signedPercent(value);
+
+  const columns: TableColumn[] = [
+    { key: 'rank', label: 'Rank', numeric: true },
+    { key: 'name', label: 'Name' },
+    { key: 'value', label: `Value (${period})`, numeric: true },
+    ...(previous ? [{ key: 'change', label: `Change vs ${previous}${points ? ' (pp)' : ''}`, numeric: true }] : []),
+  ];
+  const rows = shown.map((s, i) => ({
+    rank: i + 1,
+    name: s.label,
+    value: s.values.get(period)!,
+    ...(previous ? { change: change(s) === null ? null : changeLabel(change(s)!) } : {}),
+  }));
+
+  const extreme = ascending ? 'lowest' : 'highest';
+  const [top, ...rest] = shown;
+  const last = shown[shown.length - 1];
+  const sentences = [
+    `In ${period}, ${top.label} had the ${extreme} value (${formatValue(top.values.get(period)!)} ${unit})`
+    + (rest.length ? `, followed by ${list(rest.slice(0, 2).map(s => s.label))}.` : '.'),
+  ];
+  if (shown.length > 1 && last.values.get(period)! !== 0) {
+    sentences.push(`${top.label}'s value is ${formatValue(round(top.values.get(period)! / last.values.get(period)!, 3))} times that of ${last.label}, ranked ${ordinal(shown.length)} here.`);
+  }
+  if (ranked.length > shown.length) {
+    sentences.push(`Showing ${shown.length} of the ${ranked.length} with a value for ${period}.`);
+  }
+
+  const changed = shown.filter(s => change(s) !== null);
+  if (previous && changed.length) {
+    const mover = changed.reduce((best, s) => (Math.abs(change(s)!) > Math.abs(change(best)!) ? s : best));
+    sentences.push(`The biggest move since ${previous} was ${mover.label} (${changeLabel(change(mover)!)}).`);
+  }
+
+  const scope = ranking ? `${ascending ? 'Bottom' : 'Top'} ${shown.length}` : 'Ranking';
+  return {
+    kind: 'ranking',
+    table: { kind: 'table', caption: `${title}: ${scope}, ${period} (${unit})`, columns, rows },
+    narrative: sentences.join(' '),
+  };
+}
+
+/* ===================== Series ===================== */
+
+/**
+ * One series per combination of the non-time dimensions that vary (usually geo, sometimes
+ * the energy product), in the order the request listed them; a result with a single
+ * combination is one series named after it
+ */
+function buildSeries(result: EurostatResult): Series[] {
+  const varying = result.dimensions
+    .map(d => d.id)
+    .filter(id => id !== 'time' && distinctCodes(result, id).length > 1);
+  const naming = varying.length ? varying : ['geo'].filter(id => distinctCodes(result, id).length === 1);
+
+  const series = new Map<string, Series>();
+  for (const obs of result.observations) {
+    if (obs.value === null) continue;
+    const key = varying.map(id => obs.dimensions[id]).join('|');
+    if (!series.has(key)) {
+      const label = naming.map(id => categoryText(result, id, obs.dimensions[id])).join(', ') || result.label;
+      const codes = Object.fromEntries(varying.map(id => [id, obs.dimensions[id]]));
+      series.set(key, { key, label, codes, values: new Map() });
+    }
+    series.get(key)!.values.set(obs.dimensions.time ?? '', obs.value);
+  }
+
+  const position = (s: Series, id: string) => {
+    const index = result.request.filters[id]?.indexOf(s.codes[id]) ?? -1;
+    return index === -1 ? Infinity : index;
+  };
+  return Array.from(series.values()).sort((a, b) => {
+    for (const id of varying) {
+      const difference = position(a, id) - position(b, id);
+      if (difference) return difference;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Put the series named on the left of "X vs Y" first
+ */
+function orderSeries(series: Series[], pair?: ComparisonOptions['pair']): Series[] {
+  if (!pair || series.length !== 2) return series;
+  const mentions = (s: Series, text: string) => text.includes(s.label.toLowerCase());
+  return mentions(series[1], pair.left) && !mentions(series[0], pair.left) ? [series[1], series[0]] : series;
+}
+
+function countValues(series: Series[], period: string): number {
+  return series.filter(s => s.values.has(period)).length;
+}
+
+/* ===================== Formatting ===================== */
+
+// Past this, digits are floating-point noise at any Eurostat unit's scale
+const MAX_DECIMALS = 6;
+
+/**
+ * Round to significant digits, keeping at least one decimal: a difference of 0.0033 EUR/kWh
+ * keeps its digits, 1234.56 GWh becomes 1234.6, and a difference that rounds away is 0, not -0
+ */
+function round(value: number, significant = 4): number {
+  if (value === 0) return 0;
+  if (!Number.isFinite(value)) return value;
+  const decimals = Math.min(MAX_DECIMALS, Math.max(1, significant - 1 - Math.floor(Math.log10(Math.abs(value)))));
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor || 0;
+}
+
+// Eurostat units that are shares in percent: PC, PC_GDP, PC_FEC, …
+const PERCENT_UNIT = /^PC(_|$)/;
+
+/**
+ * Round a difference between shares to the decimals the shares themselves are shown with,
+ * so 21.6 % against 19.8 % differ by 1.8 points, not 1.793
+ */
+function roundPoints(difference: number, ...values: number[]): number {
+  const factor = 10 ** Math.min(...values.map(valueDecimals));
+  return Math.round(difference * factor) / factor || 0;
+}
+
+function pointsText(difference: number): string {
+  return `${formatValue(Math.abs(difference))} pp`;
+}
+
+function signedPoints(difference: number): string {
+  return `${difference >= 0 ? '+' : '−'}${pointsText(difference)}`;
+}
+
+// Name of one step between consecutive periods, from the Eurostat time code format
+const STEP_NAMES: [RegExp, string][] = [
+  [/^\d{4}$/, 'Year over year'],
+  [/^\d{4}-S[12]$/, 'Half-year over half-year'],
+  [/^\d{4}-Q[1-4]$/, 'Quarter over quarter'],
+  [/^\d{4}-M?\d{2}$/, 'Month over month'],
+];
+
+function stepName(previous: string, latest: string): string {
+  return STEP_NAMES.find(([pattern]) => pattern.test(previous) && pattern.test(latest))?.[1] ?? 'Period over period';
+}
+
+function percentText(fraction: number): string {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
+
+function signedPercent(fraction: number): string {
+  const text = percentText(Math.abs(fraction));
+  return `${fraction >= 0 || text === '0.0%' ? '+' : '−'}${text}`;
+}
+
+function changeText(before: number, after: number, verb = true, points = false): string {
+  if (points) {
+    const difference = roundPoints(after - before, before, after);
+    if (!verb) return signedPoints(difference);
+    return difference === 0 ? 'did not change' : `${difference > 0 ? 'rose' : 'fell'} by ${pointsText(difference)}`;
+  }
+  if (before === 0) return verb ? `moved from 0 to ${formatValue(after)}` : `from 0`;
+  const fraction = (after - before) / Math.abs(before);
+  if (!verb) return signedPercent(fraction);
+  if (fraction === 0) return 'did not change';
+  return `${fraction > 0 ? 'rose' : 'fell'} by ${percentText(Math.abs(fraction))}`;
+}
+
+function list(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0] ?? '';
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
@@ -0,0 +1,318 @@
+/**
+ * Conversation Export
+ * Turns a stored conversation into a shareable transcript: JSON that imports back
+ * losslessly (metadata, actions and query context included), Markdown, and a standalone
+ * HTML page that reads well with a screen reader. Files are data: URLs, like dataExport.
+ */
+
+import type { ChatSession } from './chatStorage';
+import { textUrl } from './dataExport';
+import { parseMarkdown } from './markdown';
+import type { BlockNode, InlineNode } from './markdown';
+import type { DataTableContent, RichContent } from './richContent';
+import { SCHEMA_VERSION, StorageSchemaError, migrateSession, toStoredMessage } from './storageSchema';
+import type { StoredMessage, StoredSession } from './storageSchema';
+
+export type TranscriptFormat = 'json' | 'markdown' | 'html';
+
+export interface TranscriptFile {
+  format: TranscriptFormat;
+  filename: string;
+  mimeType: string;
+  /** data: URL holding the file contents */
+  url: string;
+}
+
+/** Envelope of a JSON export; `session` is a storage record at `schemaVersion` */
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  exportedAt: string;
+  schemaVersion: number;
+  session: StoredSession;
+}
+
+export class ConversationImportError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'ConversationImportError';
+    this.problems = problems;
+  }
+}
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: '.json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: '.md', mimeType: 'text/markdown' },
+  html: { label: 'HTML', extension: '.html', mimeType: 'text/html' },
+};
+
+const EXPORT_FORMAT_ID = 'enchatbot-conversation';
+const SPEAKERS = { user: 'You', bot: 'Energy Assistant' } as const;
+
+// Imported conversations can carry any URL; only these become links in the HTML page
+const SAFE_HREF_RE = /^(https?:\/\/|mailto:|data:(?!text\/html))/i;
+
+export function buildTranscriptFile(session: ChatSession, format: TranscriptFormat): TranscriptFile {
+  const { extension, mimeType } = TRANSCRIPT_FORMATS[format];
+  const filename = `${slug(session.title)}${extension}`;
+  const text = format === 'json'
+    ? exportConversationJson(session)
+    : format === 'markdown'
+      ? exportConversationMarkdown(session)
+      : exportConversationHtml(session);
+  return { format, filename, mimeType, url: textUrl(text, mimeType) };
+}
+
+/* ===================== JSON ===================== */
+
+export function exportConversationJson(session: ChatSession): string {
+  const envelope: ConversationExport = {
+    format: EXPORT_FORMAT_ID,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    session: { ...session, schemaVersion: SCHEMA_VERSION, messages: storedMessages(session) },
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+export interface ImportedConversation {
+  session: StoredSession;
+  /** Messages left out because their content, actions or links could not be trusted */
+  droppedMessages: number;
+}
+
+/**
+ * Read a JSON export back into a storage record, migrated and validated like anything
+ * loaded from storage; throws ConversationImportError when the file is not a usable export
+ */
+export function parseConversationExport(text: string): ImportedConversation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('The file is not valid JSON');
+  }
+
+  const envelope = parsed as Partial<ConversationExport> | null;
+  if (typeof envelope !== 'object' || envelope === null || envelope.format !== EXPORT_FORMAT_ID) {
+    throw new ConversationImportError('The file is not an exported conversation');
+  }
+
+  try {
+    const { record, dropped } = migrateSession(envelope.session, { dropInvalidMessages: true });
+    return { session: record, droppedMessages: dropped };
+  } catch (error) {
+    if (error instanceof StorageSchemaError) {
+      throw new ConversationImportError('The exported conversation is damaged or from a newer version', error.problems);
+    }
+    throw error;
+  }
+}
+
+/* ===================== Markdown ===================== */
+
+export function exportConversationMarkdown(session: ChatSession): string {
+  const lines = [`# ${session.title}`, '', `_Exported ${formatTime(new Date().toISOString())} · ${session.messages.length} messages_`];
+
+  for (const msg of storedMessages(session)) {
+    lines.push('', `## ${SPEAKERS[msg.sender]} · ${formatTime(msg.timestamp)}`, '', msg.text);
+
+    for (const content of msg.metadata?.content ?? []) {
+      const block = contentMarkdown(content);
+      if (block) lines.push('', block);
+    }
+
+    const actions = msg.metadata?.actions ?? [];
+    if (actions.length) {
+      lines.push('');
+      // Generated files are data: URLs, too long to be readable in a text transcript
+      actions.forEach(action => lines.push(action.type === 'download'
+        ? `- ${action.label}: ${action.filename ?? 'file'}`
+        : `- [${action.label}](${action.url})`));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function contentMarkdown(content: RichContent): string {
+  switch (content.kind) {
+    case 'table':
+      return tableMarkdown(content);
+    case 'timeseries':
+    case 'bar':
+      return [`**${content.title}**`, content.summary, content.fallback && tableMarkdown(content.fallback)]
+        .filter(Boolean).join('\n\n');
+    case 'card':
+      return [
+        `**${content.title}**${content.subtitle ? ` — ${content.subtitle}` : ''}`,
+        content.body,
+        content.fields?.map(f => `- ${f.label}: ${f.value}`).join('\n'),
+        content.link && `[${content.link.label}](${content.link.url})`,
+      ].filter(Boolean).join('\n\n');
+    case 'chips':
+      return '';
+  }
+}
+
+function tableMarkdown(table: DataTableContent): string {
+  const cell = (value: string | number | null | undefined) => String(value ?? '').replace(/\|/g, '\\|');
+  const header = `| ${table.columns.map(c => cell(c.label)).join(' | ')} |`;
+  const separator = `| ${table.columns.map(c => (c.numeric ? '---:' : '---')).join(' | ')} |`;
+  const rows = table.rows.map(row => `| ${table.columns.map(c => cell(row[c.key])).join(' | ')} |`);
+  return [`**${table.caption}**`, '', header, separator, ...rows, ...(table.footnote ? ['', `_${table.footnote}_`] : [])].join('\n');
+}
+
+/* ===================== HTML ===================== */
+
+/**
+ * Standalone page: landmarks, one heading per message, real tables with captions and
+ * header scopes, and charts replaced by their text summary and data table
+ */
+export function exportConversationHtml(session: ChatSession): string {
+  const messages = storedMessages(session).map(msg => {
+    const content = (msg.metadata?.content ?? []).map(contentHtml).join('');
+    const actions = msg.metadata?.actions ?? [];
+    const links = actions.length
+      // A download built on click links to its selection on the Eurostat API instead
+      ? `<ul class="actions">${actions.map(a => `<li>${linkHtml(a.url, escapeHtml(a.label), a.export ? undefined : a.filename)}</li>`).join('')}</ul>`
+      : '';
+    return `<li class="message ${msg.sender}"><article>
+<h2><span class="speaker">${SPEAKERS[msg.sender]}</span> <time datetime="${msg.timestamp}">${escapeHtml(formatTime(msg.timestamp))}</time></h2>
+${blocksHtml(parseMarkdown(msg.text))}${content}${links}
+</article></li>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)} – Eurostat Energy Chatbot</title>
+<style>
+body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 52rem; margin: 0 auto; padding: 1rem; color: #1a1a1a; }
+h1 { color: #003399; }
+h2 { font-size: 1rem; margin: 0 0 .5rem; }
+time { font-weight: normal; color: #555; }
+ol.transcript { list-style: none; padding: 0; }
+.message { border-left: 4px solid #003399; padding: .5rem 1rem; margin: 1rem 0; }
+.message.user { border-color: #767676; background: #f5f5f5; }
+table { border-collapse: collapse; margin: .5rem 0; }
+th, td { border: 1px solid #999; padding: .25rem .5rem; text-align: left; }
+td.numeric { text-align: right; }
+caption { font-weight: bold; text-align: left; }
+a:focus { outline: 2px solid #003399; outline-offset: 2px; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(session.title)}</h1>
+<p>Conversation with the Eurostat Energy Chatbot, exported ${escapeHtml(formatTime(new Date().toISOString()))}. ${session.messages.length} messages.</p>
+</header>
+<main>
+<ol class="transcript" aria-label="Messages">
+${messages}
+</ol>
+</main>
+</body>
+</html>
+`;
+}
+
+function contentHtml(content: RichContent): string {
+  switch (content.kind) {
+    case 'table':
+      return tableHtml(content);
+    case 'timeseries':
+    case 'bar':
+      return `<figure><figcaption>${escapeHtml(content.title)}</figcaption>${content.summary ? `<p>${escapeHtml(content.summary)}</p>` : ''}${content.fallback ? tableHtml(content.fallback) : ''}</figure>`;
+    case 'card': {
+      const fields = content.fields?.length
+        ? `<dl>${content.fields.map(f => `<dt>${escapeHtml(f.label)}</dt><dd>${escapeHtml(f.value)}</dd>`).join('')}</dl>`
+        : '';
+      return `<section class="card"><h3>${escapeHtml(content.title)}</h3>`
+        + (content.subtitle ? `<p>${escapeHtml(content.subtitle)}</p>` : '')
+        + (content.body ? `<p>${escapeHtml(content.body)}</p>` : '')
+        + fields
+        + (content.link ? `<p>${linkHtml(content.link.url, escapeHtml(content.link.label))}</p>` : '')
+        + '</section>';
+    }
+    case 'chips':
+      return '';
+  }
+}
+
+function tableHtml(table: DataTableContent): string {
+  const head = table.columns.map(c => `<th scope="col">${escapeHtml(c.label)}</th>`).join('');
+  const rows = table.rows.map(row => `<tr>${table.columns.map(c =>
+    `<td${c.numeric ? ' class="numeric"' : ''}>${escapeHtml(String(row[c.key] ?? ''))}</td>`).join('')}</tr>`).join('');
+  const footnote = table.footnote ? `<p><small>${escapeHtml(table.footnote)}</small></p>` : '';
+  return `<table><caption>${escapeHtml(table.caption)}</caption><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>${footnote}`;
+}
+
+// Same node tree components/Markdown.tsx renders, written out as escaped HTML
+function blocksHtml(blocks: BlockNode[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return `<p>${inlineHtml(block.children)}</p>`;
+      case 'heading':
+        return `<h3>${inlineHtml(block.children)}</h3>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}>${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</${tag}>`;
+      }
+      case 'table':
+        return `<table><thead><tr>${block.header.map(cell => `<th scope="col">${inlineHtml(cell)}</th>`).join('')}</tr></thead>`
+          + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${inlineHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    }
+  }).join('\n');
+}
+
+function inlineHtml(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.text);
+      case 'strong':
+        return `<strong>${inlineHtml(node.children)}</strong>`;
+      case 'em':
+        return `<em>${inlineHtml(node.children)}</em>`;
+      case 'code':
+        return `<code>${escapeHtml(node.text)}</code>`;
+      case 'link':
+        return linkHtml(node.href, inlineHtml(node.children));
+      case 'break':
+        return '<br>';
+    }
+  }).join('');
+}
+
+/* ===================== Helpers ===================== */
+
+function linkHtml(href: string, label: string, filename?: string): string {
+  if (!SAFE_HREF_RE.test(href)) return label;
+  return `<a href="${escapeHtml(href)}"${filename ? ` download="${escapeHtml(filename)}"` : ''}>${label}</a>`;
+}
+
+function storedMessages(session: ChatSession): StoredMessage[] {
+  return session.messages.map(toStoredMessage);
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function slug(title: string): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `conversation-${base || 'export'}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,240 @@
+/**
+ * Data Export
+ * Builds downloadable files for a query result entirely in the browser: CSV, JSON,
+ * JSON-stat 2.0, SDMX-CSV and a minimal XLSX. A download button stores the selection and
+ * format rather than the file: the file is built as a data: URL when clicked, so stored
+ * conversations stay small and the buttons still work after a reload.
+ */
+
+import eurostatClient from './eurostatClient';
+import type { EurostatRequest, EurostatResult } from './eurostatClient';
+import type { JsonStatDataset } from './jsonStat';
+import { categoryText } from './richContent';
+import { buildXlsx } from './xlsxWriter';
+import type { CellValue } from './xlsxWriter';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'jsonstat' | 'sdmx-csv';
+
+export interface ExportFile {
+  format: ExportFormat;
+  filename: string;
+  mimeType: string;
+  /** data: URL holding the file contents */
+  url: string;
+}
+
+/** What a download button builds when clicked */
+export interface ExportRequest {
+  request: EurostatRequest;
+  format: ExportFormat;
+}
+
+interface FormatInfo {
+  label: string;
+  /** Appended to the dataset code to form the file name */
+  suffix: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  csv: { label: 'CSV', suffix: '.csv', mimeType: 'text/csv' },
+  xlsx: { label: 'Excel (XLSX)', suffix: '.xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { label: 'JSON', suffix: '.json', mimeType: 'application/json' },
+  jsonstat: { label: 'JSON-stat', suffix: '-jsonstat.json', mimeType: 'application/json' },
+  'sdmx-csv': { label: 'SDMX-CSV', suffix: '-sdmx.csv', mimeType: 'text/csv' },
+};
+
+// "sdmx csv" and "json-stat" must not also count as csv and json
+const FORMAT_PATTERNS: [ExportFormat, RegExp][] = [
+  ['sdmx-csv', /\bsdmx\b/i],
+  ['jsonstat', /\bjson[\s-]?stat\b/i],
+  ['json', /\bjson\b(?![\s-]?stat)/i],
+  ['xlsx', /\b(xlsx?|excel|spreadsheet)\b/i],
+  ['csv', /(?<!sdmx[\s-]?)\bcsv\b/i],
+];
+
+/**
+ * Formats named in a message, in the order they are mentioned ("download it as csv and
+ * excel"); empty when none is named
+ */
+export function detectExportFormats(input: string): ExportFormat[] {
+  return FORMAT_PATTERNS
+    .map(([format, pattern]) => ({ format, position: input.search(pattern) }))
+    .filter(({ position }) => position >= 0)
+    .sort((a, b) => a.position - b.position)
+    .map(({ format }) => format);
+}
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && Object.hasOwn(EXPORT_FORMATS, format);
+}
+
+/**
+ * Fetch the selection again and build the file a download button asked for
+ */
+export async function exportDataset({ request, format }: ExportRequest): Promise<ExportFile> {
+  return buildExportFile(await eurostatClient.fetchDataset(request), format);
+}
+
+export function exportFilename(dataset: string, format: ExportFormat): string {
+  return `${dataset}${EXPORT_FORMATS[format].suffix}`;
+}
+
+export function buildExportFile(result: EurostatResult, format: ExportFormat): ExportFile {
+  const { mimeType } = EXPORT_FORMATS[format];
+  const filename = exportFilename(result.dataset, format);
+
+  switch (format) {
+    case 'csv':
+      return { format, filename, mimeType, url: textUrl(toCsv(result), mimeType) };
+    case 'sdmx-csv':
+      return { format, filename, mimeType, url: textUrl(toSdmxCsv(result), mimeType) };
+    case 'json':
+      return { format, filename, mimeType, url: textUrl(JSON.stringify(toJson(result), null, 2), mimeType) };
+    case 'jsonstat':
+      return { format, filename, mimeType, url: textUrl(JSON.stringify(toJsonStat(result)), mimeType) };
+    case 'xlsx':
+      return { format, filename, mimeType, url: `data:${mimeType};base64,${toBase64(toXlsx(result))}` };
+  }
+}
+
+/* ===================== Formats ===================== */
+
+/**
+ * One row per observation: code and label for every dimension, then value and flag
+ */
+export function exportRows(result: EurostatResult): CellValue[][] {
+  const header = [...result.dimensions.flatMap(d => [d.id, `${d.id}_label`]), 'value', 'flag'];
+  const rows = result.observations.map(obs => [
+    ...result.dimensions.flatMap(d => {
+      const code = obs.dimensions[d.id] ?? '';
+      return [code, code ? categoryText(result, d.id, code) : ''];
+    }),
+    obs.value,
+    obs.status ?? '',
+  ]);
+  return [header, ...rows];
+}
+
+export function toCsv(result: EurostatResult): string {
+  return rowsToCsv(exportRows(result));
+}
+
+/**
+ * SDMX-CSV 1.0 as served by the Eurostat SDMX API: codes only, time as TIME_PERIOD
+ */
+export function toSdmxCsv(result: EurostatResult): string {
+  const dimensions = result.dimensions.filter(d => d.id !== 'time');
+  const dataflow = `ESTAT:${result.dataset.toUpperCase()}(1.0)`;
+
+  const header = ['DATAFLOW', 'LAST UPDATE', ...dimensions.map(d => d.id), 'TIME_PERIOD', 'OBS_VALUE', 'OBS_FLAG'];
+  const rows = result.observations.map(obs => [
+    dataflow,
+    result.updated ?? '',
+    ...dimensions.map(d => obs.dimensions[d.id] ?? ''),
+    obs.dimensions.time ?? '',
+    obs.value,
+    obs.status ?? '',
+  ]);
+  return rowsToCsv([header, ...rows]);
+}
+
+export function toJson(result: EurostatResult) {
+  const [header, ...rows] = exportRows(result);
+  return {
+    dataset: result.dataset,
+    label: result.label,
+    source: result.source ?? 'Eurostat',
+    updated: result.updated ?? null,
+    api: result.url,
+    observations: rows.map(row => Object.fromEntries(header.map((key, i) => [key, row[i]]))),
+  };
+}
+
+/**
+ * JSON-stat 2.0 dataset restricted to the categories that occur in the result
+ */
+export function toJsonStat(result: EurostatResult): JsonStatDataset {
+  const dimensions = result.dimensions.map(d => {
+    const present = new Set(result.observations.map(obs => obs.dimensions[d.id]));
+    return { ...d, categories: d.categories.filter(c => present.has(c.code)) };
+  });
+  const size = dimensions.map(d => d.categories.length);
+  const positions = dimensions.map(d => new Map(d.categories.map((c, i) => [c.code, i])));
+
+  const value: (number | null)[] = new Array(size.reduce((product, n) => product * n, 1)).fill(null);
+  const status: Record<string, string> = {};
+
+  for (const obs of result.observations) {
+    const index = dimensions.reduce(
+      (flat, d, i) => flat * size[i] + (positions[i].get(obs.dimensions[d.id]) ?? 0),
+      0
+    );
+    value[index] = obs.value;
+    if (obs.status) status[index] = obs.status;
+  }
+
+  return {
+    version: '2.0',
+    class: 'dataset',
+    label: result.label,
+    source: result.source,
+    updated: result.updated,
+    id: dimensions.map(d => d.id),
+    size,
+    dimension: Object.fromEntries(dimensions.map(d => [d.id, {
+      label: d.label,
+      category: {
+        index: Object.fromEntries(d.categories.map((c, i) => [c.code, i])),
+        label: Object.fromEntries(d.categories.map(c => [c.code, c.label])),
+      },
+    }])),
+    value,
+    ...(Object.keys(status).length ? { status } : {}),
+    extension: {
+      datasetId: result.dataset,
+      ...(result.raw.extension?.status ? { status: result.raw.extension.status } : {}),
+    },
+  };
+}
+
+export function toXlsx(result: EurostatResult): Uint8Array {
+  return buildXlsx([
+    { name: 'Data', rows: exportRows(result) },
+    {
+      name: 'About',
+      rows: [
+        ['Dataset', result.dataset],
+        ['Title', result.label],
+        ['Source', result.source ?? 'Eurostat'],
+        ['Last update', result.updated ?? ''],
+        ['API query', result.url],
+      ],
+    },
+  ]);
+}
+
+/* ===================== Helpers ===================== */
+
+function rowsToCsv(rows: CellValue[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function textUrl(text: string, mimeType: string): string {
+  return `data:${mimeType};charset=utf-8,${encodeURIComponent(text)}`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,114 @@
+/**
+ * Dataset Search
+ * Ranked search over the metadata catalog. Titles, keywords, dimension labels and
+ * descriptions are tokenized into weighted fields; each query term scores the best
+ * field it occurs in, and whole keyword phrases found in the query add a bonus.
+ */
+
+import { METADATA_CATALOG } from '../data/metadataCatalog';
+import type { DatasetMetadata } from '../data/metadataCatalog';
+
+export interface DatasetHit {
+  meta: DatasetMetadata;
+  score: number;
+  /** Query terms found in the dataset's metadata */
+  matched: string[];
+}
+
+// "what datasets do you have about heat pumps?", "which data is available on gas prices",
+// "find tables on renewables", "list the datasets"
+const SEARCH_RE = /\b(?:what|which|any)\s+(?:\w+\s+)?(?:datasets?|data\s?sets?|tables?|data)\b.*\b(?:have|about|on|cover\w*|available|exists?|there)\b|\b(?:search|find|browse|list|look for)\b.*\b(?:datasets?|data\s?sets?|tables?|data)\b/i;
+
+// "Use dataset nrg_pc_204", the quick reply under each search result
+const SELECT_RE = /\buse\s+(?:the\s+|this\s+)?(?:dataset\s+|table\s+)?nrg_[a-z0-9_]+\b/i;
+
+// Words of the request itself rather than of the topic searched for
+const QUERY_STOPWORDS = new Set([
+  'what', 'which', 'any', 'do', 'does', 'you', 'we', 'i', 'me', 'have', 'has', 'is', 'are', 'there',
+  'about', 'on', 'for', 'of', 'the', 'a', 'an', 'in', 'to', 'with', 'and', 'or', 'can', 'get', 'some',
+  'data', 'dataset', 'datasets', 'set', 'sets', 'table', 'tables', 'search', 'find', 'browse', 'list',
+  'look', 'available', 'exist', 'exists', 'cover', 'covers', 'covering', 'related', 'show', 'energy', 'eurostat',
+]);
+
+const FIELD_WEIGHTS = { code: 5, title: 3, keywords: 2, dimensions: 1, description: 1 };
+const PHRASE_BONUS = 2;
+const MAX_RESULTS = 5;
+
+interface IndexedDataset {
+  meta: DatasetMetadata;
+  fields: { weight: number; terms: Set<string> }[];
+  phrases: string[];
+}
+
+const INDEX: IndexedDataset[] = METADATA_CATALOG.map(meta => ({
+  meta,
+  fields: [
+    { weight: FIELD_WEIGHTS.code, terms: new Set([meta.code]) },
+    { weight: FIELD_WEIGHTS.title, terms: new Set(tokenize(meta.title)) },
+    { weight: FIELD_WEIGHTS.keywords, terms: new Set(meta.keywords.flatMap(tokenize)) },
+    { weight: FIELD_WEIGHTS.dimensions, terms: new Set(meta.dimensions.flatMap(d => tokenize(`${d.label} ${d.note ?? ''}`))) },
+    { weight: FIELD_WEIGHTS.description, terms: new Set(tokenize(meta.description)) },
+  ],
+  phrases: meta.keywords.filter(keyword => keyword.includes(' ')).map(keyword => tokenize(keyword).join(' ')),
+}));
+
+export function isDatasetSearch(input: string): boolean {
+  return SEARCH_RE.test(input);
+}
+
+export function isDatasetSelection(input: string): boolean {
+  return SELECT_RE.test(input);
+}
+
+/**
+ * Topic words of a search request, as typed ("heat pumps" for "what datasets do you have about heat pumps?")
+ */
+export function searchTerms(input: string): string[] {
+  return words(input).filter(word => !QUERY_STOPWORDS.has(word));
+}
+
+/**
+ * Catalog datasets matching the terms, best first; every dataset when there are no terms
+ */
+export function searchDatasets(terms: string[], limit = MAX_RESULTS): DatasetHit[] {
+  if (terms.length === 0) {
+    return INDEX.slice(0, limit).map(({ meta }) => ({ meta, score: 0, matched: [] }));
+  }
+
+  const query = terms.map(stem);
+  const phrase = ` ${query.join(' ')} `;
+
+  return INDEX
+    .map(({ meta, fields, phrases }) => {
+      const matched: string[] = [];
+      let score = 0;
+      query.forEach((term, i) => {
+        const weight = Math.max(0, ...fields.filter(f => f.terms.has(term)).map(f => f.weight));
+        if (weight > 0) {
+          score += weight;
+          matched.push(terms[i]);
+        }
+      });
+      score += phrases.filter(p => phrase.includes(` ${p} `)).length * PHRASE_BONUS;
+      return { meta, score, matched };
+    })
+    .filter(hit => hit.score > 0)
+    // Stable sort keeps catalog order among equal scores
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/* ===================== Tokenizing ===================== */
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
+
+function tokenize(text: string): string[] {
+  return words(text).filter(word => !QUERY_STOPWORDS.has(word)).map(stem);
+}
+
+// Plural "s" only: "pumps" → "pump", "prices" → "price", but "gas" and "process" stay
+function stem(word: string): string {
+  return word.length > 3 && /[^su]s$/.test(word) ? word.slice(0, -1) : word;
+}
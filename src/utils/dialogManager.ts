@@ -0,0 +1,309 @@
+/**
+ * Dialog Manager
+ * Multi-turn slot filling for data queries. Sits between processAndRespond and
+ * resolveResponse: keeps a pending query frame, asks for one missing slot at a time
+ * and merges the entities of the next user message into the frame. Asks which intent
+ * was meant when the calibrated confidence leaves it open.
+ */
+
+import { planQuery } from './queryPlanner';
+import { slotPrompts } from '../data/responses';
+import { AMBIGUOUS_ISO2 } from '../data/eurostatCodes';
+import { refinedSlots } from './queryRefinement';
+import { findGlossaryEntry } from './metadataLookup';
+import { isDatasetSearch, isDatasetSelection } from './datasetSearch';
+import { clarificationFor, clarificationResponse } from './clarification';
+import conversationContext from '../state/conversationContext';
+import type { QuerySlot } from './queryPlanner';
+import type { Entities } from './entityExtractor';
+import type { Intent, Resolution } from './intentDetection';
+import type { ResolverResponse } from './responseResolver';
+
+export interface QueryFrame {
+  /** Intent to resume once every slot is filled */
+  intent: Intent;
+  /** Entities accumulated over the turns of this frame */
+  entities: Entities;
+  /** Slot the last bot message asked for */
+  awaiting: QuerySlot;
+  /** Consecutive replies that did not fill anything */
+  misses: number;
+}
+
+export type DialogOutcome =
+  | { kind: 'respond'; response: ResolverResponse }
+  | { kind: 'resolve'; resolution: Resolution; entities: Entities };
+
+// Intents that start a slot-filling frame when their query is incomplete
+const FRAME_INTENTS = new Set<Intent>(['data_query', 'viz_request', 'download_request']);
+
+// Intents that present a query's result in another form; without a product of their own
+// they apply to the active query, including any filters the message adds ("plot it for France",
+// "compare with Spain")
+const OUTPUT_INTENTS = new Set<Intent>(['viz_request', 'download_request', 'compare_request']);
+
+// Export vocabulary that turns a data query into a download ("download gas prices in Italy")
+const DOWNLOAD_HINT_RE = /\b(download|export|csv|xlsx?|excel|json|sdmx)\b/i;
+
+// Chart vocabulary that turns a data query into a chart ("show me a chart of …"); the
+// viz_request score alone can't tell it apart from a plain "show me …"
+const CHART_HINT_RE = /\b(chart|graph|plot|visuali[sz]e|trend line|line chart|bar chart)s?\b/i;
+
+// Wording that asks what something means or how it is produced rather than for its values;
+// the classifier reads most of these as data queries because they name a measure
+const DEFINITION_RE = /\b(definition|define|meaning|what is meant by|what does .+ (?:mean|stand for)|glossary|metadata|methodology)\b|\bhow (?:is|are|do(?:es)? \w+) .+ (?:calculated|computed|measured|derived|estimated)\b/i;
+
+// "what is energy intensity" asks for a definition when no country or period narrows it down
+const WHAT_IS_RE = /^\s*what(?:'s| is| are)\b/i;
+
+// Intents that leave the pending question behind instead of answering it
+const ABANDON_INTENTS = new Set<Intent>([
+  'greeting', 'farewell', 'thanks', 'negative', 'help', 'troubleshooting',
+  'metadata_request', 'download_request', 'command', 'smalltalk',
+]);
+
+// Intents a follow-up like "and for 2019?" tends to be classified as
+const REFINE_INTENTS = new Set<Intent>([
+  'filter_change', 'time_change', 'statement', 'question', 'command', 'ambiguous', 'data_query',
+]);
+
+// Unanswered re-asks before the frame is dropped
+const MAX_MISSES = 1;
+
+const SLOT_LABELS: Record<QuerySlot, string> = {
+  product: 'energy type',
+  geo: 'country or region',
+  time: 'period',
+  unit: 'unit',
+};
+
+class DialogManager {
+  private frame: QueryFrame | null = null;
+
+  get pending(): QueryFrame | null {
+    return this.frame;
+  }
+
+  /**
+   * Decide whether this turn answers a pending question, opens a new frame,
+   * or goes straight to the response resolver.
+   */
+  handle(turn: Resolution, entities: Entities, input = ''): DialogOutcome {
+    const resolution = withMetadataIntent(withOutputIntent(turn, input), entities, input);
+
+    // "Use dataset …" seeds the active query with a search result
+    if (isDatasetSelection(input)) {
+      this.frame = null;
+      return { kind: 'resolve', resolution: { ...resolution, primary: 'command' }, entities };
+    }
+
+    // Definitions, dataset searches and dataset metadata need no slots, and leave any
+    // pending question behind
+    if (resolution.primary === 'metadata_request') {
+      this.frame = null;
+      return { kind: 'resolve', resolution, entities };
+    }
+
+    if (this.frame) {
+      const outcome = this.continueFrame(this.frame, resolution, entities);
+      if (outcome) return outcome;
+    }
+
+    if (OUTPUT_INTENTS.has(resolution.primary) && !filledSlots(entities).has('product')) {
+      // "Chart it" / "download it" / "compare with …" work on the active query; a download
+      // with nothing to work on explains the export options instead of asking for an energy type
+      if (conversationContext.activeQuery || resolution.primary === 'download_request') {
+        return { kind: 'resolve', resolution, entities };
+      }
+    }
+
+    const refinement = conversationContext.activeQuery ? refinementIntent(resolution, entities) : null;
+    if (refinement) {
+      return { kind: 'resolve', resolution: { ...resolution, primary: refinement }, entities };
+    }
+
+    // A close call between two intents is asked about, unless the wording already settled it
+    const clarification = resolution.primary === turn.primary ? clarificationFor(resolution, entities, input) : null;
+    if (clarification) {
+      return { kind: 'respond', response: clarificationResponse(clarification) };
+    }
+
+    if (FRAME_INTENTS.has(resolution.primary) || isDataQuestion(resolution, entities)) {
+      return this.evaluate(resolution.primary === 'question' ? 'data_query' : resolution.primary, resolution, entities, 0);
+    }
+
+    return { kind: 'resolve', resolution, entities };
+  }
+
+  reset(): void {
+    this.frame = null;
+  }
+
+  /** Put back the pending question of a conversation switched to */
+  restore(frame: QueryFrame | null): void {
+    this.frame = frame;
+  }
+
+  private continueFrame(frame: QueryFrame, resolution: Resolution, entities: Entities): DialogOutcome | null {
+    const filled = filledSlots(entities);
+
+    // A new product while we wait for something else is a fresh question, not an answer
+    const startsOver = filled.has('product') && frame.awaiting !== 'product';
+    if (startsOver || (filled.size === 0 && ABANDON_INTENTS.has(resolution.primary))) {
+      this.frame = null;
+      return null;
+    }
+
+    if (filled.size === 0) {
+      if (frame.misses >= MAX_MISSES) {
+        this.frame = null;
+        return null;
+      }
+      this.frame = { ...frame, misses: frame.misses + 1 };
+      return { kind: 'respond', response: this.ask(frame.awaiting, frame.entities, true) };
+    }
+
+    return this.evaluate(frame.intent, resolution, mergeEntities(frame.entities, entities), frame.misses);
+  }
+
+  private evaluate(intent: Intent, resolution: Resolution, entities: Entities, misses: number): DialogOutcome {
+    const plan = planQuery(entities);
+    const next = plan.missing[0];
+
+    if (!next) {
+      this.frame = null;
+      return { kind: 'resolve', resolution: { ...resolution, primary: intent }, entities };
+    }
+
+    this.frame = { intent, entities, awaiting: next, misses };
+    return { kind: 'respond', response: this.ask(next, entities, false) };
+  }
+
+  private ask(slot: QuerySlot, entities: Entities, repeat: boolean): ResolverResponse {
+    const prompt = slotPrompts[slot];
+    const known = summarizeEntities(entities);
+    const lead = repeat
+      ? `Sorry, I didn't catch a ${SLOT_LABELS[slot]} there.`
+      : known ? `Got it: ${known}.` : '';
+
+    return {
+      text: lead ? `${lead} ${prompt.text}` : prompt.text,
+      type: 'text',
+      metadata: {
+        source: 'dialog_manager',
+        suggestions: prompt.suggestions
+      }
+    };
+  }
+}
+
+/* ===================== Helpers ===================== */
+
+function isDataQuestion(resolution: Resolution, entities: Entities): boolean {
+  return resolution.primary === 'question' && entities.measure.measures.length > 0;
+}
+
+function withOutputIntent(resolution: Resolution, input: string): Resolution {
+  if (resolution.primary !== 'data_query') return resolution;
+  if (DOWNLOAD_HINT_RE.test(input)) return { ...resolution, primary: 'download_request' };
+  if (CHART_HINT_RE.test(input)) return { ...resolution, primary: 'viz_request' };
+  return resolution;
+}
+
+/**
+ * Definition and methodology questions, dataset searches, glossary terms asked about on their
+ * own, and dataset codes named without a country or period ("tell me about nrg_bal_c") go to
+ * the metadata handler
+ */
+function withMetadataIntent(resolution: Resolution, entities: Entities, input: string): Resolution {
+  if (resolution.primary === 'metadata_request' || OUTPUT_INTENTS.has(resolution.primary)) return resolution;
+
+  const filled = filledSlots(entities);
+  const unscoped = !filled.has('geo') && !filled.has('time');
+  const asksMetadata = DEFINITION_RE.test(input)
+    || isDatasetSearch(input)
+    || (unscoped && WHAT_IS_RE.test(input) && findGlossaryEntry(input) !== null)
+    || (unscoped && !!entities.dataset.tables?.length);
+
+  return asksMetadata ? { ...resolution, primary: 'metadata_request' } : resolution;
+}
+
+/**
+ * A message that only names new values for an existing query ("what about Germany?")
+ * is routed to the modifier handlers instead of starting a query of its own
+ */
+function refinementIntent(resolution: Resolution, entities: Entities): 'filter_change' | 'time_change' | null {
+  if (entities.measure.measures.length || entities.dataset.tables?.length) return null;
+  const slots = refinedSlots(entities);
+  if (slots.length === 0) return null;
+  if (resolution.modifiers.length === 0 && !REFINE_INTENTS.has(resolution.primary)) return null;
+  return slots.every(slot => slot === 'time') ? 'time_change' : 'filter_change';
+}
+
+function filledSlots(entities: Entities): Set<QuerySlot> {
+  const slots = new Set<QuerySlot>();
+  if (entities.measure.products.length || entities.measure.measures.length) slots.add('product');
+  const { countries, iso2, groups } = entities.geography;
+  if (countries.length || groups.length || iso2.some(code => !AMBIGUOUS_ISO2.has(code))) slots.add('geo');
+  if (entities.time.years.length || entities.time.ranges.length || entities.time.relative) slots.add('time');
+  if (entities.filters.units.length || entities.filters.perCapita) slots.add('unit');
+  return slots;
+}
+
+function summarizeEntities(entities: Entities): string {
+  const subject = [...entities.measure.products, ...entities.measure.measures, ...entities.filters.sectors].join(' ');
+  const where = [...entities.geography.countries, ...entities.geography.groups.map(g => g.toUpperCase())].join(', ');
+  const when = [...entities.time.years.map(String), ...entities.time.ranges.map(r => `${r[0]}-${r[1]}`)].join(', ');
+  return [subject, where && `in ${where}`, when && `for ${when}`].filter(Boolean).join(' ');
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/**
+ * Combine the entities of a follow-up message with those already collected
+ */
+export function mergeEntities(base: Entities, update: Entities): Entities {
+  const uniqRanges = new Map([...base.time.ranges, ...update.time.ranges].map(r => [`${r[0]}-${r[1]}`, r]));
+  const tables = union(base.dataset.tables ?? [], update.dataset.tables ?? []);
+
+  return {
+    time: {
+      years: union(base.time.years, update.time.years),
+      ranges: Array.from(uniqRanges.values()),
+      quarters: [...base.time.quarters, ...update.time.quarters],
+      months: union(base.time.months, update.time.months),
+      frequency: union(base.time.frequency, update.time.frequency),
+      relative: update.time.relative ?? base.time.relative,
+    },
+    geography: {
+      iso2: union(base.geography.iso2, update.geography.iso2),
+      countries: union(base.geography.countries, update.geography.countries),
+      groups: union(base.geography.groups, update.geography.groups),
+      nuts: union(base.geography.nuts ?? [], update.geography.nuts ?? []),
+    },
+    compare: {
+      pair: update.compare.pair ?? base.compare.pair,
+      ranking: update.compare.ranking ?? base.compare.ranking,
+    },
+    filters: {
+      sectors: union(base.filters.sectors, update.filters.sectors),
+      units: union(base.filters.units, update.filters.units),
+      perCapita: base.filters.perCapita || update.filters.perCapita,
+    },
+    measure: {
+      measures: union(base.measure.measures, update.measure.measures),
+      products: union(base.measure.products, update.measure.products),
+    },
+    dataset: {
+      tables: tables.length ? tables : undefined,
+      apiLinks: base.dataset.apiLinks ?? update.dataset.apiLinks,
+    },
+    numbers: union(base.numbers ?? [], update.numbers ?? []),
+  };
+}
+
+export const dialogManager = new DialogManager();
+
+export default dialogManager;
@@ -19,7 +19,8 @@ export interface DiagnosticInfo {
     userMessage: string;
     processedMessage: string;
     detectedIntent: string;
-    confidence: number;
+    /** Calibrated probability of the detected intent; null for turns recorded before calibration */
+    confidence: number | null;
   }>;
 }
 
@@ -43,7 +44,7 @@ export function gatherDiagnosticInfo(): DiagnosticInfo {
       userMessage: entry.raw,
       processedMessage: entry.cleaned,
       detectedIntent: entry.resolution.primary,
-      confidence: entry.resolution.scores[entry.resolution.primary] || 0
+      confidence: entry.resolution.confidence ?? null
     }))
   };
 }
@@ -67,7 +68,7 @@ ${info.chatHistory.map(msg =>
   `${msg.number}. [${msg.timestamp}]
    User Input: "${msg.userMessage}"
    Processed: "${msg.processedMessage}"
-   Detected Intent: ${msg.detectedIntent} (confidence: ${msg.confidence})`
+   Detected Intent: ${msg.detectedIntent} (confidence: ${msg.confidence === null ? 'unknown' : `${Math.round(msg.confidence * 100)}%`})`
 ).join('\n\n')}
   `.trim();
 }
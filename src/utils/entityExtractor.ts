@@ -46,7 +46,7 @@ export interface FilterEntities {
 }
 
 export interface MeasureEntities {
-  measures: string[];     // consumption, prices, emissions, capacity, demand, intensity, efficiency, etc.
+  measures: string[];     // consumption, prices, emissions, capacity, demand, intensity, efficiency, share, etc.
   products: string[];     // electricity, gas, oil, coal, renewables, wind, solar, hydro, biomass, hydrogen, nuclear, heat
 }
 
@@ -100,7 +100,7 @@ export function extractEntities(raw: string, opts?: ExtractorOptions): Entities
   // Measures & products
   const MEASURES = new Set([
     'consumption','production','generation','price','prices','tariff','tariffs',
-    'emission','emissions','capacity','demand','intensity','efficiency','load','stock','stocks','storage',
+    'emission','emissions','capacity','demand','intensity','efficiency','load','stock','stocks','storage','share',
     ...(opts?.extraMeasures ?? []).map(s => s.toLowerCase())
   ]);
   const PRODUCTS = new Set([
@@ -0,0 +1,199 @@
+/**
+ * Eurostat Client
+ * Typed client for the Eurostat dissemination API (JSON-stat 2.0 responses).
+ * The transport is pluggable: live API, a local fixture server (same URL scheme)
+ * or recorded JSON-stat files bundled with the app.
+ */
+
+import { EUROSTAT_API_BASE } from '../data/eurostatCodes';
+import { decodeObservations, describeDimensions, isJsonStatDataset } from './jsonStat';
+import type { DimensionInfo, JsonStatDataset, Observation } from './jsonStat';
+
+export interface EurostatRequest {
+  /** Dataset code, e.g. 'nrg_bal_c' */
+  dataset: string;
+  /** Dimension id → category codes, e.g. { geo: ['DE', 'FR'], siec: ['E7000'] } */
+  filters: Record<string, string[]>;
+  sinceTimePeriod?: string;
+  untilTimePeriod?: string;
+  lastTimePeriod?: number;
+  lang?: 'EN' | 'FR' | 'DE';
+}
+
+export interface EurostatResult {
+  dataset: string;
+  label: string;
+  source?: string;
+  updated?: string;
+  /** Public dissemination API URL reproducing this request */
+  url: string;
+  request: EurostatRequest;
+  dimensions: DimensionInfo[];
+  observations: Observation[];
+  raw: JsonStatDataset;
+}
+
+/**
+ * A transport receives the request and the URL built for it and resolves with the raw
+ * JSON payload. HTTP transports use the URL; in-memory transports use the request.
+ */
+export type EurostatTransport = (request: EurostatRequest, url: string) => Promise<unknown>;
+
+export class EurostatApiError extends Error {
+  readonly dataset: string;
+  readonly status?: number;
+
+  constructor(message: string, dataset: string, status?: number) {
+    super(message);
+    this.name = 'EurostatApiError';
+    this.dataset = dataset;
+    this.status = status;
+  }
+}
+
+/* ===================== URL building ===================== */
+
+export function buildEurostatUrl(request: EurostatRequest, baseUrl = EUROSTAT_API_BASE): string {
+  const params = new URLSearchParams();
+  params.append('format', 'JSON');
+  params.append('lang', request.lang ?? 'EN');
+
+  for (const [dimension, codes] of Object.entries(request.filters)) {
+    for (const code of codes) params.append(dimension, code);
+  }
+  if (request.sinceTimePeriod) params.append('sinceTimePeriod', request.sinceTimePeriod);
+  if (request.untilTimePeriod) params.append('untilTimePeriod', request.untilTimePeriod);
+  if (request.lastTimePeriod) params.append('lastTimePeriod', String(request.lastTimePeriod));
+
+  return `${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(request.dataset)}?${params.toString()}`;
+}
+
+/* ===================== Transports ===================== */
+
+/**
+ * Fetch-based transport for the live API or the local fixture server
+ */
+export function createHttpTransport(fetchImpl: typeof fetch = (...args) => fetch(...args)): EurostatTransport {
+  return async (request, url) => {
+    const response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new EurostatApiError(
+        apiErrorLabel(payload) ?? `Eurostat API responded with HTTP ${response.status}`,
+        request.dataset,
+        response.status
+      );
+    }
+    return payload;
+  };
+}
+
+/**
+ * In-memory transport over recorded JSON-stat files keyed by dataset code.
+ * Without an explicit map, the bundled fixtures are loaded lazily.
+ */
+export function createFixtureTransport(fixtures?: Record<string, unknown>): EurostatTransport {
+  return async (request) => {
+    const source = fixtures ?? (await import('../data/eurostatFixtures')).default;
+    const payload = source[request.dataset];
+    if (!payload) {
+      throw new EurostatApiError(`No fixture recorded for dataset ${request.dataset}`, request.dataset, 404);
+    }
+    return payload;
+  };
+}
+
+function apiErrorLabel(payload: unknown): string | undefined {
+  if (!payload || typeof payload !== 'object' || !('error' in payload)) return undefined;
+  const error = (payload as { error: unknown }).error;
+  const first = Array.isArray(error) ? error[0] : error;
+  return first && typeof first === 'object' && 'label' in first ? String(first.label) : undefined;
+}
+
+/* ===================== Client ===================== */
+
+export interface EurostatClientOptions {
+  transport?: EurostatTransport;
+  /** Base URL handed to the transport (e.g. the local fixture server) */
+  baseUrl?: string;
+}
+
+export class EurostatClient {
+  private transport: EurostatTransport;
+  private baseUrl: string;
+
+  constructor(options: EurostatClientOptions = {}) {
+    this.transport = options.transport ?? createHttpTransport();
+    this.baseUrl = options.baseUrl ?? EUROSTAT_API_BASE;
+  }
+
+  setTransport(transport: EurostatTransport, baseUrl = this.baseUrl): void {
+    this.transport = transport;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Fetch a dataset slice and decode it into labelled observations.
+   * Filters are re-applied client-side so that whole-cube fixtures behave like the API.
+   */
+  async fetchDataset(request: EurostatRequest): Promise<EurostatResult> {
+    const payload = await this.transport(request, buildEurostatUrl(request, this.baseUrl));
+
+    const apiError = apiErrorLabel(payload);
+    if (apiError) throw new EurostatApiError(apiError, request.dataset);
+    if (!isJsonStatDataset(payload)) {
+      throw new EurostatApiError('Response is not a JSON-stat 2.0 dataset', request.dataset);
+    }
+
+    return {
+      dataset: request.dataset,
+      label: payload.label ?? request.dataset,
+      source: payload.source,
+      updated: payload.updated,
+      url: buildEurostatUrl(request),
+      request,
+      dimensions: describeDimensions(payload),
+      observations: selectObservations(decodeObservations(payload), request),
+      raw: payload,
+    };
+  }
+}
+
+export function selectObservations(observations: Observation[], request: EurostatRequest): Observation[] {
+  const { sinceTimePeriod: since, untilTimePeriod: until, lastTimePeriod } = request;
+
+  let selected = observations.filter(obs => {
+    for (const [dimension, codes] of Object.entries(request.filters)) {
+      const code = obs.dimensions[dimension];
+      if (code !== undefined && codes.length > 0 && !codes.includes(code)) return false;
+    }
+    const time = obs.dimensions.time;
+    if (time !== undefined) {
+      if (since && time.slice(0, since.length) < since) return false;
+      if (until && time.slice(0, until.length) > until) return false;
+    }
+    return obs.value !== null;
+  });
+
+  if (lastTimePeriod) {
+    const periods = Array.from(new Set(selected.map(obs => obs.dimensions.time))).sort();
+    const kept = new Set(periods.slice(-lastTimePeriod));
+    selected = selected.filter(obs => kept.has(obs.dimensions.time));
+  }
+
+  return selected;
+}
+
+/* ===================== Default instance ===================== */
+
+// VITE_EUROSTAT_TRANSPORT=fixtures serves bundled recordings; VITE_EUROSTAT_API_BASE points
+// the HTTP transport elsewhere, e.g. http://localhost:8787/data for the fixture server.
+const env: Partial<Record<string, string>> = import.meta.env ?? {};
+
+export const eurostatClient = new EurostatClient({
+  transport: env.VITE_EUROSTAT_TRANSPORT === 'fixtures' ? createFixtureTransport() : createHttpTransport(),
+  baseUrl: env.VITE_EUROSTAT_API_BASE || EUROSTAT_API_BASE,
+});
+
+export default eurostatClient;
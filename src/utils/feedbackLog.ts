@@ -0,0 +1,216 @@
+/**
+ * Feedback Log
+ * Thumbs up/down on bot answers and, after a thumbs down, the intent the user actually
+ * meant. Each entry keeps the text as typed, the intent detected and the correction, so
+ * the log can be exported as labeled examples for tuning intent detection. Stored locally
+ * next to the conversations but not part of them: clearing a chat keeps its feedback.
+ */
+
+import localforage from 'localforage';
+import chatInsightsStore from '../state/globalChatState';
+import { processMessage } from './messageProcessor';
+import { splitClauses } from './clauseSplitter';
+import { textUrl } from './dataExport';
+import type { Intent, Resolution } from './intentDetection';
+import type { ChatMessage } from './messageModel';
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackEntry {
+  /** ChatInsightEntry id of the rated answer; one entry per answer, a new rating replaces it */
+  turnId: string;
+  /** The bot reply rated */
+  messageId: string;
+  rating: FeedbackRating;
+  /** The question as typed, and as intent detection saw it */
+  raw: string;
+  cleaned: string;
+  detectedIntent: Intent;
+  /** Offered by the "what did you mean?" picker, most likely first */
+  alternatives: Intent[];
+  /** Picked after a thumbs down */
+  correctedIntent?: Intent;
+  ratedAt: string;
+}
+
+/** One line of the training data export */
+export interface LabeledExample {
+  text: string;
+  intent: Intent;
+  detectedIntent: Intent;
+  /** confirmed: thumbs up on the detected intent · corrected: picked after a thumbs down */
+  source: 'confirmed' | 'corrected';
+}
+
+export interface FeedbackFile {
+  filename: string;
+  mimeType: string;
+  /** data: URL holding the file contents */
+  url: string;
+}
+
+/** How intents are named in the picker */
+export const INTENT_LABELS: Record<Intent, string> = {
+  greeting: 'Saying hello',
+  farewell: 'Saying goodbye',
+  thanks: 'Saying thanks',
+  affirmative: 'Saying yes',
+  negative: 'Saying no',
+  help: 'Asking for help',
+  troubleshooting: 'Reporting a problem',
+  download_request: 'Downloading data',
+  viz_request: 'Seeing a chart',
+  data_query: 'Looking up data',
+  filter_change: 'Changing the country or filter',
+  time_change: 'Changing the period',
+  metadata_request: 'Asking about a dataset',
+  compare_request: 'Comparing countries or years',
+  command: 'Giving an instruction',
+  question: 'Asking a general question',
+  smalltalk: 'Just chatting',
+  ambiguous: 'Something unclear',
+  statement: 'Telling you something',
+  invalid: 'Nothing in particular',
+};
+
+// Detector internals rather than something a user would mean
+const NOT_OFFERED = new Set<Intent>(['ambiguous', 'invalid', 'statement']);
+
+// Offered after the scored intents, so the picker is never empty
+const COMMON_INTENTS: Intent[] = ['data_query', 'viz_request', 'compare_request', 'download_request', 'metadata_request', 'help'];
+
+const FEEDBACK_LOG_KEY = 'feedbackLog';
+const MAX_ENTRIES = 2000;
+
+/**
+ * Intents to offer instead of the detected one: those the detector also scored, highest
+ * first, then the common requests
+ */
+export function intentAlternatives(resolution: Resolution, limit = 4): Intent[] {
+  const scored = (Object.entries(resolution.scores) as [Intent, number][])
+    .filter(([intent, score]) => score > 0 && intent !== resolution.primary && !NOT_OFFERED.has(intent))
+    .sort((a, b) => b[1] - a[1])
+    .map(([intent]) => intent);
+  const common = COMMON_INTENTS.filter(intent => intent !== resolution.primary && !scored.includes(intent));
+  return [...scored, ...common].slice(0, limit);
+}
+
+/**
+ * Rate the answer to a question. The turn's insight entry is only kept for this page load;
+ * for answers restored from storage the question is run through detection again.
+ */
+export function createFeedbackEntry(question: ChatMessage, reply: ChatMessage, rating: FeedbackRating): FeedbackEntry | null {
+  if (!reply.turnId) return null;
+  const insight = chatInsightsStore.entries.find(entry => entry.id === reply.turnId);
+  let cleaned: string;
+  let resolution: Resolution;
+  if (insight) {
+    ({ cleaned, resolution } = insight);
+  } else {
+    const processed = processMessage(question.text);
+    cleaned = processed.preprocessed.cleaned;
+    resolution = processed.resolution;
+  }
+
+  return {
+    turnId: reply.turnId,
+    messageId: reply.id,
+    rating,
+    raw: question.text,
+    cleaned,
+    detectedIntent: resolution.primary,
+    alternatives: intentAlternatives(resolution),
+    ratedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Examples worth training on: confirmed and corrected intents. A thumbs down without a
+ * correction only says what the text is not, so it is left out, and so is a compound
+ * message: its clauses were answered one by one, and one intent cannot label them all.
+ */
+export function toLabeledExamples(entries: FeedbackEntry[]): LabeledExample[] {
+  return entries.flatMap((entry): LabeledExample[] => {
+    if (splitClauses(entry.raw).length > 1) return [];
+    if (entry.rating === 'up') {
+      return [{ text: entry.raw, intent: entry.detectedIntent, detectedIntent: entry.detectedIntent, source: 'confirmed' }];
+    }
+    return entry.correctedIntent
+      ? [{ text: entry.raw, intent: entry.correctedIntent, detectedIntent: entry.detectedIntent, source: 'corrected' }]
+      : [];
+  });
+}
+
+/**
+ * Labeled examples as newline-delimited JSON, one example per line
+ */
+export function buildFeedbackFile(entries: FeedbackEntry[]): FeedbackFile {
+  const lines = toLabeledExamples(entries).map(example => JSON.stringify(example));
+  const mimeType = 'application/x-ndjson';
+  return {
+    filename: `enchatbot-intent-feedback-${new Date().toISOString().slice(0, 10)}.jsonl`,
+    mimeType,
+    url: textUrl(lines.length > 0 ? `${lines.join('\n')}\n` : '', mimeType),
+  };
+}
+
+export class FeedbackLog {
+  static async list(): Promise<FeedbackEntry[]> {
+    try {
+      const stored = await localforage.getItem<unknown>(FEEDBACK_LOG_KEY);
+      return Array.isArray(stored) ? stored.filter(isFeedbackEntry) : [];
+    } catch (error) {
+      console.error('Failed to load feedback log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a rating, replacing an earlier one of the same answer. Returns the whole log.
+   */
+  static async rate(entry: FeedbackEntry): Promise<FeedbackEntry[]> {
+    const entries = (await FeedbackLog.list()).filter(existing => existing.turnId !== entry.turnId);
+    return FeedbackLog.write([...entries, entry]);
+  }
+
+  /**
+   * Record the intent the user meant by a question whose answer got a thumbs down
+   */
+  static async correct(turnId: string, intent: Intent): Promise<FeedbackEntry[]> {
+    const entries = await FeedbackLog.list();
+    return FeedbackLog.write(entries.map(entry => (
+      entry.turnId === turnId && entry.rating === 'down' ? { ...entry, correctedIntent: intent } : entry
+    )));
+  }
+
+  static async clear(): Promise<void> {
+    try {
+      await localforage.removeItem(FEEDBACK_LOG_KEY);
+    } catch (error) {
+      console.error('Failed to clear feedback log:', error);
+    }
+  }
+
+  // The oldest entries go once the log is full
+  private static async write(entries: FeedbackEntry[]): Promise<FeedbackEntry[]> {
+    const kept = entries.slice(-MAX_ENTRIES);
+    try {
+      await localforage.setItem(FEEDBACK_LOG_KEY, kept);
+    } catch (error) {
+      console.error('Failed to save feedback:', error);
+    }
+    return kept;
+  }
+}
+
+function isFeedbackEntry(value: unknown): value is FeedbackEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<FeedbackEntry>;
+  return typeof entry.turnId === 'string'
+    && typeof entry.raw === 'string'
+    && (entry.rating === 'up' || entry.rating === 'down')
+    && typeof entry.detectedIntent === 'string'
+    && Array.isArray(entry.alternatives);
+}
+
+export default FeedbackLog;
@@ -0,0 +1,168 @@
+/**
+ * Intent Classifier
+ * A multinomial naive Bayes classifier over word unigrams and bigrams, trained from the
+ * labeled corpus in data/intentCorpus.json. It catches phrasings the hand-weighted rules
+ * miss; resolveIntents blends its probabilities into the rule scores. The trained model
+ * is plain JSON (data/intentModel.json), written by `npm run train:intents`.
+ */
+
+import shippedModel from '../data/intentModel.json';
+import type { Intent } from './intentDetection';
+
+export interface LabeledText {
+  text: string;
+  intent: Intent;
+}
+
+export interface IntentModel {
+  version: 1;
+  kind: 'multinomial-naive-bayes';
+  /** Longest n-gram used as a feature */
+  ngrams: number;
+  /** Additive (Laplace) smoothing */
+  alpha: number;
+  labels: Intent[];
+  /** log P(intent) */
+  priors: Record<string, number>;
+  /** log P(feature | intent), for the features seen with that intent */
+  likelihoods: Record<string, Record<string, number>>;
+  /** log P(feature | intent) for vocabulary features never seen with that intent */
+  unseen: Record<string, number>;
+  examples: number;
+  trainedAt: string;
+}
+
+export interface TrainOptions {
+  ngrams?: number;
+  alpha?: number;
+}
+
+export type IntentProbabilities = Partial<Record<Intent, number>>;
+
+export const MODEL_VERSION = 1;
+
+// Four decimals keep the model file small without changing any decision
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+/* ===================== Features ===================== */
+
+/**
+ * Words and word pairs of a message. Years and other numbers become placeholders so that
+ * "gas in 2019" and "gas in 2021" count as the same evidence.
+ */
+export function extractFeatures(text: string, ngrams = 2): string[] {
+  const normalized = (text ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[‘’]/g, "'");
+  const words = (normalized.match(/[\p{L}\p{N}']+|\?/gu) ?? [])
+    .map(word => (/^(19|20)\d{2}$/.test(word) ? '<year>' : /^\d+$/.test(word) ? '<num>' : word.replace(/'/g, '')))
+    .filter(Boolean);
+
+  const features: string[] = [];
+  for (let n = 1; n <= ngrams; n++) {
+    for (let i = 0; i + n <= words.length; i++) features.push(words.slice(i, i + n).join(' '));
+  }
+  return features;
+}
+
+/* ===================== Training & inference ===================== */
+
+export function trainIntentModel(examples: LabeledText[], options: TrainOptions = {}): IntentModel {
+  const ngrams = options.ngrams ?? 2;
+  const alpha = options.alpha ?? 0.5;
+  const counts = new Map<Intent, Map<string, number>>();
+  const documents = new Map<Intent, number>();
+  const vocabulary = new Set<string>();
+
+  examples.forEach(({ text, intent }) => {
+    documents.set(intent, (documents.get(intent) ?? 0) + 1);
+    const featureCounts = counts.get(intent) ?? new Map<string, number>();
+    extractFeatures(text, ngrams).forEach(feature => {
+      featureCounts.set(feature, (featureCounts.get(feature) ?? 0) + 1);
+      vocabulary.add(feature);
+    });
+    counts.set(intent, featureCounts);
+  });
+
+  const labels = [...documents.keys()].sort();
+  const priors: Record<string, number> = {};
+  const likelihoods: Record<string, Record<string, number>> = {};
+  const unseen: Record<string, number> = {};
+
+  labels.forEach(intent => {
+    const featureCounts = counts.get(intent) ?? new Map<string, number>();
+    const total = [...featureCounts.values()].reduce((sum, count) => sum + count, 0);
+    const denominator = total + alpha * vocabulary.size;
+    priors[intent] = round(Math.log((documents.get(intent) ?? 0) / examples.length));
+    unseen[intent] = round(Math.log(alpha / denominator));
+    likelihoods[intent] = Object.fromEntries(
+      [...featureCounts.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([feature, count]) => [feature, round(Math.log((count + alpha) / denominator))])
+    );
+  });
+
+  return {
+    version: MODEL_VERSION,
+    kind: 'multinomial-naive-bayes',
+    ngrams,
+    alpha,
+    labels,
+    priors,
+    likelihoods,
+    unseen,
+    examples: examples.length,
+    trainedAt: new Date().toISOString(),
+  };
+}
+
+// Vocabulary per model, built on first use
+const vocabularies = new WeakMap<IntentModel, Set<string>>();
+
+function vocabularyOf(model: IntentModel): Set<string> {
+  let vocabulary = vocabularies.get(model);
+  if (!vocabulary) {
+    vocabulary = new Set(Object.values(model.likelihoods).flatMap(features => Object.keys(features)));
+    vocabularies.set(model, vocabulary);
+  }
+  return vocabulary;
+}
+
+/**
+ * Probability of each intent the model knows. Null when the message shares no feature
+ * with the training corpus: the model would only repeat its priors.
+ */
+export function classifyWith(model: IntentModel, text: string): IntentProbabilities | null {
+  const vocabulary = vocabularyOf(model);
+  const features = extractFeatures(text, model.ngrams).filter(feature => vocabulary.has(feature));
+  if (features.length === 0) return null;
+
+  const logScores = model.labels.map(intent => features.reduce(
+    (sum, feature) => sum + (model.likelihoods[intent][feature] ?? model.unseen[intent]),
+    model.priors[intent]
+  ));
+  // Softmax, shifted by the best score to stay within floating point range
+  const best = Math.max(...logScores);
+  const weights = logScores.map(score => Math.exp(score - best));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return Object.fromEntries(model.labels.map((intent, i) => [intent, weights[i] / total])) as IntentProbabilities;
+}
+
+/* ===================== Active model ===================== */
+
+let activeModel: IntentModel | null = shippedModel as IntentModel;
+
+/**
+ * Swap the model resolveIntents blends in; null leaves the rules on their own
+ */
+export function setIntentModel(model: IntentModel | null): void {
+  activeModel = model;
+}
+
+export function getIntentModel(): IntentModel | null {
+  return activeModel;
+}
+
+export function classifyIntent(text: string): IntentProbabilities | null {
+  return activeModel ? classifyWith(activeModel, text) : null;
+}
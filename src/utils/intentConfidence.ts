@@ -0,0 +1,146 @@
+/**
+ * Intent Confidence
+ * Rule scores are additive weights: a 3.2 says nothing about how likely the intent is.
+ * This turns them into probabilities with a temperature-scaled softmax over the intents
+ * that scored, plus one "something else" share the unscored intents split between them.
+ * Both parameters are fitted on the labeled corpus so that a 0.8 is right about 80% of
+ * the time; the fitted values live in data/intentCalibration.json, written by
+ * `npm run train:intents`.
+ */
+
+import shippedCalibration from '../data/intentCalibration.json';
+import type { Intent, Scores } from './intentDetection';
+import type { IntentProbabilities } from './intentClassifier';
+
+export interface IntentCalibration {
+  version: 1;
+  /** Divides the scores before the softmax; above 1 softens, below 1 sharpens */
+  temperature: number;
+  /** Log-weight of "none of the scored intents", shared evenly by the intents scored 0 */
+  unscored: number;
+  examples: number;
+  fittedAt: string;
+}
+
+export type CalibrationParameters = Pick<IntentCalibration, 'temperature' | 'unscored'>;
+
+export interface CalibrationSample {
+  scores: Scores;
+  intent: Intent;
+}
+
+export interface IntentConfidence {
+  /** Calibrated probability of the routed intent */
+  confidence: number;
+  /** Gap between the two likeliest intents; small means a coin flip */
+  margin: number;
+  /** The likeliest intent other than the routed one */
+  runnerUp: { intent: Intent; confidence: number } | null;
+}
+
+export const CALIBRATION_VERSION = 1;
+
+// Modifiers never prevail and invalid is what is left when nothing scored
+const NOT_ROUTED = new Set<Intent>(['filter_change', 'time_change', 'invalid']);
+
+/* ===================== Calibration ===================== */
+
+/**
+ * Probability of every intent a message can be routed on
+ */
+export function calibrateScores(scores: Scores, parameters: CalibrationParameters = activeCalibration): IntentProbabilities {
+  const { temperature, unscored } = parameters;
+  const candidates = (Object.entries(scores) as [Intent, number][]).filter(([intent]) => !NOT_ROUTED.has(intent));
+  const scored = candidates.filter(([, value]) => value > 0);
+  const rest = candidates.filter(([, value]) => value <= 0);
+
+  // Shifted by the largest logit to stay within floating point range
+  const logits = scored.map(([, value]) => value / temperature);
+  const shift = Math.max(unscored, ...logits);
+  const weights = logits.map(logit => Math.exp(logit - shift));
+  const restWeight = rest.length ? Math.exp(unscored - shift) : 0;
+  const total = weights.reduce((sum, weight) => sum + weight, restWeight);
+
+  return Object.fromEntries([
+    ...scored.map(([intent], i) => [intent, weights[i] / total]),
+    ...rest.map(([intent]) => [intent, restWeight / total / rest.length]),
+  ]) as IntentProbabilities;
+}
+
+/**
+ * How sure the scores are of the routed intent. The resolver's precedence rules can route
+ * on an intent that is not the likeliest (a comparison over the data query it contains),
+ * so the margin is taken between the two likeliest intents, whichever was routed.
+ */
+export function confidenceOf(scores: Scores, primary: Intent, parameters?: CalibrationParameters): IntentConfidence {
+  const probabilities = calibrateScores(scores, parameters);
+  const ranked = (Object.entries(probabilities) as [Intent, number][]).sort((a, b) => b[1] - a[1]);
+  const other = ranked.find(([intent]) => intent !== primary);
+  return {
+    confidence: probabilities[primary] ?? 0,
+    margin: ranked.length > 1 ? ranked[0][1] - ranked[1][1] : 1,
+    runnerUp: other ? { intent: other[0], confidence: other[1] } : null,
+  };
+}
+
+/**
+ * The parameters that make the labeled intents likeliest (lowest negative log-likelihood):
+ * a grid over temperatures from 0.1 to 10 and log-weights from -5 to 5, refined around
+ * the best point
+ */
+export function fitCalibration(samples: CalibrationSample[]): CalibrationParameters {
+  const routed = samples.filter(sample => !NOT_ROUTED.has(sample.intent));
+  const loss = (parameters: CalibrationParameters) => routed.reduce(
+    (sum, { scores, intent }) => sum - Math.log(Math.max(calibrateScores(scores, parameters)[intent] ?? 0, 1e-12)),
+    0
+  );
+
+  // Temperatures on a log scale
+  let best = { logTemperature: 0, unscored: 0 };
+  let span = { logTemperature: Math.log(10), unscored: 5 };
+  for (let round = 0; round < 4; round++) {
+    let bestLoss = Infinity;
+    const center = best;
+    for (let i = -10; i <= 10; i++) {
+      for (let j = -10; j <= 10; j++) {
+        const candidate = { logTemperature: center.logTemperature + (i / 10) * span.logTemperature, unscored: center.unscored + (j / 10) * span.unscored };
+        const value = loss({ temperature: Math.exp(candidate.logTemperature), unscored: candidate.unscored });
+        if (value < bestLoss) {
+          bestLoss = value;
+          best = candidate;
+        }
+      }
+    }
+    span = { logTemperature: span.logTemperature / 5, unscored: span.unscored / 5 };
+  }
+
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  return { temperature: round(Math.exp(best.logTemperature)), unscored: round(best.unscored) };
+}
+
+/**
+ * Expected calibration error: the average gap between confidence and accuracy over
+ * equal-width confidence bins, weighted by how many predictions fall in each
+ */
+export function calibrationError(predictions: { confidence: number; correct: boolean }[], bins = 10): number {
+  if (predictions.length === 0) return 0;
+  const buckets = Array.from({ length: bins }, () => ({ confidence: 0, correct: 0 }));
+  predictions.forEach(({ confidence, correct }) => {
+    const bucket = buckets[Math.min(bins - 1, Math.floor(confidence * bins))];
+    bucket.confidence += confidence;
+    bucket.correct += Number(correct);
+  });
+  return buckets.reduce((sum, { confidence, correct }) => sum + Math.abs(confidence - correct), 0) / predictions.length;
+}
+
+/* ===================== Active calibration ===================== */
+
+let activeCalibration: IntentCalibration = shippedCalibration as IntentCalibration;
+
+export function setIntentCalibration(calibration: IntentCalibration): void {
+  activeCalibration = calibration;
+}
+
+export function getIntentCalibration(): IntentCalibration {
+  return activeCalibration;
+}
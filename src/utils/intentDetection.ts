@@ -3,9 +3,13 @@
 // Fast, no deps. Weighted scoring + domain-first precedence + explicit modifiers.
 // Exposes: detectIntent(text) -> Intent, and resolveIntents(text) -> Resolution for diagnostics.
 
-import { PATTERNS, setFuzzyTokenHit } from '../data/patterns';
+import { setFuzzyTokenHit } from '../data/patterns';
+import { PATTERNS } from './intentRules';
 import { RX } from '../data/precompiledMatchers';
 import { AMBIGUOUS_BASE, GROUP_ADDRESS_WORDS, FAREWELL_INDICATORS } from '../data/lexicon';
+import { classifyIntent } from './intentClassifier';
+import type { IntentProbabilities } from './intentClassifier';
+import { confidenceOf } from './intentConfidence';
 
 export const INTENTS = [
   'greeting',
@@ -38,6 +42,9 @@ export interface Resolution {
   coIntents: Intent[];      // non-modifier intents that contributed meaningfully
   modifiers: Intent[];      // time_change/filter_change (never prevail)
   scores: Scores;           // for telemetry/debug
+  classifier?: IntentProbabilities; // statistical model's view, already blended into scores
+  confidence?: number;      // calibrated probability of primary (0-1)
+  margin?: number;          // primary's lead over the likeliest other intent
 }
 
 /* ===================== Normalization & helpers ===================== */
@@ -180,6 +187,9 @@ const NON_PREVAILING_SOCIAL = new Set<Intent>(['greeting', 'thanks', 'farewell',
 // Tuning knobs
 const NEAR_TIE_DELTA = 0.5;     // within 0.5 of the top is a near tie
 const COINTENT_FRACTION = 0.6;  // co-intents >= 60% of the top score
+const STATEMENT_FALLBACK = 0.6; // score of 'statement' when no pattern fired
+const CLASSIFIER_WEIGHT = 3.0;  // a certain guess counts about as much as a strong rule
+const CLASSIFIER_MIN_PROBABILITY = 0.7; // weaker guesses are left out of the blend
 
 /* ===================== Scoring ===================== */
 
@@ -208,8 +218,9 @@ export function score(text: string, isFirstMessage = false): Scores {
       if (pattern instanceof RegExp) {
         if (pattern.test(t)) scores[intent] += weight;
       } else {
+        // Compiled rules return 1 and carry the weight
         const v = pattern(t);
-        if (v > 0) scores[intent] += v;
+        if (v > 0) scores[intent] += v * weight;
       }
     }
   });
@@ -268,22 +279,43 @@ export function score(text: string, isFirstMessage = false): Scores {
   }
 
   // If nothing fired, treat as a generic statement
-  if (Object.values(scores).every(v => v === 0)) scores.statement = 0.6;
+  if (Object.values(scores).every(v => v === 0)) scores.statement = STATEMENT_FALLBACK;
 
   return scores;
 }
 
 /* ===================== Resolver (multi-intent → primary) ===================== */
 
+/**
+ * Rule scores plus the classifier's confident guesses. A guess lifts an intent the rules
+ * missed or under-weighted; it never lowers one the rules found. The rule scores come back
+ * too, for the precedence rules that only a rule match should trigger.
+ */
+function blendedScores(text: string, isFirstMessage: boolean): { scores: Scores; rules: Scores; classifier?: IntentProbabilities } {
+  const rules = score(text, isFirstMessage);
+  const s = { ...rules };
+  const classifier = classifyIntent(text);
+  if (!classifier || s.invalid > 0) return { scores: s, rules };
+
+  (Object.entries(classifier) as [Intent, number][]).forEach(([intent, probability]) => {
+    if (probability >= CLASSIFIER_MIN_PROBABILITY) s[intent] += CLASSIFIER_WEIGHT * probability;
+  });
+  // The generic fallback only stands when nothing else scored
+  if (s.statement === STATEMENT_FALLBACK && Object.entries(s).some(([intent, v]) => intent !== 'statement' && v > 0)) {
+    s.statement = 0;
+  }
+  return { scores: s, rules, classifier };
+}
+
 export function resolveIntents(text: string, isFirstMessage = false): Resolution {
-  const s = score(text, isFirstMessage);
+  const { scores: s, rules, classifier } = blendedScores(text, isFirstMessage);
 
   const active = Object.entries(s)
     .filter(([, v]) => v > 0)
     .sort((a, b) => b[1] - a[1]) as [Intent, number][];
 
   if (active.length === 0) {
-    return { primary: 'invalid', coIntents: [], modifiers: [], scores: s };
+    return { primary: 'invalid', coIntents: [], modifiers: [], scores: s, ...(classifier ? { classifier } : {}), ...calibrated(s, 'invalid') };
   }
 
   const [topIntent, topScore] = active[0];
@@ -312,14 +344,15 @@ export function resolveIntents(text: string, isFirstMessage = false): Resolution
     prevailing = ['troubleshooting', ...prevailing.filter(i => i !== 'troubleshooting')];
   }
 
-  // Ensure compare/metadata can prevail over data_query even if not near-top
+  // Ensure compare/metadata can prevail over data_query even if not near-top; only a rule
+  // match counts, a classifier guess alone must not override the data query
   const activeIntents = new Set(active.map(([i]) => i));
-  if (activeIntents.has('compare_request') && activeIntents.has('data_query')) {
+  if (rules.compare_request > 0 && activeIntents.has('data_query')) {
     if (!prevailing.includes('compare_request')) {
       prevailing = ['compare_request', ...prevailing];
     }
   }
-  if (activeIntents.has('metadata_request') && activeIntents.has('data_query')) {
+  if (rules.metadata_request > 0 && activeIntents.has('data_query')) {
     if (!prevailing.includes('metadata_request')) {
       prevailing = ['metadata_request', ...prevailing];
     }
@@ -376,7 +409,12 @@ export function resolveIntents(text: string, isFirstMessage = false): Resolution
     .filter(([i, v]) => i !== primary && !MODIFIERS.has(i) && v >= topScore * COINTENT_FRACTION)
     .map(([i]) => i);
 
-  return { primary, coIntents, modifiers: modifierHits, scores: s };
+  return { primary, coIntents, modifiers: modifierHits, scores: s, ...(classifier ? { classifier } : {}), ...calibrated(s, primary) };
+}
+
+function calibrated(s: Scores, primary: Intent): Pick<Resolution, 'confidence' | 'margin'> {
+  const { confidence, margin } = confidenceOf(s, primary);
+  return { confidence, margin };
 }
 
 /** Public API: single intent label */
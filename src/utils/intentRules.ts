@@ -0,0 +1,268 @@
+/**
+ * Intent Rules
+ * Declarative intent rules, so intents are tuned by editing JSON instead of code. The
+ * built-in rules are in data/intentRules.json; a rule set looks like:
+ *
+ *   { "version": 1, "mode": "extend", "rules": [
+ *     { "id": "heatmap", "intent": "viz_request", "weight": 2.4,
+ *       "when": { "all": [{ "lexicon": "energy" }, { "terms": ["heatmap", "heat map"] }] },
+ *       "unless": { "terms": ["no chart"] } } ] }
+ *
+ * Conditions: `terms` (any of the words or phrases), `regex` (with optional `flags`),
+ * `lexicon` (a named matcher from data/precompiledMatchers), `fuzzy` (terms within an edit
+ * distance), `endsWith`, and `all` / `any` / `not` to combine them. A rule adds its weight
+ * when `when` matches and `unless` does not; negative weights count against the intent.
+ * Rule sets are validated and compiled into PATTERNS, the structure score() reads; what
+ * JSON cannot say (the lexicon word lists, fuzzy matching, precedence between intents)
+ * stays in code.
+ *
+ * public/intent-rules.json tunes a deployment without a rebuild: in "extend" mode its rules
+ * are added to an intent's built-in ones, in "replace" mode they take their place. It
+ * ships as an empty "extend" set.
+ */
+
+import { RULE_INTENTS, fuzzyTokenHit } from '../data/patterns';
+import type { Pattern, RuleIntent } from '../data/patterns';
+import { RX } from '../data/precompiledMatchers';
+import builtInRules from '../data/intentRules.json';
+
+export type RuleCondition =
+  | { terms: string[] }
+  | { regex: string; flags?: string }
+  | { lexicon: string }
+  | { fuzzy: string[]; maxDistance?: number; minLength?: number }
+  | { endsWith: string }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface IntentRule {
+  /** Shown in validation problems; defaults to the rule's position */
+  id?: string;
+  intent: RuleIntent;
+  weight: number;
+  when: RuleCondition;
+  /** Negative guard: the rule does not fire when this matches */
+  unless?: RuleCondition;
+  /** Free text for whoever edits the file, e.g. why the weight is what it is */
+  note?: string;
+}
+
+export interface IntentRuleSet {
+  version: 1;
+  /** Free text for whoever edits the file; ignored when installing */
+  description?: string;
+  mode?: 'extend' | 'replace';
+  rules: IntentRule[];
+}
+
+export class IntentRulesError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[]) {
+    super(message);
+    this.name = 'IntentRulesError';
+    this.problems = problems;
+  }
+}
+
+export const RULES_VERSION = 1;
+
+// g and y make RegExp.test stateful
+const REGEX_FLAGS = /^[imsu]*$/;
+
+/* ===================== Validation ===================== */
+
+/**
+ * Check a parsed rule file and return it typed; every problem found is listed in the error
+ */
+export function validateRuleSet(value: unknown): IntentRuleSet {
+  const problems: string[] = [];
+  if (!isObject(value)) throw new IntentRulesError('Rule set is not an object', []);
+  if (value.version !== RULES_VERSION) problems.push(`version is not ${RULES_VERSION}`);
+  if (value.description !== undefined && typeof value.description !== 'string') problems.push('description is not a string');
+  if (value.mode !== undefined && value.mode !== 'extend' && value.mode !== 'replace') {
+    problems.push('mode is neither "extend" nor "replace"');
+  }
+  if (!Array.isArray(value.rules)) {
+    problems.push('rules is not a list');
+  } else {
+    value.rules.forEach((rule, index) => validateRule(rule, index, problems));
+  }
+
+  if (problems.length > 0) throw new IntentRulesError('Rule set is invalid', problems);
+  return value as unknown as IntentRuleSet;
+}
+
+function validateRule(rule: unknown, index: number, problems: string[]): void {
+  if (!isObject(rule)) {
+    problems.push(`rules[${index}] is not an object`);
+    return;
+  }
+  const at = typeof rule.id === 'string' ? `rule "${rule.id}"` : `rules[${index}]`;
+  if (typeof rule.intent !== 'string' || !(RULE_INTENTS as readonly string[]).includes(rule.intent)) problems.push(`${at}: intent is not one of ${RULE_INTENTS.join(', ')}`);
+  if (typeof rule.weight !== 'number' || !Number.isFinite(rule.weight)) problems.push(`${at}: weight is not a number`);
+  if (rule.note !== undefined && typeof rule.note !== 'string') problems.push(`${at}: note is not a string`);
+  validateCondition(rule.when, `${at}.when`, problems);
+  if (rule.unless !== undefined) validateCondition(rule.unless, `${at}.unless`, problems);
+}
+
+function validateCondition(condition: unknown, at: string, problems: string[]): void {
+  if (!isObject(condition)) {
+    problems.push(`${at} is not a condition`);
+    return;
+  }
+  const keys = Object.keys(condition);
+
+  if ('terms' in condition) {
+    if (!isTermList(condition.terms)) problems.push(`${at}.terms is not a list of words or phrases`);
+  } else if ('regex' in condition) {
+    const flags = condition.flags ?? 'u';
+    if (typeof condition.regex !== 'string' || typeof flags !== 'string' || !REGEX_FLAGS.test(flags)) {
+      problems.push(`${at}.regex is not a pattern with flags from "imsu"`);
+    } else {
+      try {
+        new RegExp(condition.regex, flags);
+      } catch (error) {
+        problems.push(`${at}.regex does not compile: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } else if ('lexicon' in condition) {
+    if (typeof condition.lexicon !== 'string' || !Object.hasOwn(RX, condition.lexicon)) problems.push(`${at}.lexicon is not one of ${Object.keys(RX).join(', ')}`);
+  } else if ('fuzzy' in condition) {
+    if (!isTermList(condition.fuzzy)) problems.push(`${at}.fuzzy is not a list of words`);
+    if (condition.maxDistance !== undefined && !isCount(condition.maxDistance)) problems.push(`${at}.maxDistance is not a whole number`);
+    if (condition.minLength !== undefined && !isCount(condition.minLength)) problems.push(`${at}.minLength is not a whole number`);
+  } else if ('endsWith' in condition) {
+    if (typeof condition.endsWith !== 'string' || !condition.endsWith) problems.push(`${at}.endsWith is not a string`);
+  } else if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    const parts = condition[key];
+    if (!Array.isArray(parts) || parts.length === 0) problems.push(`${at}.${key} is not a list of conditions`);
+    else parts.forEach((part, index) => validateCondition(part, `${at}.${key}[${index}]`, problems));
+  } else if ('not' in condition) {
+    validateCondition(condition.not, `${at}.not`, problems);
+  } else {
+    problems.push(`${at} has none of terms, regex, lexicon, fuzzy, endsWith, all, any, not (got ${keys.join(', ') || 'nothing'})`);
+  }
+}
+
+/* ===================== Compilation ===================== */
+
+function escapeRe(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toRegExp(condition: RuleCondition): RegExp | null {
+  if ('terms' in condition) {
+    const alternatives = condition.terms.map(term => escapeRe(term.toLowerCase().trim()).replace(/\s+/g, '\\s+'));
+    return new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'iu');
+  }
+  if ('regex' in condition) return new RegExp(condition.regex, condition.flags ?? 'u');
+  if ('lexicon' in condition) return RX[condition.lexicon];
+  return null;
+}
+
+export function compileCondition(condition: RuleCondition): (t: string) => boolean {
+  if ('fuzzy' in condition) {
+    return t => fuzzyTokenHit(t, condition.fuzzy, condition.maxDistance ?? 1, condition.minLength ?? 2);
+  }
+  if ('endsWith' in condition) return t => t.endsWith(condition.endsWith);
+  if ('all' in condition) {
+    const parts = condition.all.map(compileCondition);
+    return t => parts.every(part => part(t));
+  }
+  if ('any' in condition) {
+    const parts = condition.any.map(compileCondition);
+    return t => parts.some(part => part(t));
+  }
+  if ('not' in condition) {
+    const inner = compileCondition(condition.not);
+    return t => !inner(t);
+  }
+  const regex = toRegExp(condition);
+  return t => regex?.test(t) ?? false;
+}
+
+/**
+ * A rule as a PATTERNS entry: a plain regex when it is one, otherwise a matcher that
+ * counts once and is scaled by the weight
+ */
+export function compileRule(rule: IntentRule): { pattern: Pattern; weight: number } {
+  const regex = rule.unless ? null : toRegExp(rule.when);
+  if (regex) return { pattern: regex, weight: rule.weight };
+
+  const when = compileCondition(rule.when);
+  const unless = rule.unless ? compileCondition(rule.unless) : () => false;
+  return { pattern: (t: string) => (when(t) && !unless(t) ? 1 : 0), weight: rule.weight };
+}
+
+/* ===================== Installation ===================== */
+
+type CompiledRules = Record<RuleIntent, { pattern: Pattern; weight: number }[]>;
+
+function compileRuleSet(ruleSet: IntentRuleSet): CompiledRules {
+  const compiled = Object.fromEntries(RULE_INTENTS.map(intent => [intent, []])) as unknown as CompiledRules;
+  ruleSet.rules.forEach(rule => compiled[rule.intent].push(compileRule(rule)));
+  return compiled;
+}
+
+// Rules as shipped, so installed rule sets can be undone
+const BUILT_IN = compileRuleSet(validateRuleSet(builtInRules));
+
+/**
+ * The rules score() reads, per intent
+ */
+export const PATTERNS = Object.fromEntries(
+  RULE_INTENTS.map(intent => [intent, [...BUILT_IN[intent]]])
+) as unknown as CompiledRules;
+
+/**
+ * Compile a rule set into PATTERNS. Returns how many rules were installed.
+ */
+export function installIntentRules(ruleSet: IntentRuleSet): number {
+  const compiled = compileRuleSet(ruleSet);
+  RULE_INTENTS.forEach(intent => {
+    const patterns = compiled[intent];
+    if (patterns.length === 0) return;
+    PATTERNS[intent] = ruleSet.mode === 'replace' ? patterns : [...PATTERNS[intent], ...patterns];
+  });
+  return ruleSet.rules.length;
+}
+
+/**
+ * Back to the rules in data/intentRules.json
+ */
+export function resetIntentRules(): void {
+  RULE_INTENTS.forEach(intent => {
+    PATTERNS[intent] = [...BUILT_IN[intent]];
+  });
+}
+
+/**
+ * Fetch, validate and install a rule file, on top of the built-in rules. A missing file
+ * leaves the built-in rules in place and returns 0.
+ */
+export async function loadIntentRules(url: string): Promise<number> {
+  const response = await fetch(url, { cache: 'no-cache' });
+  // The dev server answers unknown paths with the app's HTML page
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) return 0;
+
+  const ruleSet = validateRuleSet(await response.json());
+  resetIntentRules();
+  return installIntentRules(ruleSet);
+}
+
+/* ===================== Helpers ===================== */
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTermList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(term => typeof term === 'string' && term.trim() !== '');
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
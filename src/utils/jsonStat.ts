@@ -0,0 +1,135 @@
+// utils/jsonStat.ts
+// Minimal JSON-stat 2.0 decoder for Eurostat dissemination API responses.
+// Turns the flat value/status arrays of a dataset into labelled observations. No deps.
+
+export interface JsonStatCategory {
+  index?: Record<string, number> | string[];
+  label?: Record<string, string>;
+  unit?: Record<string, { label?: string; decimals?: number }>;
+}
+
+export interface JsonStatDimension {
+  label?: string;
+  category: JsonStatCategory;
+}
+
+export interface JsonStatDataset {
+  version: '2.0';
+  class: 'dataset';
+  label?: string;
+  source?: string;
+  updated?: string;
+  id: string[];
+  size: number[];
+  dimension: Record<string, JsonStatDimension>;
+  value: (number | null)[] | Record<string, number | null>;
+  status?: string | (string | null)[] | Record<string, string>;
+  extension?: {
+    datasetId?: string;
+    status?: { label?: Record<string, string> };
+    [key: string]: unknown;
+  };
+}
+
+export interface DimensionInfo {
+  id: string;
+  label: string;
+  categories: { code: string; label: string }[];
+}
+
+export interface Observation {
+  /** Category code per dimension id, e.g. { geo: 'DE', time: '2021' } */
+  dimensions: Record<string, string>;
+  value: number | null;
+  /** Eurostat observation flag, e.g. 'p' (provisional) or 'e' (estimated) */
+  status?: string;
+}
+
+export function isJsonStatDataset(payload: unknown): payload is JsonStatDataset {
+  if (!payload || typeof payload !== 'object') return false;
+  const ds = payload as Partial<JsonStatDataset>;
+  return ds.class === 'dataset'
+    && Array.isArray(ds.id)
+    && Array.isArray(ds.size)
+    && ds.id.length === ds.size.length
+    && !!ds.dimension && typeof ds.dimension === 'object'
+    && ds.value !== undefined && ds.value !== null;
+}
+
+/**
+ * Ordered category codes of a dimension (JSON-stat allows array or object index)
+ */
+export function categoryCodes(dimension: JsonStatDimension): string[] {
+  const { index, label } = dimension.category;
+  if (Array.isArray(index)) return [...index];
+  if (index) {
+    return Object.entries(index)
+      .sort((a, b) => a[1] - b[1])
+      .map(([code]) => code);
+  }
+  // Single-category dimensions may only carry a label
+  return Object.keys(label ?? {});
+}
+
+export function describeDimensions(ds: JsonStatDataset): DimensionInfo[] {
+  return ds.id.map(id => {
+    const dimension = ds.dimension[id];
+    return {
+      id,
+      label: dimension?.label ?? id,
+      categories: categoryCodes(dimension).map(code => ({
+        code,
+        label: dimension.category.label?.[code] ?? code,
+      })),
+    };
+  });
+}
+
+/**
+ * Decode every (non-missing) cell of the cube into an observation.
+ * Values are stored row-major with the last dimension varying fastest.
+ */
+export function decodeObservations(ds: JsonStatDataset): Observation[] {
+  const codes = ds.id.map(id => categoryCodes(ds.dimension[id]));
+  const out: Observation[] = [];
+
+  const cells: [number, number | null][] = Array.isArray(ds.value)
+    ? ds.value.map((v, i) => [i, v] as [number, number | null])
+    : Object.entries(ds.value).map(([i, v]) => [Number(i), v] as [number, number | null]);
+
+  for (const [flatIndex, value] of cells) {
+    if (value === undefined) continue;
+
+    const dimensions: Record<string, string> = {};
+    let rest = flatIndex;
+    for (let d = ds.id.length - 1; d >= 0; d--) {
+      const size = ds.size[d];
+      dimensions[ds.id[d]] = codes[d][rest % size];
+      rest = Math.floor(rest / size);
+    }
+
+    const status = statusAt(ds, flatIndex);
+    out.push(status ? { dimensions, value, status } : { dimensions, value });
+  }
+
+  return out;
+}
+
+function statusAt(ds: JsonStatDataset, flatIndex: number): string | undefined {
+  const { status } = ds;
+  if (!status) return undefined;
+  if (typeof status === 'string') return status;
+  if (Array.isArray(status)) return status[flatIndex] ?? undefined;
+  return status[String(flatIndex)];
+}
+
+/**
+ * Human-readable label of a category code, falling back to the code itself
+ */
+export function categoryLabel(ds: JsonStatDataset, dimensionId: string, code: string): string {
+  return ds.dimension[dimensionId]?.category.label?.[code] ?? code;
+}
+
+export function statusLabel(ds: JsonStatDataset, status: string): string {
+  return ds.extension?.status?.label?.[status] ?? status;
+}
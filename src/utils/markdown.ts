@@ -0,0 +1,220 @@
+// utils/markdown.ts
+// Small Markdown subset for bot messages: paragraphs, headings, bullet/numbered lists,
+// tables, **bold**, *italics*, `inline code` and links. Produces a plain node tree that
+// components/Markdown.tsx renders as React elements, so no HTML string is ever injected.
+// Anything that is not recognised stays literal text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'table'; header: InlineNode[][]; align: TableAlign[]; rows: InlineNode[][][] };
+
+const BULLET_RE = /^\s*(?:[-*+•])\s+(.*)$/;
+const ORDERED_RE = /^\s*\d{1,3}[.)]\s+(.*)$/;
+const HEADING_RE = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const TABLE_ROW_RE = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// Only these link targets are rendered as anchors; anything else stays text
+const SAFE_URL_RE = /^(https?:\/\/|mailto:)/i;
+const BARE_URL_RE = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/i;
+
+/* ===================== Blocks ===================== */
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = (source ?? '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', children: parseInline(heading[1]) });
+      continue;
+    }
+
+    if (TABLE_ROW_RE.test(line) && i + 1 < lines.length && TABLE_SEPARATOR_RE.test(lines[i + 1])) {
+      flushParagraph();
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(alignment);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW_RE.test(lines[i])) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'table', header: header.map(cell => parseInline(cell)), align, rows });
+      continue;
+    }
+
+    const bullet = BULLET_RE.exec(line);
+    const ordered = bullet ? null : ORDERED_RE.exec(line);
+    if (bullet || ordered) {
+      flushParagraph();
+      const isOrdered = !!ordered;
+      const items: InlineNode[][] = [];
+      while (i < lines.length) {
+        const match = isOrdered ? ORDERED_RE.exec(lines[i]) : BULLET_RE.exec(lines[i]);
+        if (!match) break;
+        items.push(parseInline(match[1]));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered: isOrdered, items });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function alignment(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return undefined;
+}
+
+// Lines of one paragraph keep their line breaks
+function parseLines(lines: string[]): InlineNode[] {
+  return lines.flatMap((line, index) => index === 0 ? parseInline(line) : [{ type: 'break' as const }, ...parseInline(line)]);
+}
+
+/* ===================== Inline ===================== */
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const pushText = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // Backslash escapes a markup character
+    if (char === '\\' && i + 1 < text.length && /[\\`*_[\]()|#]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        pushText();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith('**') || rest.startsWith('__')) {
+      const marker = rest.slice(0, 2);
+      const end = text.indexOf(marker, i + 2);
+      if (end > i + 2) {
+        pushText();
+        nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && isEmphasisStart(text, i)) {
+      const end = findEmphasisEnd(text, i + 1, char);
+      if (end > i + 1) {
+        pushText();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = /^\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/.exec(rest);
+      if (link) {
+        pushText();
+        const href = link[2];
+        nodes.push(SAFE_URL_RE.test(href)
+          ? { type: 'link', href, children: parseInline(link[1]) }
+          : { type: 'text', text: link[1] });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && (i === 0 || /\s|\(/.test(text[i - 1]))) {
+      const url = BARE_URL_RE.exec(rest);
+      if (url) {
+        pushText();
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  pushText();
+  return nodes;
+}
+
+// "*word" opens emphasis, "2 * 3" or "snake_case" does not
+function isEmphasisStart(text: string, index: number): boolean {
+  const next = text[index + 1];
+  const previous = text[index - 1];
+  if (!next || /\s/.test(next) || next === text[index]) return false;
+  return text[index] === '*' || !previous || !/[\p{L}\p{N}]/u.test(previous);
+}
+
+function findEmphasisEnd(text: string, from: number, marker: string): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] !== marker || /\s/.test(text[i - 1])) continue;
+    if (marker === '_' && /[\p{L}\p{N}]/u.test(text[i + 1] ?? '')) continue;
+    if (text[i + 1] === marker) { i++; continue; }
+    return i;
+  }
+  return -1;
+}
@@ -0,0 +1,157 @@
+/**
+ * Message Model
+ * The one shape of a chat message, shared by the UI, the processing pipeline and storage,
+ * and the operations on a conversation's message list. A bot reply points at the user
+ * message it answers (parentId); both carry the id of the ChatInsightEntry recorded for
+ * their turn (turnId), so a message can be traced back to how it was understood.
+ */
+
+import type { ResolverAction, ResolverResponse } from './responseResolver';
+import type { RichContent } from './richContent';
+
+/** pending: sent, no reply yet · delivered: answered · failed: the turn errored and can be retried */
+export type MessageStatus = 'pending' | 'delivered' | 'failed';
+
+export type MessageAction = ResolverAction;
+
+export interface MessageMetadata {
+  actions?: MessageAction[];
+  suggestions?: string[];
+  content?: RichContent[];
+}
+
+/** An earlier answer to the same question, replaced by regenerating */
+export interface MessageVersion {
+  text: string;
+  timestamp: Date;
+  turnId?: string;
+  metadata?: MessageMetadata;
+}
+
+export interface ChatMessage {
+  /** Unique within its conversation */
+  id: string;
+  text: string;
+  sender: 'user' | 'bot';
+  timestamp: Date;
+  status: MessageStatus;
+  /** On bot replies: the user message answered */
+  parentId?: string;
+  /** ChatInsightEntry id of the turn (state/globalChatState) */
+  turnId?: string;
+  /** Set when the user changed the text after sending */
+  editedAt?: Date;
+  metadata?: MessageMetadata;
+  /** On bot replies: earlier answers, oldest first */
+  previousVersions?: MessageVersion[];
+}
+
+export const MESSAGE_STATUSES: MessageStatus[] = ['pending', 'delivered', 'failed'];
+
+// Generated files are data: URLs; a data: document that a browser renders as a page could run script
+const ACTIVE_DATA_TYPES = /^(?:text\/html|application\/xhtml\+xml|image\/svg\+xml|text\/xml|application\/xml)\b/i;
+
+/**
+ * Whether an action or link URL is one the app itself creates: https pages, mailto
+ * links and data: files that are not pages. Anything from an imported or stored
+ * conversation is checked against this before it is rendered or followed.
+ */
+export function isSafeActionUrl(url: unknown): boolean {
+  if (typeof url !== 'string') return false;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.trim())?.[1]?.toLowerCase();
+  if (scheme === 'https' || scheme === 'mailto') return true;
+  if (scheme !== 'data') return false;
+  const mimeType = url.trim().slice('data:'.length).split(/[;,]/)[0].trim();
+  return mimeType !== '' && !ACTIVE_DATA_TYPES.test(mimeType);
+}
+
+const FAILED_REPLY_TEXT = 'Sorry, I encountered an error processing your message.';
+
+export function createMessageId(): string {
+  return `m${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createUserMessage(text: string): ChatMessage {
+  return { id: createMessageId(), text, sender: 'user', timestamp: new Date(), status: 'pending' };
+}
+
+export function createBotReply(question: ChatMessage, response: ResolverResponse, turnId?: string): ChatMessage {
+  return {
+    id: createMessageId(),
+    text: response.text,
+    sender: 'bot',
+    timestamp: new Date(),
+    status: 'delivered',
+    parentId: question.id,
+    turnId,
+    metadata: response.metadata,
+  };
+}
+
+export function createFailedReply(question: ChatMessage, turnId?: string): ChatMessage {
+  return {
+    id: createMessageId(),
+    text: FAILED_REPLY_TEXT,
+    sender: 'bot',
+    timestamp: new Date(),
+    status: 'failed',
+    parentId: question.id,
+    turnId,
+  };
+}
+
+/**
+ * A new answer that takes the place of an earlier reply to the same question: it keeps the
+ * reply's id and the answers given so far. A failed reply is not worth keeping as a version.
+ */
+export function supersedeReply(previous: ChatMessage, reply: ChatMessage): ChatMessage {
+  const versions = previous.previousVersions ?? [];
+  const kept: MessageVersion[] = previous.status === 'delivered'
+    ? [...versions, { text: previous.text, timestamp: previous.timestamp, turnId: previous.turnId, metadata: previous.metadata }]
+    : versions;
+  return { ...reply, id: previous.id, ...(kept.length > 0 ? { previousVersions: kept } : {}) };
+}
+
+/* ===================== List operations ===================== */
+
+export function findMessage(messages: ChatMessage[], id: string): ChatMessage | undefined {
+  return messages.find(msg => msg.id === id);
+}
+
+export function repliesTo(messages: ChatMessage[], id: string): ChatMessage[] {
+  return messages.filter(msg => msg.parentId === id);
+}
+
+/**
+ * Messages before the given one, i.e. the conversation as it stood when it was sent
+ */
+export function messagesBefore(messages: ChatMessage[], id: string): ChatMessage[] {
+  const index = messages.findIndex(msg => msg.id === id);
+  return index < 0 ? messages : messages.slice(0, index);
+}
+
+export function updateMessage(messages: ChatMessage[], id: string, changes: Partial<Omit<ChatMessage, 'id'>>): ChatMessage[] {
+  return messages.map(msg => (msg.id === id ? { ...msg, ...changes } : msg));
+}
+
+export function editMessageText(messages: ChatMessage[], id: string, text: string): ChatMessage[] {
+  return updateMessage(messages, id, { text, editedAt: new Date(), status: 'pending' });
+}
+
+/**
+ * Put a reply right after its question, replacing the question's earlier replies
+ */
+export function replaceReplies(messages: ChatMessage[], reply: ChatMessage): ChatMessage[] {
+  const rest = messages.filter(msg => msg.parentId !== reply.parentId);
+  const index = rest.findIndex(msg => msg.id === reply.parentId);
+  return index < 0 ? [...rest, reply] : [...rest.slice(0, index + 1), reply, ...rest.slice(index + 1)];
+}
+
+/**
+ * Remove a message; removing a question also removes its replies. Returns the ids removed
+ * so storage can keep them from coming back through another tab.
+ */
+export function removeMessage(messages: ChatMessage[], id: string): { messages: ChatMessage[]; removedIds: string[] } {
+  const removed = new Set([id, ...repliesTo(messages, id).map(msg => msg.id)]);
+  return { messages: messages.filter(msg => !removed.has(msg.id)), removedIds: [...removed] };
+}
@@ -1,32 +1,24 @@
 /**
  * Message Processing Service
  * Centralizes all input processing: preprocessing, intent detection, entity extraction,
- * global state recording, and response generation
+ * global state recording, and response generation. Compound messages are answered
+ * clause by clause, in one reply.
  */
 
 import { preprocessInput } from './preprocess';
 import { resolveIntents } from './intentDetection';
 import { extractEntities } from './entityExtractor';
-import { resolveResponse } from './responseResolver';
+import { combineResponses, resolveResponse } from './responseResolver';
+import dialogManager from './dialogManager';
+import { chosenIntent } from './clarification';
+import { splitClauses } from './clauseSplitter';
+import conversationContext from '../state/conversationContext';
 import chatInsightsStore from '../state/globalChatState';
-import ChatStorage from './chatStorage';
 import type { Entities } from './entityExtractor';
 import type { Resolution } from './intentDetection';
 import type { PreprocessResult } from './preprocess';
 import type { ResolverResponse } from './responseResolver';
-
-interface Message {
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: Date;
-  metadata?: {
-    actions?: Array<{
-      type: 'mailto' | 'link' | 'button';
-      label: string;
-      url: string;
-    }>;
-  };
-}
+import type { ChatMessage } from './messageModel';
 
 export interface ProcessingResult {
   preprocessed: PreprocessResult;
@@ -34,6 +26,12 @@ export interface ProcessingResult {
   entities: Entities;
 }
 
+export interface ProcessedTurn {
+  response: ResolverResponse;
+  /** Id of the ChatInsightEntry recorded for this turn */
+  turnId: string;
+}
+
 /**
  * Process a user message through all analysis stages
  */
@@ -59,46 +57,86 @@ export function processMessage(input: string, isFirstMessage = false): Processin
  */
 export async function processAndRespond(
   input: string,
-  currentMessages: Message[],
-  currentMessageHistory: string[]
-): Promise<ResolverResponse> {
+  currentMessages: ChatMessage[]
+): Promise<ProcessedTurn> {
   // Determine if this is the first user message in the conversation
   const userMessages = currentMessages.filter(msg => msg.sender === 'user');
   const isFirstMessage = userMessages.length === 0;
 
   // Process the message (with conversation context)
   const processingResult = processMessage(input, isFirstMessage);
+  const clauses = splitClauses(input);
 
-  // Store the processed data in global state for debugging/logging
-const insightEntry = chatInsightsStore.record({
+  // Store the processed data in global state; the insights panel shows it per turn
+  const insightEntry = chatInsightsStore.record({
     raw: input,
     cleaned: processingResult.preprocessed.cleaned,
     resolution: processingResult.resolution,
     entities: processingResult.entities,
     diagnostics: {
       corrections: processingResult.preprocessed.corrections,
+      removed: processingResult.preprocessed.removed,
       flags: processingResult.preprocessed.flags,
+      ...(clauses.length > 1 ? { clauses } : {}),
     },
   });
 
-  console.log('Message processing result:', processingResult, insightEntry);
-
   // Simulate AI thinking time (1.5-3 seconds)
   const thinkingDelay = 2000 + Math.random() * 2000;
   await new Promise(resolve => setTimeout(resolve, thinkingDelay));
 
-  // Generate the response
-  const response = await resolveResponse(processingResult.resolution, processingResult.entities);
+  // A reply to "did you mean …?" routes the unclear message as the intent picked, which
+  // leaves nothing to be unsure about; a compound message is answered clause by clause
+  const { resolution, entities, preprocessed: { cleaned } } = processingResult;
+  const clarification = conversationContext.takeClarification();
+  const picked = clarification ? chosenIntent(clarification, cleaned, resolution, entities) : null;
+  const turns: Turn[] = clarification && picked
+    ? [{ resolution: { ...clarification.resolution, primary: picked, confidence: 1, margin: 1 }, entities: clarification.entities, input: clarification.input }]
+    : clauses.length > 1
+      ? clauses.map((clause, i) => toTurn(processMessage(clause, isFirstMessage && i === 0)))
+      : [toTurn(processingResult)];
+
+  const responses: ResolverResponse[] = [];
+  for (const turn of turns) {
+    // Let a pending slot-filling frame claim the turn before the generic resolver
+    const outcome = dialogManager.handle(turn.resolution, turn.entities, turn.input);
+
+    // Generate the response
+    responses.push(outcome.kind === 'respond'
+      ? outcome.response
+      : await resolveResponse(outcome.resolution, outcome.entities, turn.input));
+
+    // A question back (a missing slot, "did you mean …?") or a failure has to be settled
+    // before the clauses after it can run
+    if (outcome.kind === 'respond' || responses[responses.length - 1].type === 'error') break;
+  }
+  const response = withHeldBack(combineResponses(responses), turns.length > 1 ? clauses.slice(responses.length) : []);
+
+  // A yes/no or clarification question only stays open until the next bot message
+  conversationContext.setProposal(response.metadata?.proposal ?? null);
+  conversationContext.setClarification(response.metadata?.clarification ?? null);
 
 //   console.log('Message processing result:', response);
 
+  return { response, turnId: insightEntry.id };
+}
+
+interface Turn {
+  resolution: Resolution;
+  entities: Entities;
+  /** Cleaned text the handlers read */
+  input: string;
+}
 
-  // Save chat history after successful processing
-  try {
-    await ChatStorage.saveChatHistory(currentMessages, currentMessageHistory);
-  } catch (error) {
-    console.error('Failed to save chat history:', error);
-  }
+function toTurn({ resolution, entities, preprocessed }: ProcessingResult): Turn {
+  return { resolution, entities, input: preprocessed.cleaned };
+}
 
-  return response;
-}
\ No newline at end of file
+/**
+ * Name the clauses a question back left unanswered, so they can be asked again
+ */
+function withHeldBack(response: ResolverResponse, clauses: string[]): ResolverResponse {
+  if (clauses.length === 0) return response;
+  const rest = clauses.map(clause => `"${clause}"`).join(' and ');
+  return { ...response, text: `${response.text}\n\nOnce that's settled, ask me again for ${rest}.` };
+}
@@ -0,0 +1,40 @@
+/**
+ * Metadata Lookup
+ * Finds the glossary entry or catalog dataset a metadata question is about, and tells
+ * "what is X" apart from "how is X calculated".
+ */
+
+import { ENERGY_GLOSSARY } from '../data/energyGlossary';
+import type { GlossaryEntry } from '../data/energyGlossary';
+import { METADATA_CATALOG } from '../data/metadataCatalog';
+import type { DatasetMetadata } from '../data/metadataCatalog';
+
+export type MetadataQuestion = 'definition' | 'calculation';
+
+// "how is X calculated", "how do you compute X", "formula for X", "methodology of X"
+const CALCULATION_RE = /\b(calculat\w*|comput\w*|measured|derived|estimated|formula|methodology)\b/;
+
+// Aliases longest first, so "final energy consumption" wins over "final consumption"
+const ALIASES = ENERGY_GLOSSARY
+  .flatMap(entry => entry.aliases.map(alias => ({ alias, entry })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+export function questionKind(input: string): MetadataQuestion {
+  return CALCULATION_RE.test(input.toLowerCase()) ? 'calculation' : 'definition';
+}
+
+/**
+ * Glossary entry whose term or alias occurs in the text, preferring the longest match
+ */
+export function findGlossaryEntry(input: string): GlossaryEntry | null {
+  const text = ` ${input.toLowerCase().replace(/[^\p{L}\p{N}_-]+/gu, ' ')} `;
+  return ALIASES.find(({ alias }) => text.includes(` ${alias} `))?.entry ?? null;
+}
+
+export function glossaryEntry(id: string): GlossaryEntry | undefined {
+  return ENERGY_GLOSSARY.find(entry => entry.id === id);
+}
+
+export function findDataset(code: string): DatasetMetadata | null {
+  return METADATA_CATALOG.find(meta => meta.code === code.toLowerCase()) ?? null;
+}
@@ -38,8 +38,10 @@ const DEFAULT_DOMAIN_VOCAB: string[] = [
   'consumption','production','generation','demand','supply','emission','emissions','intensity','efficiency','capacity','storage',
   'price','prices','tariff','tariffs','investment','import','imports','export','exports',
   'top','bottom','highest','lowest','ranking','rank',
-  'kwh','mwh','gwh','twh','toe','ktoe',
+  'kwh','mwh','gwh','twh','toe','ktoe','per','capita','share',
   'monthly','quarterly','annual','annually',
+  'gross','inland','final','primary','available','dependency','balance','balances','equivalent','tonne','tonnes','bunkers','levies',
+  'definition','define','defined','meaning','calculated','computed','measured','methodology','metadata','glossary',
   'france','spain','germany','italy','portugal','belgium','netherlands','luxembourg','ireland','denmark','sweden','finland',
   'poland','czechia','slovakia','slovenia','hungary','austria','romania','bulgaria','greece','croatia','estonia','latvia','lithuania','malta','cyprus',
   'europe','eurostat','eu','eu27','euro','eurozone','euro area'
@@ -132,8 +134,11 @@ function replaceUrlsAndEmails(
 /* ----------------- Tokenization & elongations ----------------- */
 
 function tokenize(t: string): string[] {
-  // grab sequences of letters, digits, or apostrophes; unicode aware
-  return (t.match(/[\p{L}\p{N}']+/gu) || []).slice(0, 1024);
+  // grab Eurostat table codes (nrg_ind_ren) and year ranges (2018-2022) whole,
+  // then sequences of letters, digits, or apostrophes; unicode aware
+  return (t.match(/\bnrg_[a-z0-9_]+|\b(?:19|20)\d{2}\s*[-–—]\s*(?:19|20)\d{2}\b|[\p{L}\p{N}']+/gu) || [])
+    .map(tok => tok.replace(/\s+/g, ''))
+    .slice(0, 1024);
 }
 
 function collapseElongationsToken(token: string): { out: string; changed: boolean } {
@@ -181,6 +186,8 @@ const SOCIAL_TOKENS = new Set([
   'see','till','well','one','out','off','got','im',
   // Affirmative/negative words - protect from spell correction:
   'aye','right','bet','hmm','nay','wont','cant','dont','think','maybe',
+  // "fine" would otherwise become "find"
+  'fine',
   // Greeting words and phrases - protect from spell correction:
   'long', 'been', 'while',
   // Contractions - protect from spell correction:
@@ -192,7 +199,7 @@ const EN_STOPWORDS = new Set<string>([
   'i','you','he','she','it','we','they','me','him','her','them','my','your','his','her','its','our','their',
   'to','for','from','in','on','at','by','of','with','as','is','are','was','were','be','been','being',
   'do','does','did','can','could','should','would','may','might','will','shall',
-  'this','that','these','those','there','here','now','then','not','no','yes','ok','okay','please'
+  'this','that','these','those','there','here','now','then','not','no','yes','ok','okay','please','any'
 ]);
 
 // very small base english words to keep false positives down
@@ -200,6 +207,7 @@ const EN_BASE_SMALL = new Set<string>([
   'hello','hi','hey','bye','thanks','thank','help','download','export','show','plot','chart','map','table',
   'compare','definition','source','frequency','latest','trend','value','values','increase','decrease','error','crash',
   'reset','filter','select','update','open','close','share','explain','define','calculate','generate','summarize','rank',
+  'dataset','datasets','tables','search','find','browse','list',
   // add interrogatives explicitly here too for redundancy
   'who','what','when','where','why','how','which'
 ]);
@@ -384,6 +392,7 @@ export function preprocessInput(raw: string, opts?: PreprocessOptions): Preproce
       if (EN_STOPWORDS.has(tok)) return tok;              // do not correct stopwords
       if (dict.has(tok)) return tok;                      // known word
       if (tok.length <= 2) return tok;                    // too short to correct
+      if (/[_\-–—]/.test(tok)) return tok;               // dataset codes and year ranges are not words
       const suggestion = suggestWord(tok, dict, options.maxEditDistance);
       if (suggestion && suggestion !== tok) {
         corrections.push({ from: tok, to: suggestion, reason: 'spelling' });
@@ -0,0 +1,285 @@
+// utils/queryPlanner.ts
+// Entities → Eurostat query plan. Picks a dataset from the declarative DATASET_MAPPINGS,
+// resolves dimension codes, and reports what is still missing, with a human-readable
+// explanation of every decision. No network access: pair with eurostatClient to execute.
+
+import { DATASET_MAPPINGS } from '../data/queryMappings';
+import { AMBIGUOUS_ISO2 } from '../data/eurostatCodes';
+import type { DatasetMapping, DimensionRule, EntitySource, QuerySlot } from '../data/queryMappings';
+import type { Entities } from './entityExtractor';
+import type { EurostatRequest } from './eurostatClient';
+
+export type { QuerySlot } from '../data/queryMappings';
+
+export interface DimensionSelection {
+  dimension: string;
+  codes: string[];
+  origin: 'entity' | 'default' | 'adjusted';
+  /** Entity words the codes were mapped from */
+  matched: string[];
+}
+
+export interface TimeSelection {
+  periods?: string[];
+  sinceTimePeriod?: string;
+  untilTimePeriod?: string;
+  lastTimePeriod?: number;
+  origin: 'entity' | 'default';
+}
+
+export interface QueryPlan {
+  /** Null when no mapping applies (nothing energy-related was recognised) */
+  mapping: DatasetMapping | null;
+  dataset?: string;
+  dimensions: DimensionSelection[];
+  time: TimeSelection;
+  /** Slots that must be asked for before the query can run, in asking order */
+  missing: QuerySlot[];
+  /** Entity words that no dimension of the chosen dataset could use */
+  unmapped: string[];
+  explanation: string[];
+}
+
+// Order in which missing slots are asked for
+const SLOT_ORDER: QuerySlot[] = ['product', 'geo', 'time', 'unit'];
+
+const SOURCE_SLOT: Partial<Record<EntitySource, QuerySlot>> = {
+  product: 'product',
+  geo: 'geo',
+  unit: 'unit',
+};
+
+/* ===================== Planning ===================== */
+
+export function planQuery(entities: Entities, mappings: DatasetMapping[] = DATASET_MAPPINGS): QueryPlan {
+  const explanation: string[] = [];
+  const hasSubject = entities.measure.products.length > 0 || entities.measure.measures.length > 0;
+  const mapping = chooseMapping(entities, mappings, explanation);
+
+  if (!mapping || (!hasSubject && !hintedDataset(entities, mapping))) {
+    explanation.push('No energy product or measure recognised, so no dataset can be chosen yet');
+    return { mapping: null, dimensions: [], time: { origin: 'default' }, missing: ['product'], unmapped: [], explanation };
+  }
+
+  const dimensions: DimensionSelection[] = [];
+  const missing = new Set<QuerySlot>();
+  const used = new Set<string>([...(matchMapping(mapping, entities)?.hits ?? []), ...(mapping.implies ?? [])]);
+
+  for (const [dimension, rule] of Object.entries(mapping.dimensions)) {
+    const selection = selectDimension(dimension, rule, entities, used);
+    if (selection) {
+      dimensions.push(selection);
+      explanation.push(describeSelection(selection));
+    } else if (rule.source && SOURCE_SLOT[rule.source]) {
+      missing.add(SOURCE_SLOT[rule.source]!);
+      explanation.push(`${dimension}: nothing in the message maps onto it, so it has to be asked for`);
+    }
+  }
+
+  applyAdjustments(mapping, dimensions, explanation);
+
+  const time = selectTime(entities, mapping);
+  explanation.push(time.origin === 'entity'
+    ? `time: ${describeTime(time)} from the message`
+    : 'time: latest available period (default)');
+
+  const unmapped = entityWords(entities).filter(word => !used.has(word));
+  if (unmapped.length) {
+    explanation.push(`Not covered by ${mapping.dataset}: ${unmapped.join(', ')}`);
+  }
+
+  return {
+    mapping,
+    dataset: mapping.dataset,
+    dimensions,
+    time,
+    missing: SLOT_ORDER.filter(slot => missing.has(slot)),
+    unmapped,
+    explanation,
+  };
+}
+
+/**
+ * Turn a complete plan into a dissemination API request
+ */
+export function toEurostatRequest(plan: QueryPlan): EurostatRequest | null {
+  if (!plan.dataset || plan.missing.length > 0) return null;
+
+  const filters: Record<string, string[]> = {};
+  for (const { dimension, codes } of plan.dimensions) filters[dimension] = codes;
+  if (plan.time.periods) filters.time = plan.time.periods;
+
+  return {
+    dataset: plan.dataset,
+    filters,
+    sinceTimePeriod: plan.time.sinceTimePeriod,
+    untilTimePeriod: plan.time.untilTimePeriod,
+    lastTimePeriod: plan.time.lastTimePeriod,
+  };
+}
+
+/* ===================== Mapping choice ===================== */
+
+function chooseMapping(entities: Entities, mappings: DatasetMapping[], explanation: string[]): DatasetMapping | null {
+  // An explicit table code mentioned by the user wins outright
+  const hinted = mappings.find(m => hintedDataset(entities, m));
+  if (hinted) {
+    explanation.push(`Dataset ${hinted.dataset} (${hinted.label}) was named explicitly`);
+    return hinted;
+  }
+
+  let best: { mapping: DatasetMapping; score: number; reasons: string[]; hits: string[] } | null = null;
+  for (const mapping of mappings) {
+    const match = matchMapping(mapping, entities);
+    if (!match) continue;
+    const better = !best
+      || match.score > best.score
+      || (match.score === best.score && mapping.priority > best.mapping.priority);
+    if (better) best = { mapping, ...match };
+  }
+
+  if (best) {
+    const why = best.reasons.length ? `matched ${best.reasons.join(', ')}` : 'general energy query';
+    explanation.push(`Dataset ${best.mapping.dataset} (${best.mapping.label}) via rule "${best.mapping.id}": ${why}`);
+  }
+  return best?.mapping ?? null;
+}
+
+function hintedDataset(entities: Entities, mapping: DatasetMapping): boolean {
+  return entities.dataset.tables?.includes(mapping.dataset) ?? false;
+}
+
+function matchMapping(mapping: DatasetMapping, entities: Entities): { score: number; reasons: string[]; hits: string[] } | null {
+  const { measures, products, sectors, perCapita } = mapping.when;
+  const reasons: string[] = [];
+  const allHits: string[] = [];
+
+  const conditions: [string, string[] | undefined, string[]][] = [
+    ['measures', measures, entities.measure.measures],
+    ['products', products, entities.measure.products],
+    ['sectors', sectors, entities.filters.sectors],
+  ];
+  for (const [name, wanted, present] of conditions) {
+    if (!wanted) continue;
+    const hits = present.filter(word => wanted.includes(word));
+    if (hits.length === 0) return null;
+    reasons.push(`${name} "${hits.join('", "')}"`);
+    allHits.push(...hits);
+  }
+  if (perCapita !== undefined) {
+    if (entities.filters.perCapita !== perCapita) return null;
+    reasons.push('"per capita"');
+  }
+
+  return { score: reasons.length, reasons, hits: allHits };
+}
+
+/* ===================== Dimensions ===================== */
+
+function sourceWords(source: EntitySource, entities: Entities): string[] {
+  switch (source) {
+    case 'product':
+      return entities.measure.products;
+    case 'flow':
+      return [...entities.filters.sectors, ...entities.measure.measures, ...entities.measure.products];
+    case 'geo':
+      return [
+        ...entities.geography.countries,
+        ...entities.geography.iso2.filter(code => !AMBIGUOUS_ISO2.has(code)),
+        ...entities.geography.groups,
+      ];
+    case 'unit':
+      return [...entities.filters.units, ...(entities.filters.perCapita ? ['per capita'] : [])];
+  }
+}
+
+function selectDimension(dimension: string, rule: DimensionRule, entities: Entities, used: Set<string>): DimensionSelection | null {
+  if (rule.source && rule.codes) {
+    const matched: string[] = [];
+    const codes: string[] = [];
+    for (const word of sourceWords(rule.source, entities)) {
+      const code = rule.codes[word];
+      if (!code) continue;
+      matched.push(word);
+      used.add(word);
+      if (!codes.includes(code)) codes.push(code);
+    }
+    if (codes.length) {
+      return { dimension, codes: rule.single ? codes.slice(0, 1) : codes, origin: 'entity', matched };
+    }
+  }
+
+  if (rule.required) return null;
+  return rule.default ? { dimension, codes: [...rule.default], origin: 'default', matched: [] } : null;
+}
+
+function applyAdjustments(mapping: DatasetMapping, dimensions: DimensionSelection[], explanation: string[]): void {
+  const byId = new Map(dimensions.map(d => [d.dimension, d]));
+
+  for (const adjustment of mapping.adjust ?? []) {
+    const applies = Object.entries(adjustment.when).every(([dimension, codes]) =>
+      byId.get(dimension)?.codes.some(code => codes.includes(code))
+    );
+    if (!applies) continue;
+
+    for (const [dimension, codes] of Object.entries(adjustment.set)) {
+      const selection = byId.get(dimension);
+      if (!selection) continue;
+      selection.codes = [...codes];
+      selection.origin = 'adjusted';
+    }
+    explanation.push(`Adjusted: ${adjustment.reason}`);
+  }
+}
+
+function describeSelection(selection: DimensionSelection): string {
+  const codes = selection.codes.join(', ');
+  return selection.origin === 'entity'
+    ? `${selection.dimension} = ${codes} from "${selection.matched.join('", "')}"`
+    : `${selection.dimension} = ${codes} (default)`;
+}
+
+/* ===================== Time ===================== */
+
+function selectTime(entities: Entities, mapping: DatasetMapping): TimeSelection {
+  const { years, ranges, relative } = entities.time;
+  const range = ranges[0];
+
+  if (range) {
+    return { sinceTimePeriod: String(range[0]), untilTimePeriod: String(range[1]), origin: 'entity' };
+  }
+  if (years.length) {
+    const sorted = [...years].sort((a, b) => a - b);
+    // Sub-annual datasets are addressed by year span ("2021" covers 2021-S1 and 2021-S2)
+    return mapping.frequency === 'annual'
+      ? { periods: sorted.map(String), origin: 'entity' }
+      : { sinceTimePeriod: String(sorted[0]), untilTimePeriod: String(sorted[sorted.length - 1]), origin: 'entity' };
+  }
+  if (relative?.lastNYears) {
+    const perYear = mapping.frequency === 'semi-annual' ? 2 : 1;
+    return { lastTimePeriod: relative.lastNYears * perYear, origin: 'entity' };
+  }
+  return { lastTimePeriod: 1, origin: 'default' };
+}
+
+export function describeTime(time: TimeSelection): string {
+  if (time.periods) return time.periods.join(', ');
+  if (time.sinceTimePeriod) {
+    return time.sinceTimePeriod === time.untilTimePeriod
+      ? time.sinceTimePeriod
+      : `${time.sinceTimePeriod}–${time.untilTimePeriod ?? 'latest'}`;
+  }
+  if (time.lastTimePeriod && time.lastTimePeriod > 1) return `last ${time.lastTimePeriod} periods`;
+  return 'latest available period';
+}
+
+/* ===================== Helpers ===================== */
+
+function entityWords(entities: Entities): string[] {
+  return Array.from(new Set([
+    ...entities.measure.products,
+    ...entities.measure.measures,
+    ...entities.filters.sectors,
+    ...entities.filters.units,
+  ]));
+}
@@ -0,0 +1,152 @@
+// utils/queryRefinement.ts
+// Applies a follow-up message ("and for 2019?", "what about Germany?", "per capita please")
+// to the entities of the active query, reports each change in plain words, and notices
+// when the refined query would be answered from a different dataset.
+
+import { AMBIGUOUS_ISO2 } from '../data/eurostatCodes';
+import type { DatasetMapping } from '../data/queryMappings';
+import type { Entities } from './entityExtractor';
+import { planQuery } from './queryPlanner';
+
+export type RefinableSlot = 'product' | 'geo' | 'time' | 'unit' | 'sector';
+
+export interface QueryChange {
+  slot: RefinableSlot;
+  from: string;
+  to: string;
+}
+
+export interface Refinement {
+  entities: Entities;
+  changes: QueryChange[];
+}
+
+/** A refined query that would be answered from another dataset than the one refined */
+export interface MeasureSwitch {
+  from: DatasetMapping;
+  to: DatasetMapping;
+}
+
+// Words that ask to add countries rather than swap them ("also Spain", "Italy too", "compare with Spain")
+const ADDITIVE_RE = /\b(also|too|as well|add|plus|include|including|compared? (?:to|with)|vs|versus|against)\b/;
+
+const SLOT_NAMES: Record<RefinableSlot, string> = {
+  product: 'energy type',
+  geo: 'geography',
+  time: 'period',
+  unit: 'unit',
+  sector: 'sector',
+};
+
+/**
+ * Slots a follow-up message carries a new value for
+ */
+export function refinedSlots(update: Entities): RefinableSlot[] {
+  const slots: RefinableSlot[] = [];
+  if (update.measure.products.length) slots.push('product');
+  const { countries, groups, iso2 } = update.geography;
+  if (countries.length || groups.length || iso2.some(code => !AMBIGUOUS_ISO2.has(code))) slots.push('geo');
+  if (update.time.years.length || update.time.ranges.length || update.time.relative) slots.push('time');
+  if (update.filters.units.length || update.filters.perCapita) slots.push('unit');
+  if (update.filters.sectors.length) slots.push('sector');
+  return slots;
+}
+
+/**
+ * Replace the slots named in the follow-up, keep everything else from the active query
+ */
+export function refineQuery(base: Entities, update: Entities, input = ''): Refinement {
+  const slots = refinedSlots(update);
+  const entities: Entities = structuredClone(base);
+
+  for (const slot of slots) {
+    switch (slot) {
+      case 'product':
+        entities.measure.products = [...update.measure.products];
+        break;
+      case 'geo':
+        entities.geography = ADDITIVE_RE.test(input.toLowerCase())
+          ? {
+              iso2: union(base.geography.iso2, update.geography.iso2),
+              countries: union(base.geography.countries, update.geography.countries),
+              groups: union(base.geography.groups, update.geography.groups),
+              nuts: union(base.geography.nuts ?? [], update.geography.nuts ?? []),
+            }
+          : structuredClone(update.geography);
+        break;
+      case 'time':
+        entities.time = structuredClone(update.time);
+        break;
+      case 'unit':
+        entities.filters.units = [...update.filters.units];
+        entities.filters.perCapita = update.filters.perCapita;
+        break;
+      case 'sector':
+        entities.filters.sectors = [...update.filters.sectors];
+        break;
+    }
+  }
+
+  const changes = slots
+    .map(slot => ({ slot, from: describeSlot(slot, base), to: describeSlot(slot, entities) }))
+    .filter(change => change.from !== change.to);
+
+  return { entities, changes };
+}
+
+/**
+ * The dataset a refinement would move to when the refined one has no series for it ("per
+ * capita" after an electricity balance lands on total final energy consumption). A follow-up
+ * naming another product asks for another measure on purpose, so it is not a switch.
+ */
+export function measureSwitch(base: Entities, refined: Entities, changes: QueryChange[]): MeasureSwitch | null {
+  if (changes.some(change => change.slot === 'product')) return null;
+  const from = planQuery(base).mapping;
+  const to = planQuery(refined).mapping;
+  return from && to && from.dataset !== to.dataset ? { from, to } : null;
+}
+
+/**
+ * "period: 2021 → 2019; geography: Germany → France"
+ */
+export function describeChanges(changes: QueryChange[]): string {
+  return changes.map(({ slot, from, to }) => `${SLOT_NAMES[slot]}: ${from} → ${to}`).join('; ');
+}
+
+export function describeSlot(slot: RefinableSlot, entities: Entities): string {
+  switch (slot) {
+    case 'product':
+      return list(entities.measure.products.map(capitalize), 'all products');
+    case 'geo':
+      return list([
+        ...entities.geography.countries.map(capitalize),
+        ...entities.geography.groups.map(group => group.toUpperCase()),
+        ...entities.geography.iso2.filter(code => !AMBIGUOUS_ISO2.has(code)).map(code => code.toUpperCase()),
+      ], 'none');
+    case 'time': {
+      const { years, ranges, relative } = entities.time;
+      if (ranges.length) return ranges.map(([from, to]) => `${from}–${to}`).join(', ');
+      if (years.length) return [...years].sort((a, b) => a - b).join(', ');
+      if (relative?.lastNYears) return `last ${relative.lastNYears} years`;
+      if (relative?.sinceYear) return `since ${relative.sinceYear}`;
+      return 'latest available';
+    }
+    case 'unit':
+      if (entities.filters.perCapita) return 'per capita';
+      return list(entities.filters.units.map(unit => unit.toUpperCase()), 'default unit');
+    case 'sector':
+      return list(entities.filters.sectors, 'all sectors');
+  }
+}
+
+function list(values: string[], empty: string): string {
+  return values.length ? Array.from(new Set(values)).join(', ') : empty;
+}
+
+function capitalize(word: string): string {
+  return word.replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return Array.from(new Set([...a, ...b]));
+}
@@ -3,16 +3,39 @@
  * Handles different intent types and generates appropriate responses
  * Routes to appropriate services based on intent and entities
  */
-import { greetingResponses, farewellResponses, thanksResponses, affirmativeResponses, negativeResponses, smalltalkResponses, statementResponses, helpResponse, invalidResponse, metadataResponse, visualizationResponse, downloadResponse, commandResponse, questionResponse, troubleshootingResponse } from '../data/responses';
+import { greetingResponses, farewellResponses, thanksResponses, affirmativeResponses, negativeResponses, smalltalkResponses, statementResponses, helpResponse, invalidResponse, metadataResponse, visualizationResponse, downloadResponse, commandResponse, questionResponse, troubleshootingResponse, slotPrompts, proposalReplies } from '../data/responses';
+import { EU_MEMBER_GEOS } from '../data/eurostatCodes';
 
 import type { Entities } from './entityExtractor';
 import type { Resolution } from './intentDetection';
 import { generateSupportEmailUrl } from './emailHelper';
+import eurostatClient from './eurostatClient';
+import type { EurostatResult } from './eurostatClient';
+import { planQuery, toEurostatRequest } from './queryPlanner';
+import type { QueryPlan } from './queryPlanner';
+import { buildCatalogCard, buildChart, buildDataContent, buildDataTable, buildDatasetCard, categoryText, distinctCodes, formatValue, unitText, varyingDimensions, QUALIFIER_DIMENSIONS } from './richContent';
+import type { RichContent } from './richContent';
+import { refineQuery, describeChanges, measureSwitch } from './queryRefinement';
+import { summarizeChart } from './chartSummary';
+import { compareResult } from './comparisonEngine';
+import { detectExportFormats, exportFilename, EXPORT_FORMATS } from './dataExport';
+import type { ExportFormat, ExportRequest } from './dataExport';
+import { findDataset, findGlossaryEntry, glossaryEntry, questionKind } from './metadataLookup';
+import type { MetadataQuestion } from './metadataLookup';
+import { isDatasetSearch, isDatasetSelection, searchDatasets, searchTerms } from './datasetSearch';
+import type { GlossaryEntry } from '../data/energyGlossary';
+import type { DatasetMetadata } from '../data/metadataCatalog';
+import conversationContext from '../state/conversationContext';
+import type { ActiveQueryIntent, Clarification, Proposal, ProposalAction } from '../state/conversationContext';
 
 export interface ResolverAction {
-  type: 'mailto' | 'link' | 'button';
+  type: 'mailto' | 'link' | 'button' | 'download';
   label: string;
   url: string;
+  /** File name for 'download' actions */
+  filename?: string;
+  /** Selection and format a 'download' action builds its file from when clicked */
+  export?: ExportRequest;
 }
 
 export interface ResolverResponse {
@@ -23,6 +46,12 @@ export interface ResolverResponse {
     confidence?: number;
     suggestions?: string[];
     actions?: ResolverAction[];
+    /** Yes/no question this response ends with; the next affirmative/negative answers it */
+    proposal?: Proposal;
+    /** "Did you mean …?" question this response asks; the next message may pick an intent */
+    clarification?: Clarification;
+    /** Structured blocks rendered under the text (tables, charts, cards, chips) */
+    content?: RichContent[];
   };
 }
 
@@ -50,7 +79,7 @@ function getRandomIndexExcludingLast(lastIndex: number, arrayLength: number): nu
 /**
  * Main response resolver that routes based on intent
  */
-export async function resolveResponse(resolution: Resolution, entities: Entities): Promise<ResolverResponse> {
+export async function resolveResponse(resolution: Resolution, entities: Entities, input = ''): Promise<ResolverResponse> {
   const { primary: intent } = resolution;
 
   try {
@@ -65,10 +94,10 @@ export async function resolveResponse(resolution: Resolution, entities: Entities
         return handleThanks();
 
       case 'affirmative':
-        return handleAffirmative();
+        return await handleAffirmative(resolution);
 
       case 'negative':
-        return handleNegative();
+        return await handleNegative(resolution);
 
       case 'help':
         return handleHelp();
@@ -77,23 +106,23 @@ export async function resolveResponse(resolution: Resolution, entities: Entities
         return await handleDataQuery(resolution, entities);
 
       case 'metadata_request':
-        return await handleMetadataRequest();
+        return handleMetadataRequest(entities, input);
 
       case 'compare_request':
-        return await handleCompareRequest(entities);
+        return await handleCompareRequest(entities, input);
 
       case 'viz_request':
-        return await handleVisualizationRequest();
+        return await handleVisualizationRequest(resolution, entities);
 
       case 'download_request':
-        return await handleDownloadRequest();
+        return await handleDownloadRequest(resolution, entities, input);
 
       case 'filter_change':
       case 'time_change':
-        return handleFilterChange(entities);
+        return await handleFilterChange(resolution, entities, input);
 
       case 'command':
-        return handleCommand();
+        return isDatasetSelection(input) ? await handleDatasetSelection(resolution, entities) : handleCommand();
 
       case 'question':
         return await handleQuestion(resolution, entities);
@@ -122,6 +151,41 @@ export async function resolveResponse(resolution: Resolution, entities: Entities
   }
 }
 
+/**
+ * One reply for the clauses of a compound message, answered in order: texts and blocks
+ * in sequence, and the follow-up question and suggestions of the last clause, since that
+ * is what the next message answers
+ */
+export function combineResponses(responses: ResolverResponse[]): ResolverResponse {
+  if (responses.length === 1) return responses[0];
+
+  const last = responses[responses.length - 1];
+  const actions = responses.flatMap(response => response.metadata?.actions ?? []);
+  const content = responses.flatMap(response => response.metadata?.content ?? []);
+  const confidences = responses.map(response => response.metadata?.confidence).filter((c): c is number => c !== undefined);
+  const suggestions = [...responses].reverse().find(response => response.metadata?.suggestions?.length)?.metadata?.suggestions;
+
+  // Only the last clause's yes/no question stays open, so the others drop theirs
+  const texts = responses.map((response, i) => {
+    const question = i < responses.length - 1 ? response.metadata?.proposal?.question : undefined;
+    return question && response.text.endsWith(question) ? response.text.slice(0, -question.length).trimEnd() : response.text;
+  });
+
+  return {
+    text: texts.join('\n\n'),
+    type: responses.some(response => response.type === 'data') ? 'data' : last.type,
+    metadata: {
+      source: 'multi_intent',
+      ...(confidences.length ? { confidence: Math.min(...confidences) } : {}),
+      ...(suggestions ? { suggestions } : {}),
+      ...(actions.length ? { actions } : {}),
+      ...(content.length ? { content } : {}),
+      ...(last.metadata?.proposal ? { proposal: last.metadata.proposal } : {}),
+      ...(last.metadata?.clarification ? { clarification: last.metadata.clarification } : {}),
+    },
+  };
+}
+
 /**
  * Greeting responses
  */
@@ -136,7 +200,7 @@ function handleGreeting(resolution: Resolution): ResolverResponse {
     type: 'text',
     metadata: {
       source: 'greeting_handler',
-      confidence: resolution.scores.greeting
+      confidence: resolution.confidence
     }
   };
 }
@@ -184,7 +248,10 @@ function handleThanks(): ResolverResponse {
  */
 let lastAffirmativeIndex = -1;
 
-function handleAffirmative(): ResolverResponse {
+async function handleAffirmative(resolution: Resolution): Promise<ResolverResponse> {
+  const proposal = conversationContext.takeProposal();
+  if (proposal) return await runProposalAction(proposal.yes, resolution);
+
   const responses = affirmativeResponses;
 
   const responseIndex = getRandomIndexExcludingLast(lastAffirmativeIndex, responses.length);
@@ -204,7 +271,10 @@ function handleAffirmative(): ResolverResponse {
  */
 let lastNegativeIndex = -1;
 
-function handleNegative(): ResolverResponse {
+async function handleNegative(resolution: Resolution): Promise<ResolverResponse> {
+  const proposal = conversationContext.takeProposal();
+  if (proposal) return await runProposalAction(proposal.no, resolution);
+
   const responses = negativeResponses;
 
   const responseIndex = getRandomIndexExcludingLast(lastNegativeIndex, responses.length);
@@ -219,6 +289,35 @@ function handleNegative(): ResolverResponse {
   };
 }
 
+/**
+ * Carry out the answer to a pending yes/no proposal
+ */
+async function runProposalAction(action: ProposalAction, resolution: Resolution): Promise<ResolverResponse> {
+  if (action.kind === 'query') {
+    return await runQuery(action.intent, resolution, action.entities);
+  }
+
+  return {
+    text: action.text,
+    type: 'text',
+    metadata: {
+      source: 'proposal_handler',
+      suggestions: action.suggestions
+    }
+  };
+}
+
+async function runQuery(intent: ActiveQueryIntent, resolution: Resolution, entities: Entities): Promise<ResolverResponse> {
+  switch (intent) {
+    case 'compare_request':
+      return await handleCompareRequest(entities);
+    case 'viz_request':
+      return await handleVisualizationRequest({ ...resolution, primary: intent }, entities);
+    default:
+      return await handleDataQuery({ ...resolution, primary: intent }, entities);
+  }
+}
+
 function handleHelp(): ResolverResponse {
   return {
     text: helpResponse,
@@ -238,98 +337,354 @@ function handleHelp(): ResolverResponse {
  * Data query handler - calls Eurostat API
  */
 async function handleDataQuery(resolution: Resolution, entities: Entities): Promise<ResolverResponse> {
+  const plan = planQuery(entities);
+  const request = toEurostatRequest(plan);
+
+  if (!request) {
+    const prompt = slotPrompts[plan.missing[0] ?? 'product'];
+    return {
+      text: prompt.text,
+      type: 'text',
+      metadata: {
+        source: 'data_query_handler',
+        suggestions: prompt.suggestions
+      }
+    };
+  }
 
-  // Simulate API call - in real implementation, this would call Eurostat API
   try {
-    // Check if we have sufficient entities for a meaningful query
-    const hasTime = entities.time && (entities.time.years.length > 0 || entities.time.ranges.length > 0);
-    const hasGeo = entities.geography && (entities.geography.countries.length > 0 || entities.geography.groups.length > 0);
-    const hasMeasure = entities.measure && entities.measure.measures.length > 0;
+    const result = await eurostatClient.fetchDataset(request);
+    conversationContext.setActiveQuery('data_query', entities, result.dataset);
 
-    if (!hasMeasure) {
+    if (result.observations.length === 0) {
+      const latestQuestion = 'Would you like the latest available period for the same selection instead?';
+      const canOfferLatest = plan.time.origin === 'entity';
       return {
-        text: "I need to know what type of energy data you're interested in. Could you specify electricity, gas, renewable energy, or another energy type?",
+        text: `Eurostat has no values for this selection in **${result.label}** (${result.dataset}). ${canOfferLatest ? latestQuestion : 'Try another year or country.'}`,
         type: 'text',
         metadata: {
-          source: 'data_query_handler',
-          suggestions: ['electricity production', 'gas consumption', 'renewable energy', 'energy prices']
+          source: 'eurostat_api',
+          suggestions: canOfferLatest ? ['Yes', 'No'] : ['EU-27 total'],
+          proposal: canOfferLatest ? {
+            question: latestQuestion,
+            yes: { kind: 'query', intent: 'data_query', entities: withoutTime(entities) },
+            no: { kind: 'reply', ...proposalReplies.latestPeriod.no }
+          } : undefined
         }
       };
     }
 
-    // Build query description
-    const queryParts = [];
-    if (hasGeo) {
-      const geoValues = [
-        ...entities.geography.countries,
-        ...entities.geography.groups
-      ];
-      if (geoValues.length > 0) {
-        queryParts.push(`for ${geoValues.join(', ')}`);
+    return {
+      text: `${formatDataResult(result, plan)}\n\n${REFINE_QUESTION}`,
+      type: 'data',
+      metadata: {
+        source: 'eurostat_api',
+        confidence: resolution.confidence,
+        content: buildDataContent(result, resultSubject(result)),
+        proposal: {
+          question: REFINE_QUESTION,
+          yes: { kind: 'reply', ...proposalReplies.refine.yes },
+          no: { kind: 'reply', ...proposalReplies.refine.no }
+        }
       }
-    }
-    if (hasTime) {
-      const timeValues = [
-        ...entities.time.years.map(y => y.toString()),
-        ...entities.time.ranges.map(r => `${r[0]}-${r[1]}`)
-      ];
-      if (timeValues.length > 0) {
-        queryParts.push(`in ${timeValues.join(', ')}`);
+    };
+
+  } catch (error) {
+    console.error('Eurostat query failed:', error);
+    return {
+      text: "I encountered an issue accessing the Eurostat database. Please try again or rephrase your query.",
+      type: 'error',
+      metadata: {
+        source: 'data_query_handler'
       }
-    }
-    if (hasMeasure) {
-      queryParts.push(`regarding ${entities.measure.measures.join(', ')}`);
-    }
+    };
+  }
+}
 
-    const queryDescription = queryParts.join(' ');
+const REFINE_QUESTION = 'Would you like to refine this query (another year, country or unit)?';
 
-    // Simulate API response
-    return {
-      text: `I'll help you find ${queryDescription}. Let me query the Eurostat database...
+/**
+ * Headline of a result: the categories every observation shares
+ */
+function resultSubject(result: EurostatResult): string {
+  const subject = result.dimensions
+    .filter(d => !QUALIFIER_DIMENSIONS.has(d.id) && distinctCodes(result, d.id).length === 1)
+    .map(d => categoryText(result, d.id, distinctCodes(result, d.id)[0]));
+  return subject.join(' — ') || result.label;
+}
 
-🔍 **Query Results:**
-Based on your request, I've found relevant energy data. In a full implementation, this would connect to the Eurostat API and return actual statistics.
+/**
+ * Format decoded observations as a short, readable answer.
+ * A single value is written out; several values go to the attached table.
+ */
+function formatDataResult(result: EurostatResult, plan: QueryPlan): string {
+  const varying = varyingDimensions(result);
+  const [first] = result.observations;
 
-**Sample Data Structure:**
-• Dataset: Energy Statistics
-• Coverage: ${hasGeo ? [...entities.geography.countries, ...entities.geography.groups][0] || 'EU countries' : 'EU countries'}
-• Time Period: ${hasTime ? [...entities.time.years.map(y => y.toString()), ...entities.time.ranges.map(r => `${r[0]}-${r[1]}`)][0] || 'Latest available' : 'Latest available'}
-• Energy Type: ${hasMeasure ? entities.measure.measures[0] : 'Various'}
+  const body = result.observations.length === 1
+    ? `• ${varying.map(id => categoryText(result, id, first.dimensions[id])).join(', ')}: **${formatValue(first.value)}** ${unitText(first.dimensions)}${first.status ? ` (${first.status})` : ''}`
+    : `${result.observations.length} values for ${varying.map(id => `${distinctCodes(result, id).length} ${id === 'geo' ? 'geographies' : id === 'time' ? 'periods' : 'categories'}`).join(' and ')}, shown in the table below.`;
 
-Would you like me to show you how to access this data or refine your search?`,
-      type: 'data',
+  const flags = result.observations.length === 1 && first.status ? [first.status] : [];
+  const notes = [
+    ...resultNotes(result, plan),
+    ...flags.map(f => `(${f}) = ${result.raw.extension?.status?.label?.[f] ?? f}`),
+  ];
+
+  return `📊 **${resultSubject(result)}**
+
+${body}
+
+${notes.join('\n')}`;
+}
+
+/**
+ * Source line, plus what the dataset could not take into account
+ */
+function resultNotes(result: EurostatResult, plan: QueryPlan): string[] {
+  return [
+    ...(plan.unmapped.length ? [`Not covered by this dataset and left out: ${plan.unmapped.join(', ')}.`] : []),
+    `Source: Eurostat, ${result.label} (${result.dataset})${result.updated ? `, last updated ${result.updated.slice(0, 10)}` : ''}.`,
+  ];
+}
+
+function hasSubject(entities: Entities): boolean {
+  return entities.measure.products.length > 0 || entities.measure.measures.length > 0 || !!entities.dataset.tables?.length;
+}
+
+function withoutTime(entities: Entities): Entities {
+  return { ...entities, time: { years: [], ranges: [], quarters: [], months: [], frequency: [] } };
+}
+
+/**
+ * Metadata request handler - answers from the local catalog and glossary: a dataset search,
+ * a named dataset code, a glossary term, then the dataset the message's subject maps to
+ */
+function handleMetadataRequest(entities: Entities, input: string): ResolverResponse {
+  if (isDatasetSearch(input)) return datasetSearchResponse(searchTerms(input));
+
+  const table = entities.dataset.tables?.map(findDataset).find(meta => meta !== null);
+  if (table) return datasetMetadataResponse(table);
+
+  const entry = findGlossaryEntry(input);
+  if (entry) return glossaryResponse(entry, questionKind(input));
+
+  const subject = hasSubject(entities) ? planQuery(entities).dataset : undefined;
+  const meta = subject ? findDataset(subject) : null;
+  if (meta) return datasetMetadataResponse(meta);
+
+  return datasetSearchResponse([]);
+}
+
+/**
+ * Ranked catalog matches as cards, each with a quick reply that makes it the active dataset;
+ * without search terms the whole catalog is listed
+ */
+function datasetSearchResponse(terms: string[]): ResolverResponse {
+  const hits = searchDatasets(terms);
+  const topic = terms.join(' ');
+
+  if (hits.length === 0) {
+    return {
+      text: `🔎 I couldn't find a dataset about "${topic}". Try another topic, or ask "what datasets do you have?" to see them all.`,
+      type: 'text',
       metadata: {
-        source: 'eurostat_api',
-        confidence: resolution.scores.data_query
+        source: 'metadata_handler',
+        suggestions: ['What datasets do you have?', 'Definition of gross inland consumption', 'Tell me about nrg_bal_c']
       }
     };
+  }
 
-  } catch {
+  const list = hits
+    .map((hit, i) => `${i + 1}. **${hit.meta.title}** (${hit.meta.code})${hit.matched.length ? ` — matches ${hit.matched.join(', ')}` : ''}`)
+    .join('\n');
+  const heading = topic
+    ? `🔎 **Datasets about "${topic}"**\n\n${hits.length === 1 ? '1 dataset matches' : `${hits.length} datasets match`}, best match first:`
+    : `🔎 **Available datasets**\n\n${metadataResponse}`;
+
+  return {
+    text: `${heading}\n\n${list}`,
+    type: 'text',
+    metadata: {
+      source: 'metadata_handler',
+      suggestions: hits.slice(0, 3).map(hit => `Use dataset ${hit.meta.code}`),
+      content: hits.map(hit => ({ ...buildCatalogCard(hit.meta), body: hit.meta.description }))
+    }
+  };
+}
+
+/**
+ * "Use dataset …" - makes a catalog dataset the active query, so that the next message only
+ * has to name a country or period; runs straight away when this one already does
+ */
+async function handleDatasetSelection(resolution: Resolution, entities: Entities): Promise<ResolverResponse> {
+  const meta = entities.dataset.tables?.map(findDataset).find(m => m !== null);
+
+  if (!meta) {
     return {
-      text: "I encountered an issue accessing the Eurostat database. Please try again or rephrase your query.",
-      type: 'error',
+      text: 'That dataset is not in my catalog, so I can\'t query it here. Ask "what datasets do you have?" to see the ones I can.',
+      type: 'text',
       metadata: {
-        source: 'data_query_handler'
+        source: 'metadata_handler',
+        suggestions: ['What datasets do you have?']
       }
     };
   }
+
+  const seeded: Entities = { ...entities, dataset: { ...entities.dataset, tables: [meta.code] } };
+  if (planQuery(seeded).missing.length === 0) {
+    return await runQuery('data_query', resolution, seeded);
+  }
+
+  conversationContext.setActiveQuery('data_query', seeded, meta.code);
+  return {
+    text: `✅ Using **${meta.title}** (${meta.code}) for your next questions. ${slotPrompts.geo.text}`,
+    type: 'text',
+    metadata: {
+      source: 'metadata_handler',
+      suggestions: [...slotPrompts.geo.suggestions, ...meta.examples.slice(0, 1)]
+    }
+  };
 }
 
-async function handleMetadataRequest(): Promise<ResolverResponse> {
+function glossaryResponse(entry: GlossaryEntry, kind: MetadataQuestion): ResolverResponse {
+  const name = entry.abbreviation ? `**${entry.term}** (${entry.abbreviation})` : `**${entry.term}**`;
+  const calculation = entry.calculation
+    ? `**How it is calculated:** ${entry.calculation}`
+    : '**How it is calculated:** it is reported directly rather than derived from other figures.';
+  const body = kind === 'calculation'
+    ? [calculation, `**Definition:** ${entry.definition}`]
+    : [entry.definition, ...(entry.calculation ? [calculation] : [])];
+
+  const meta = entry.dataset ? findDataset(entry.dataset.code) : null;
+  const published = meta && entry.dataset
+    ? [`Published in ${meta.title} (${meta.code})${entry.dataset.item ? ` as ${entry.dataset.item}` : ''}.`]
+    : [];
+
+  const related = entry.related
+    .map(glossaryEntry)
+    .filter((e): e is GlossaryEntry => e !== undefined)
+    .map(e => `Definition of ${e.term.toLowerCase()}`);
+
   return {
-    text: metadataResponse,
+    text: [`📖 ${name}`, ...body, ...published, `Source: [${entry.source.label}](${entry.source.url})`].join('\n\n'),
     type: 'text',
     metadata: {
-      source: 'metadata_handler'
+      source: 'metadata_handler',
+      suggestions: [...(entry.example ? [entry.example] : []), ...related].slice(0, 4),
+      content: meta ? [buildCatalogCard(meta)] : undefined
     }
   };
 }
 
+function datasetMetadataResponse(meta: DatasetMetadata): ResolverResponse {
+  const dimensions = meta.dimensions
+    .map(d => `• ${d.label} (${d.id})${d.note ? `: ${d.note}` : ''}`)
+    .join('\n');
+
+  return {
+    text: `🗂️ **${meta.title}** (${meta.code})
+
+${meta.description}
+
+**Dimensions:**
+${dimensions}
+
+**Methodology:** ${meta.methodology}
+
+Source: [Eurostat reference metadata](${meta.metadataUrl})`,
+    type: 'text',
+    metadata: {
+      source: 'metadata_handler',
+      suggestions: meta.examples,
+      content: [buildCatalogCard(meta)]
+    }
+  };
+}
+
+const COMPARE_QUESTION = 'Would you like to refine your comparison criteria?';
+
+// "rank countries by …" carries no top/bottom wording but is a full ranking
+const RANK_RE = /\brank(?:s|ed|ing)?\b/;
+
 /**
- * Comparison request handler
+ * Comparison request handler - fetches the compared series and runs the comparison engine
  */
-async function handleCompareRequest(entities: Entities): Promise<ResolverResponse> {
+async function handleCompareRequest(entities: Entities, input = ''): Promise<ResolverResponse> {
+  // "Compare with France" without a subject adds to the active query
+  const active = conversationContext.activeQuery;
+  const base = !hasSubject(entities) && active ? refineQuery(active.entities, entities, input).entities : entities;
+
+  const ranking = entities.compare.ranking
+    ?? base.compare.ranking
+    ?? (RANK_RE.test(input.toLowerCase()) ? { order: 'highest' as const, n: EU_MEMBER_GEOS.length } : undefined);
+  const compared: Entities = { ...base, compare: { ...base.compare, ranking } };
+
+  // Rankings cover the member states unless the message lists the countries to rank
+  const { countries, iso2, groups } = compared.geography;
+  const rankMembers = !!ranking && countries.length + iso2.length + groups.length < 2;
+  const plan = planQuery(rankMembers ? { ...compared, geography: { ...compared.geography, groups: ['eu'] } } : compared);
+  const request = toEurostatRequest(plan);
+
+  if (!request) return compareGuidance(compared);
+
+  if (rankMembers) {
+    request.filters.geo = EU_MEMBER_GEOS;
+    // One earlier period gives each country's change
+    if (plan.time.origin === 'default') request.lastTimePeriod = 2;
+  }
+
+  try {
+    const result = await eurostatClient.fetchDataset(request);
+    conversationContext.setActiveQuery('compare_request', compared, result.dataset);
+
+    const title = resultSubject(result);
+    const comparison = compareResult(result, title, { pair: compared.compare.pair, ranking });
+
+    if (!comparison) {
+      return {
+        text: result.observations.length
+          ? `${formatDataResult(result, plan)}\n\nThere is only one value here, so there is nothing to compare it with. Name a second country or period, for example "compare with France" or "2018 vs 2022".`
+          : `Eurostat has no values to compare for this selection in **${result.label}** (${result.dataset}). Try another period or country.`,
+        type: result.observations.length ? 'data' : 'text',
+        metadata: {
+          source: 'comparison_handler',
+          content: [buildDatasetCard(result)],
+          suggestions: ['Compare with the EU', 'Last 5 years']
+        }
+      };
+    }
 
+    return {
+      text: `⚖️ **${title}**\n\n${comparison.narrative}\n\n${resultNotes(result, plan).join('\n')}\n\n${COMPARE_QUESTION}`,
+      type: 'data',
+      metadata: {
+        source: 'comparison_handler',
+        content: [comparison.table, buildDatasetCard(result)],
+        proposal: {
+          question: COMPARE_QUESTION,
+          yes: { kind: 'reply', ...proposalReplies.compare.yes },
+          no: { kind: 'reply', ...proposalReplies.refine.no }
+        }
+      }
+    };
+
+  } catch (error) {
+    console.error('Eurostat query for comparison failed:', error);
+    return {
+      text: "I couldn't retrieve the data to compare from Eurostat. Please try again or rephrase your request.",
+      type: 'error',
+      metadata: {
+        source: 'comparison_handler'
+      }
+    };
+  }
+}
+
+/**
+ * What a comparison needs, for requests that name too little to run one
+ */
+function compareGuidance(entities: Entities): ResolverResponse {
   return {
     text: `**Energy Data Comparison Analysis**
 
@@ -359,10 +714,15 @@ ${entities.measure && entities.measure.measures.length > 0 ?
 • "Show renewable energy growth trends for EU countries 2010-2022"
 • "Compare energy prices across European countries"
 
-Would you like to refine your comparison criteria?`,
+${COMPARE_QUESTION}`,
     type: 'text',
     metadata: {
       source: 'comparison_handler',
+      proposal: {
+        question: COMPARE_QUESTION,
+        yes: { kind: 'reply', ...proposalReplies.compare.yes },
+        no: { kind: 'reply', ...proposalReplies.refine.no }
+      },
       suggestions: [
         'Compare electricity production between Germany and France',
         'Show renewable energy trends in EU countries',
@@ -372,57 +732,223 @@ Would you like to refine your comparison criteria?`,
   };
 }
 
-async function handleVisualizationRequest(): Promise<ResolverResponse> {
-  return {
-    text: visualizationResponse,
-    type: 'text',
-    metadata: {
-      source: 'visualization_handler'
+// Periods charted when the request names none
+const DEFAULT_CHART_YEARS = 5;
+
+/**
+ * Visualization handler - charts the retrieved series (inline SVG), with a generated
+ * text summary and the values as a table for screen readers
+ */
+async function handleVisualizationRequest(resolution: Resolution, entities: Entities): Promise<ResolverResponse> {
+  // "Chart it" without a subject charts the active query
+  const active = conversationContext.activeQuery;
+  const base = !hasSubject(entities) && active ? refineQuery(active.entities, entities).entities : entities;
+
+  const { years, ranges, relative } = base.time;
+  const charted = years.length || ranges.length || relative
+    ? base
+    : { ...base, time: { ...base.time, relative: { lastNYears: DEFAULT_CHART_YEARS } } };
+
+  const plan = planQuery(charted);
+  const request = toEurostatRequest(plan);
+
+  if (!request) {
+    return {
+      text: visualizationResponse,
+      type: 'text',
+      metadata: {
+        source: 'visualization_handler',
+        suggestions: ['Chart electricity consumption in Germany', 'Plot gas prices in France and Italy']
+      }
+    };
+  }
+
+  try {
+    const result = await eurostatClient.fetchDataset(request);
+    conversationContext.setActiveQuery('viz_request', charted, result.dataset);
+
+    const title = resultSubject(result);
+    const chart = buildChart(result, title);
+
+    if (!chart) {
+      return {
+        text: result.observations.length
+          ? `${formatDataResult(result, plan)}\n\nThere is only one value for this selection, so there is nothing to chart. Try a longer period or more countries.`
+          : `Eurostat has no values to chart for this selection in **${result.label}** (${result.dataset}). Try another period or country.`,
+        type: result.observations.length ? 'data' : 'text',
+        metadata: {
+          source: 'visualization_handler',
+          content: buildDataContent(result, title),
+          suggestions: ['Last 5 years', 'Compare with the EU']
+        }
+      };
     }
-  };
+
+    const summary = summarizeChart(chart);
+    return {
+      text: `📈 **${title}**\n\n${summary}\n\n${resultNotes(result, plan).join('\n')}\n\n${REFINE_QUESTION}`,
+      type: 'data',
+      metadata: {
+        source: 'visualization_handler',
+        confidence: resolution.confidence,
+        content: [
+          { ...chart, summary, fallback: buildDataTable(result, title) },
+          buildDatasetCard(result),
+        ],
+        proposal: {
+          question: REFINE_QUESTION,
+          yes: { kind: 'reply', ...proposalReplies.refine.yes },
+          no: { kind: 'reply', ...proposalReplies.refine.no }
+        }
+      }
+    };
+
+  } catch (error) {
+    console.error('Eurostat query for chart failed:', error);
+    return {
+      text: "I couldn't retrieve the data for this chart from Eurostat. Please try again or rephrase your request.",
+      type: 'error',
+      metadata: {
+        source: 'visualization_handler'
+      }
+    };
+  }
 }
 
-async function handleDownloadRequest(): Promise<ResolverResponse> {
-  return {
-    text: downloadResponse,
-    type: 'text',
-    metadata: {
-      source: 'download_handler'
+/**
+ * Download handler - exports the requested (or active) query result as files built in the browser
+ */
+async function handleDownloadRequest(resolution: Resolution, entities: Entities, input: string): Promise<ResolverResponse> {
+  // "Download it as csv" without a subject exports the active query
+  const active = conversationContext.activeQuery;
+  const base = !hasSubject(entities) && active ? refineQuery(active.entities, entities).entities : entities;
+
+  const plan = planQuery(base);
+  const request = toEurostatRequest(plan);
+
+  if (!request) {
+    return {
+      text: downloadResponse,
+      type: 'text',
+      metadata: {
+        source: 'download_handler',
+        suggestions: ['Download electricity consumption in Germany as CSV', 'Export gas prices in France to Excel']
+      }
+    };
+  }
+
+  try {
+    const result = await eurostatClient.fetchDataset(request);
+    conversationContext.setActiveQuery(active && !hasSubject(entities) ? active.intent : 'data_query', base, result.dataset);
+
+    if (result.observations.length === 0) {
+      return {
+        text: `Eurostat has no values for this selection in **${result.label}** (${result.dataset}), so there is nothing to export. Try another period or country.`,
+        type: 'text',
+        metadata: {
+          source: 'download_handler',
+          suggestions: ['Latest available year', 'Last 5 years']
+        }
+      };
     }
-  };
+
+    const requested = detectExportFormats(input);
+    const formats = requested.length ? requested : (Object.keys(EXPORT_FORMATS) as ExportFormat[]);
+    const count = result.observations.length;
+
+    const ready = requested.length
+      ? `ready as ${formats.map(format => EXPORT_FORMATS[format].label).join(' and ')}.`
+      : 'ready to download. Pick a format below.';
+
+    return {
+      text: `📥 **${resultSubject(result)}**\n\n${count} ${count === 1 ? 'value' : 'values'} ${ready}\n\n${resultNotes(result, plan).join('\n')}\n\n🔗 Reproduce this selection with the Eurostat API:\n${result.url}`,
+      type: 'data',
+      metadata: {
+        source: 'download_handler',
+        confidence: resolution.confidence,
+        // The files are built when a button is clicked; the link is the selection on the Eurostat API
+        actions: formats.map(format => ({
+          type: 'download' as const,
+          label: `Download ${EXPORT_FORMATS[format].label}`,
+          url: result.url,
+          filename: exportFilename(result.dataset, format),
+          export: { request, format }
+        })),
+        content: [buildDatasetCard(result)]
+      }
+    };
+
+  } catch (error) {
+    console.error('Eurostat query for export failed:', error);
+    return {
+      text: "I couldn't retrieve the data to export from Eurostat. Please try again or rephrase your request.",
+      type: 'error',
+      metadata: {
+        source: 'download_handler'
+      }
+    };
+  }
 }
 
 /**
- * Filter/Time change handler
+ * Filter/Time change handler - re-runs the active query with the follow-up applied
  */
-function handleFilterChange(entities: Entities): ResolverResponse {
+async function handleFilterChange(resolution: Resolution, entities: Entities, input: string): Promise<ResolverResponse> {
+  const active = conversationContext.activeQuery;
 
-  return {
-    text: `**Filter Applied Successfully**
+  if (!active) {
+    return {
+      text: `There is no previous query to change yet. Ask for some data first, for example "electricity consumption in Germany in 2021", and then refine it with follow-ups like "and for 2019?" or "what about France?".`,
+      type: 'text',
+      metadata: {
+        source: 'filter_handler',
+        suggestions: ['Electricity consumption in Germany in 2021', 'Gas prices in the EU']
+      }
+    };
+  }
 
-I've updated your data filters based on your request:
+  const { entities: refined, changes } = refineQuery(active.entities, entities, input);
 
-${entities.time && (entities.time.years.length > 0 || entities.time.ranges.length > 0) ?
-  `📅 **Time Period**: ${[...entities.time.years.map(y => y.toString()), ...entities.time.ranges.map(r => `${r[0]}-${r[1]}`)].join(', ')}` :
-  ''}
+  if (changes.length === 0) {
+    return {
+      text: 'That is already what the previous query used, so nothing changed. Try another year, country, unit or sector.',
+      type: 'text',
+      metadata: {
+        source: 'filter_handler'
+      }
+    };
+  }
 
-${entities.geography && (entities.geography.countries.length > 0 || entities.geography.groups.length > 0) ?
-  `🌍 **Geography**: ${[...entities.geography.countries, ...entities.geography.groups].join(', ')}` :
-  ''}
+  // Another dataset would answer a different question than the one refined: ask first
+  const switched = measureSwitch(active.entities, refined, changes);
+  if (switched) {
+    const wanted = changes.map(change => change.to).join(', ');
+    const question = `Would you like ${switched.to.label.toLowerCase()} instead?`;
+    return {
+      text: `**${switched.from.label}** (${switched.from.dataset}) has no series for "${wanted}". The closest Eurostat indicator is **${switched.to.label}** (${switched.to.dataset}), which measures something else rather than refining your query.\n\n${question}`,
+      type: 'text',
+      metadata: {
+        source: 'filter_handler',
+        suggestions: ['Yes', 'No'],
+        proposal: {
+          question,
+          yes: { kind: 'query', intent: active.intent, entities: refined },
+          no: { kind: 'reply', ...proposalReplies.measureSwitch.no }
+        }
+      }
+    };
+  }
 
-${entities.measure && entities.measure.measures.length > 0 ?
-  `⚡ **Energy Type**: ${entities.measure.measures.join(', ')}` :
-  ''}
+  const response = await runQuery(active.intent, resolution, refined);
 
-Your current data view now reflects these filters. You can:
-• Apply additional filters
-• Run queries with the current filters
-• Reset filters to start over
+  if (response.type === 'error') return response;
 
-Would you like to query data with these filters applied?`,
-    type: 'text',
+  return {
+    ...response,
+    text: `🔄 **Updated the previous query** (${describeChanges(changes)})\n\n${response.text}`,
     metadata: {
-      source: 'filter_handler'
+      ...response.metadata,
+      source: response.metadata?.source ?? 'filter_handler'
     }
   };
 }
@@ -0,0 +1,234 @@
+/**
+ * Rich Content
+ * Typed payloads attached to bot messages (tables, charts, cards, suggestion chips)
+ * and the builders that derive them from Eurostat results. Rendering lives in
+ * components/RichContent.tsx; everything here is plain serializable data.
+ */
+
+import { GEO_LABELS, UNIT_LABELS } from '../data/eurostatCodes';
+import type { DatasetMetadata } from '../data/metadataCatalog';
+import type { EurostatResult } from './eurostatClient';
+import type { Observation } from './jsonStat';
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  numeric?: boolean;
+}
+
+export interface DataTableContent {
+  kind: 'table';
+  caption: string;
+  columns: TableColumn[];
+  rows: Record<string, string | number | null>[];
+  footnote?: string;
+}
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface TimeSeriesContent {
+  kind: 'timeseries';
+  title: string;
+  unit: string;
+  series: { name: string; points: ChartPoint[] }[];
+  /** Text alternative shown under the chart and announced instead of the SVG */
+  summary?: string;
+  /** Same values as a table, for screen readers and copying */
+  fallback?: DataTableContent;
+}
+
+export interface BarChartContent {
+  kind: 'bar';
+  title: string;
+  unit: string;
+  bars: ChartPoint[];
+  summary?: string;
+  fallback?: DataTableContent;
+}
+
+export interface InfoCardContent {
+  kind: 'card';
+  title: string;
+  subtitle?: string;
+  body?: string;
+  fields?: { label: string; value: string }[];
+  link?: { label: string; url: string };
+}
+
+export interface SuggestionChipsContent {
+  kind: 'chips';
+  label?: string;
+  chips: string[];
+}
+
+export type RichContent =
+  | DataTableContent
+  | TimeSeriesContent
+  | BarChartContent
+  | InfoCardContent
+  | SuggestionChipsContent;
+
+// Dimensions that qualify every value rather than describe what was measured
+export const QUALIFIER_DIMENSIONS = new Set(['freq', 'unit', 'currency', 'tax', 'geo', 'time']);
+
+// Short headers for the dimensions every table has (the JSON-stat labels are long)
+const COLUMN_LABELS: Record<string, string> = { geo: 'Geography', time: 'Period' };
+
+const EUROSTAT_DATABROWSER = 'https://ec.europa.eu/eurostat/databrowser/view';
+const MAX_SERIES = 6;
+
+/* ===================== Labels & formatting ===================== */
+
+export function categoryText(result: EurostatResult, dimensionId: string, code: string): string {
+  return (dimensionId === 'geo' ? GEO_LABELS[code] : undefined)
+    ?? result.dimensions.find(d => d.id === dimensionId)?.categories.find(c => c.code === code)?.label
+    ?? code;
+}
+
+export function distinctCodes(result: EurostatResult, dimensionId: string): string[] {
+  return Array.from(new Set(result.observations.map(o => o.dimensions[dimensionId]).filter(Boolean)));
+}
+
+/**
+ * Dimensions that tell the observations apart (always geo and time, plus any other that varies)
+ */
+export function varyingDimensions(result: EurostatResult): string[] {
+  return result.dimensions
+    .filter(d => d.id === 'geo' || d.id === 'time' || (d.id !== 'unit' && distinctCodes(result, d.id).length > 1))
+    .map(d => d.id);
+}
+
+export function formatValue(value: number | null): string {
+  if (value === null) return 'n/a';
+  return value.toLocaleString('en-GB', { maximumFractionDigits: valueDecimals(value) });
+}
+
+/**
+ * Most decimals formatValue shows for a value
+ */
+export function valueDecimals(value: number): number {
+  return Math.abs(value) < 10 ? 4 : 1;
+}
+
+export function unitText(dimensions: Record<string, string>): string {
+  const unit = UNIT_LABELS[dimensions.unit] ?? dimensions.unit ?? '';
+  return dimensions.currency ? `${dimensions.currency} ${unit}` : unit;
+}
+
+/* ===================== Builders ===================== */
+
+/**
+ * Table, chart and source card for a multi-value result
+ */
+export function buildDataContent(result: EurostatResult, title: string): RichContent[] {
+  if (result.observations.length === 0) return [];
+
+  const content: RichContent[] = [];
+  if (result.observations.length > 1) {
+    content.push(buildDataTable(result, title));
+    const chart = buildChart(result, title);
+    if (chart) content.push(chart);
+  }
+  content.push(buildDatasetCard(result));
+  return content;
+}
+
+export function buildDataTable(result: EurostatResult, caption: string): DataTableContent {
+  const varying = varyingDimensions(result);
+  const hasFlags = result.observations.some(o => o.status);
+
+  const columns: TableColumn[] = [
+    ...varying.map(id => ({ key: id, label: COLUMN_LABELS[id] ?? result.dimensions.find(d => d.id === id)?.label ?? id })),
+    { key: 'value', label: 'Value', numeric: true },
+    { key: 'unit', label: 'Unit' },
+    ...(hasFlags ? [{ key: 'flag', label: 'Flag' }] : []),
+  ];
+
+  const rows = result.observations.map(obs => {
+    const row: Record<string, string | number | null> = {};
+    for (const id of varying) row[id] = categoryText(result, id, obs.dimensions[id]);
+    row.value = obs.value;
+    row.unit = unitText(obs.dimensions);
+    if (hasFlags) row.flag = obs.status ?? '';
+    return row;
+  });
+
+  const flags = Array.from(new Set(result.observations.map(o => o.status).filter((s): s is string => !!s)));
+  const footnote = flags.length
+    ? flags.map(f => `${f}: ${result.raw.extension?.status?.label?.[f] ?? f}`).join(', ')
+    : undefined;
+
+  return { kind: 'table', caption, columns, rows, footnote };
+}
+
+/**
+ * Time series when several periods are present, a bar comparison for one period
+ */
+export function buildChart(result: EurostatResult, title: string): TimeSeriesContent | BarChartContent | null {
+  const observations = result.observations.filter((o): o is Observation & { value: number } => o.value !== null);
+  if (observations.length < 2) return null;
+
+  const others = varyingDimensions(result).filter(id => id !== 'time');
+  const nameOf = (obs: Observation) => others.map(id => categoryText(result, id, obs.dimensions[id])).join(', ');
+  const unit = unitText(observations[0].dimensions);
+
+  if (distinctCodes(result, 'time').length > 1) {
+    const series = new Map<string, ChartPoint[]>();
+    for (const obs of observations) {
+      const name = nameOf(obs) || result.label;
+      if (!series.has(name)) {
+        if (series.size >= MAX_SERIES) continue;
+        series.set(name, []);
+      }
+      series.get(name)!.push({ label: obs.dimensions.time, value: obs.value });
+    }
+    return {
+      kind: 'timeseries',
+      title,
+      unit,
+      series: Array.from(series, ([name, points]) => ({ name, points: points.sort((a, b) => a.label.localeCompare(b.label)) })),
+    };
+  }
+
+  return {
+    kind: 'bar',
+    title,
+    unit,
+    bars: observations.map(obs => ({ label: nameOf(obs), value: obs.value })),
+  };
+}
+
+export function buildDatasetCard(result: EurostatResult): InfoCardContent {
+  return {
+    kind: 'card',
+    title: result.label,
+    subtitle: result.dataset,
+    fields: [
+      ...(result.updated ? [{ label: 'Last update', value: result.updated.slice(0, 10) }] : []),
+      { label: 'Source', value: result.source ?? 'Eurostat' },
+    ],
+    link: { label: 'Open in the Eurostat data browser', url: `${EUROSTAT_DATABROWSER}/${result.dataset}/default/table` },
+  };
+}
+
+/**
+ * Card for a dataset described from the local metadata catalog rather than a fetched result
+ */
+export function buildCatalogCard(meta: DatasetMetadata): InfoCardContent {
+  return {
+    kind: 'card',
+    title: meta.title,
+    subtitle: meta.code,
+    fields: [
+      { label: 'Frequency', value: meta.frequency },
+      { label: 'Coverage', value: meta.coverage },
+      { label: 'Units', value: meta.units.join('; ') },
+      { label: 'Dimensions', value: meta.dimensions.map(d => d.id).join(', ') },
+      { label: 'Last update', value: meta.lastUpdate },
+    ],
+    link: { label: 'Reference metadata', url: meta.metadataUrl },
+  };
+}
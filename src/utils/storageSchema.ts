@@ -0,0 +1,421 @@
+/**
+ * Storage Schema
+ * Versioned shape of the records chatStorage persists. Every record carries a schemaVersion;
+ * on load it is migrated one version at a time up to SCHEMA_VERSION and then validated.
+ * Records that fail either step raise a StorageSchemaError so the caller can quarantine them.
+ *
+ * Versions:
+ *   0  single-conversation `chatHistory` record, no version field
+ *   1  one record per session plus a session index, no version field
+ *   2  schemaVersion on every record; message timestamps stored as ISO strings
+ *   3  every message has an id, so copies of a conversation can be merged message by message
+ *   4  messages carry a status and their parent/turn links; sessions remember deleted message ids
+ */
+
+import type { SessionContext } from './chatStorage';
+import { isExportFormat } from './dataExport';
+import type { ChatMessage, MessageVersion } from './messageModel';
+import { MESSAGE_STATUSES, isSafeActionUrl } from './messageModel';
+
+export const SCHEMA_VERSION = 4;
+
+/** A ChatMessage with its dates as ISO 8601 strings */
+export type StoredMessage = Omit<ChatMessage, 'timestamp' | 'editedAt' | 'previousVersions'> & {
+  timestamp: string;
+  editedAt?: string;
+  previousVersions?: Array<Omit<MessageVersion, 'timestamp'> & { timestamp: string }>;
+};
+
+export interface StoredSession {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  /** Title still follows the first question; false once the user renames the conversation */
+  autoTitle: boolean;
+  createdAt: string;
+  lastUpdated: string;
+  messages: StoredMessage[];
+  messageHistory: string[];
+  context: SessionContext | null;
+  /** When the conversation was last cleared; messages from before then are never merged back */
+  clearedAt?: string;
+  /** Messages deleted from the conversation, never merged back either */
+  deletedMessageIds?: string[];
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  lastUpdated: string;
+  messageCount: number;
+}
+
+export interface StoredIndex {
+  schemaVersion: number;
+  activeId: string | null;
+  sessions: SessionSummary[];
+}
+
+export type RecordKind = 'session' | 'index';
+
+export class StorageSchemaError extends Error {
+  readonly kind: RecordKind;
+  /** What was wrong with the record, one entry per problem */
+  readonly problems: string[];
+
+  constructor(message: string, kind: RecordKind, problems: string[] = []) {
+    super(problems.length ? `${message}: ${problems.join('; ')}` : message);
+    this.name = 'StorageSchemaError';
+    this.kind = kind;
+    this.problems = problems;
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+type Migration = (record: RawRecord) => RawRecord;
+
+const TITLE_LENGTH = 40;
+
+/* ===================== Migrations ===================== */
+
+// MIGRATIONS[kind][n] turns a version n record into a version n + 1 record
+const MIGRATIONS: Record<RecordKind, Record<number, Migration>> = {
+  session: {
+    0: record => {
+      const messages = Array.isArray(record.messages) ? record.messages as RawRecord[] : [];
+      const firstQuestion = messages.find(msg => msg?.sender === 'user')?.text;
+      const lastUpdated = isoTime(record.lastUpdated) ?? new Date().toISOString();
+      return {
+        ...record,
+        id: `legacy-${Date.parse(lastUpdated)}`,
+        title: typeof firstQuestion === 'string' ? titleFrom(firstQuestion) : 'New conversation',
+        autoTitle: true,
+        createdAt: lastUpdated,
+        lastUpdated,
+        context: null,
+      };
+    },
+    1: record => ({
+      ...record,
+      autoTitle: record.autoTitle ?? true,
+      context: record.context ?? null,
+      messageHistory: record.messageHistory ?? [],
+      // Version 1 stored Date objects (IndexedDB) or strings (localStorage fallback)
+      messages: Array.isArray(record.messages)
+        ? (record.messages as RawRecord[]).map(msg => ({ ...msg, timestamp: isoTime(msg?.timestamp) ?? msg?.timestamp }))
+        : record.messages,
+    }),
+    2: record => ({
+      ...record,
+      messages: Array.isArray(record.messages)
+        ? (record.messages as RawRecord[]).map((msg, i) => ({ id: `m${i}-${Date.parse(String(msg?.timestamp)) || 0}`, ...msg }))
+        : record.messages,
+    }),
+    // Everything stored before statuses existed had been answered
+    3: record => ({
+      ...record,
+      messages: Array.isArray(record.messages)
+        ? (record.messages as RawRecord[]).map(msg => ({ status: 'delivered', ...msg }))
+        : record.messages,
+    }),
+  },
+  index: {
+    1: record => ({
+      ...record,
+      activeId: record.activeId ?? null,
+      sessions: Array.isArray(record.sessions)
+        ? (record.sessions as RawRecord[]).map(s => ({ ...s, messageCount: s?.messageCount ?? 0 }))
+        : record.sessions,
+    }),
+    // Index records did not change shape in versions 3 and 4
+    2: record => record,
+    3: record => record,
+  },
+};
+
+/**
+ * Version a stored record was written with; unversioned records are told apart by shape
+ */
+export function detectVersion(kind: RecordKind, record: RawRecord): number {
+  if (typeof record.schemaVersion === 'number') return record.schemaVersion;
+  return kind === 'session' && !('id' in record) ? 0 : 1;
+}
+
+/**
+ * Migrate and validate a conversation. A stored conversation with a bad message is rejected
+ * whole; with dropInvalidMessages (files from elsewhere) the bad messages are left out and
+ * counted instead, and only a conversation that is unusable without them is rejected.
+ */
+export function migrateSession(
+  raw: unknown,
+  { dropInvalidMessages = false }: { dropInvalidMessages?: boolean } = {}
+): { record: StoredSession; from: number; dropped: number } {
+  const { record: migrated, from } = migrate('session', raw);
+  let record = migrated;
+  let dropped = 0;
+  if (dropInvalidMessages && Array.isArray(record.messages)) {
+    const messages = record.messages.filter(msg => validateMessage(msg).length === 0);
+    dropped = record.messages.length - messages.length;
+    record = { ...record, messages };
+  }
+  const problems = validateSession(record);
+  if (problems.length) throw new StorageSchemaError('Invalid session record', 'session', problems);
+  return { record: record as unknown as StoredSession, from, dropped };
+}
+
+export function migrateIndex(raw: unknown): { record: StoredIndex; from: number } {
+  const { record, from } = migrate('index', raw);
+  const problems = validateIndex(record);
+  if (problems.length) throw new StorageSchemaError('Invalid session index', 'index', problems);
+  return { record: record as unknown as StoredIndex, from };
+}
+
+function migrate(kind: RecordKind, raw: unknown): { record: RawRecord; from: number } {
+  if (!isObject(raw)) throw new StorageSchemaError('Record is not an object', kind);
+
+  const from = detectVersion(kind, raw);
+  if (from > SCHEMA_VERSION) {
+    throw new StorageSchemaError(`Record has schema version ${from}, newer than this app's ${SCHEMA_VERSION}`, kind);
+  }
+
+  let record = raw;
+  for (let version = from; version < SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[kind][version];
+    if (!step) throw new StorageSchemaError(`No migration from schema version ${version}`, kind);
+    record = step(record);
+  }
+  return { record: { ...record, schemaVersion: SCHEMA_VERSION }, from };
+}
+
+/* ===================== Validation ===================== */
+
+export function validateSession(record: RawRecord): string[] {
+  const problems: string[] = [];
+  for (const field of ['id', 'title', 'createdAt', 'lastUpdated'] as const) {
+    if (typeof record[field] !== 'string' || !record[field]) problems.push(`${field} is not a non-empty string`);
+  }
+  if (typeof record.autoTitle !== 'boolean') problems.push('autoTitle is not a boolean');
+
+  if (!Array.isArray(record.messages)) {
+    problems.push('messages is not an array');
+  } else {
+    record.messages.forEach((msg, i) => problems.push(...validateMessage(msg).map(p => `messages[${i}] ${p}`)));
+    const ids = record.messages.map(msg => (isObject(msg) ? msg.id : undefined));
+    if (new Set(ids).size !== ids.length) problems.push('message ids are not unique');
+  }
+
+  if (!isStringList(record.messageHistory)) {
+    problems.push('messageHistory is not a list of strings');
+  }
+  if (record.context !== null && (!isObject(record.context) || !isObject(record.context.conversation))) {
+    problems.push('context is neither null nor a saved query context');
+  }
+  if (record.clearedAt !== undefined && (typeof record.clearedAt !== 'string' || Number.isNaN(Date.parse(record.clearedAt)))) {
+    problems.push('clearedAt is not an ISO date');
+  }
+  if (record.deletedMessageIds !== undefined && !isStringList(record.deletedMessageIds)) {
+    problems.push('deletedMessageIds is not a list of strings');
+  }
+  return problems;
+}
+
+export function validateIndex(record: RawRecord): string[] {
+  const problems: string[] = [];
+  if (record.activeId !== null && typeof record.activeId !== 'string') problems.push('activeId is neither null nor a string');
+  if (!Array.isArray(record.sessions)) {
+    problems.push('sessions is not an array');
+  } else {
+    record.sessions.forEach((s, i) => {
+      if (!isObject(s) || typeof s.id !== 'string' || typeof s.title !== 'string' || typeof s.lastUpdated !== 'string') {
+        problems.push(`sessions[${i}] is not a session summary`);
+      }
+    });
+  }
+  return problems;
+}
+
+function validateMessage(msg: unknown): string[] {
+  if (!isObject(msg)) return ['is not an object'];
+  const problems: string[] = [];
+  if (typeof msg.id !== 'string' || !msg.id) problems.push('id is not a non-empty string');
+  if (typeof msg.text !== 'string') problems.push('text is not a string');
+  if (msg.sender !== 'user' && msg.sender !== 'bot') problems.push('sender is neither "user" nor "bot"');
+  if (typeof msg.timestamp !== 'string' || Number.isNaN(Date.parse(msg.timestamp))) problems.push('timestamp is not an ISO date');
+  if (!MESSAGE_STATUSES.includes(msg.status as ChatMessage['status'])) problems.push(`status is not one of ${MESSAGE_STATUSES.join(', ')}`);
+  for (const field of ['parentId', 'turnId'] as const) {
+    if (msg[field] !== undefined && typeof msg[field] !== 'string') problems.push(`${field} is not a string`);
+  }
+  if (msg.editedAt !== undefined && (typeof msg.editedAt !== 'string' || Number.isNaN(Date.parse(msg.editedAt)))) problems.push('editedAt is not an ISO date');
+  if (msg.metadata !== undefined) problems.push(...validateMetadata(msg.metadata).map(p => `metadata ${p}`));
+  if (msg.previousVersions !== undefined && (!Array.isArray(msg.previousVersions) || !msg.previousVersions.every(v =>
+    isObject(v) && typeof v.text === 'string' && typeof v.timestamp === 'string' && !Number.isNaN(Date.parse(v.timestamp))
+    && (v.metadata === undefined || validateMetadata(v.metadata).length === 0)))) {
+    problems.push('previousVersions is not a list of earlier answers');
+  }
+  return problems;
+}
+
+const ACTION_TYPES = new Set(['mailto', 'link', 'button', 'download']);
+
+/**
+ * The parts of a reply's metadata the UI renders or follows: actions, quick replies and
+ * rich content. Anything else in it is kept as is.
+ */
+function validateMetadata(metadata: unknown): string[] {
+  if (!isObject(metadata)) return ['is not an object'];
+  const problems: string[] = [];
+  if (metadata.actions !== undefined) {
+    if (!Array.isArray(metadata.actions)) {
+      problems.push('actions is not an array');
+    } else {
+      metadata.actions.forEach((action, i) => problems.push(...validateAction(action).map(p => `actions[${i}] ${p}`)));
+    }
+  }
+  if (metadata.suggestions !== undefined && !isStringList(metadata.suggestions)) problems.push('suggestions is not a list of strings');
+  if (metadata.content !== undefined) {
+    if (!Array.isArray(metadata.content)) {
+      problems.push('content is not an array');
+    } else {
+      metadata.content.forEach((block, i) => problems.push(...validateContent(block).map(p => `content[${i}] ${p}`)));
+    }
+  }
+  return problems;
+}
+
+function validateAction(action: unknown): string[] {
+  if (!isObject(action)) return ['is not an object'];
+  const problems: string[] = [];
+  if (!ACTION_TYPES.has(action.type as string)) problems.push(`type is not one of ${[...ACTION_TYPES].join(', ')}`);
+  if (typeof action.label !== 'string') problems.push('label is not a string');
+  if (!isSafeActionUrl(action.url)) problems.push('url is not an https, mailto or file URL');
+  if (action.filename !== undefined && typeof action.filename !== 'string') problems.push('filename is not a string');
+  if (action.export !== undefined) problems.push(...validateExport(action.export).map(p => `export ${p}`));
+  return problems;
+}
+
+function validateExport(spec: unknown): string[] {
+  if (!isObject(spec)) return ['is not an object'];
+  const { request } = spec;
+  return [
+    ...(isExportFormat(spec.format) ? [] : ['format is not an export format']),
+    ...(isObject(request) && typeof request.dataset === 'string' ? [] : ['request has no dataset']),
+    ...(isObject(request) && isObject(request.filters) && Object.values(request.filters).every(isStringList)
+      ? [] : ['request filters are not lists of codes']),
+  ];
+}
+
+function validateContent(block: unknown): string[] {
+  if (!isObject(block)) return ['is not an object'];
+  switch (block.kind) {
+    case 'table':
+      return validateTable(block);
+    case 'timeseries':
+      return [
+        ...(typeof block.title === 'string' && typeof block.unit === 'string' ? [] : ['title or unit is not a string']),
+        ...(Array.isArray(block.series) && block.series.every(s => isObject(s) && typeof s.name === 'string' && isPointList(s.points))
+          ? [] : ['series is not a list of named point lists']),
+        ...validateChartExtras(block),
+      ];
+    case 'bar':
+      return [
+        ...(typeof block.title === 'string' && typeof block.unit === 'string' ? [] : ['title or unit is not a string']),
+        ...(isPointList(block.bars) ? [] : ['bars is not a list of points']),
+        ...validateChartExtras(block),
+      ];
+    case 'card':
+      return [
+        ...(typeof block.title === 'string' ? [] : ['title is not a string']),
+        ...(['subtitle', 'body'] as const).filter(field => block[field] !== undefined && typeof block[field] !== 'string')
+          .map(field => `${field} is not a string`),
+        ...(block.fields === undefined || (Array.isArray(block.fields) && block.fields.every(f =>
+          isObject(f) && typeof f.label === 'string' && typeof f.value === 'string')) ? [] : ['fields is not a list of labelled values']),
+        ...(block.link === undefined || (isObject(block.link) && typeof block.link.label === 'string' && isSafeActionUrl(block.link.url))
+          ? [] : ['link is not a labelled https, mailto or file URL']),
+      ];
+    case 'chips':
+      return [
+        ...(block.label === undefined || typeof block.label === 'string' ? [] : ['label is not a string']),
+        ...(isStringList(block.chips) ? [] : ['chips is not a list of strings']),
+      ];
+    default:
+      return ['is not a table, chart, card or chip list'];
+  }
+}
+
+function validateTable(table: RawRecord): string[] {
+  const problems: string[] = [];
+  if (typeof table.caption !== 'string') problems.push('caption is not a string');
+  if (!Array.isArray(table.columns) || !table.columns.every(c => isObject(c) && typeof c.key === 'string' && typeof c.label === 'string')) {
+    problems.push('columns is not a list of keyed columns');
+  }
+  if (!Array.isArray(table.rows) || !table.rows.every(row => isObject(row) && Object.values(row).every(value =>
+    value === null || typeof value === 'string' || typeof value === 'number'))) {
+    problems.push('rows is not a list of records');
+  }
+  if (table.footnote !== undefined && typeof table.footnote !== 'string') problems.push('footnote is not a string');
+  return problems;
+}
+
+function validateChartExtras(chart: RawRecord): string[] {
+  return [
+    ...(chart.summary === undefined || typeof chart.summary === 'string' ? [] : ['summary is not a string']),
+    ...(chart.fallback === undefined || (isObject(chart.fallback) && validateTable(chart.fallback).length === 0)
+      ? [] : ['fallback is not a table']),
+  ];
+}
+
+/* ===================== Helpers ===================== */
+
+export function toStoredMessage(msg: ChatMessage): StoredMessage {
+  const { timestamp, editedAt, previousVersions, ...rest } = msg;
+  return {
+    ...rest,
+    timestamp: new Date(timestamp).toISOString(),
+    ...(editedAt ? { editedAt: new Date(editedAt).toISOString() } : {}),
+    ...(previousVersions?.length
+      ? { previousVersions: previousVersions.map(v => ({ ...v, timestamp: new Date(v.timestamp).toISOString() })) }
+      : {}),
+  };
+}
+
+export function fromStoredMessage(msg: StoredMessage): ChatMessage {
+  const { timestamp, editedAt, previousVersions, ...rest } = msg;
+  return {
+    ...rest,
+    timestamp: new Date(timestamp),
+    ...(editedAt ? { editedAt: new Date(editedAt) } : {}),
+    ...(previousVersions?.length
+      ? { previousVersions: previousVersions.map(v => ({ ...v, timestamp: new Date(v.timestamp) })) }
+      : {}),
+  };
+}
+
+/**
+ * Conversation title taken from its first question
+ */
+export function titleFrom(question: string): string {
+  const text = question.trim().replace(/\s+/g, ' ');
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+function isPointList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(point => isObject(point) && typeof point.label === 'string' && typeof point.value === 'number');
+}
+
+function isObject(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isoTime(value: unknown): string | undefined {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number') {
+    const time = new Date(value);
+    return Number.isNaN(time.getTime()) ? undefined : time.toISOString();
+  }
+  return undefined;
+}
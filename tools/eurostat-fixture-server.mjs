@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+// Local stand-in for the Eurostat dissemination API.
+// Serves the recorded JSON-stat files from src/data/fixtures/eurostat under
+//   GET /data/<datasetCode>?<any query>
+// The client re-applies dimension filters, so whole recorded cubes are returned as-is.
+// Point the app at it with VITE_EUROSTAT_API_BASE=http://localhost:8787/data
+
+import http from 'http';
+import path from 'path';
+import { readFile, readdir } from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, '..');
+
+const fixturesDir = process.env.EUROSTAT_FIXTURES_DIR ?? path.join(projectRoot, 'src', 'data', 'fixtures', 'eurostat');
+const port = Number(process.env.EUROSTAT_FIXTURE_PORT ?? 8787);
+
+function send(res, status, payload) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+// Mirrors the error envelope of the real API
+function apiError(status, label) {
+  return { error: [{ status, id: status, label }] };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+  const match = url.pathname.match(/\/data\/([a-z0-9_]+)\/?$/i);
+
+  if (req.method !== 'GET' || !match) {
+    send(res, 404, apiError(404, `Unknown route ${url.pathname}`));
+    return;
+  }
+
+  const dataset = match[1].toLowerCase();
+  try {
+    const body = await readFile(path.join(fixturesDir, `${dataset}.json`), 'utf8');
+    console.log(`[fixtures] 200 ${dataset}${url.search}`);
+    send(res, 200, body);
+  } catch {
+    console.log(`[fixtures] 404 ${dataset}`);
+    send(res, 404, apiError(404, `Dataset ${dataset} is not recorded in ${fixturesDir}`));
+  }
+});
+
+server.listen(port, async () => {
+  const recorded = (await readdir(fixturesDir)).filter(file => file.endsWith('.json'));
+  console.log(`[fixtures] Eurostat fixture server on http://localhost:${port}/data`);
+  console.log(`[fixtures] Recorded datasets: ${recorded.map(file => file.replace(/\.json$/, '')).join(', ')}`);
+});
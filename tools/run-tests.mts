@@ -0,0 +1,73 @@
+#!/usr/bin/env -S npx tsx
+
+// Runs the automated test suites in src/tests under Node and fails when a check does.
+// Every *Test.ts file exports run*Tests() functions returning their tally; they run one
+// after another in file name order, since several suites share module state (intent rules,
+// the conversation context). Naming suites runs only those: `farewell` runs farewellTest.ts.
+//
+//   npm test -- [suite ...]
+
+import path from 'path';
+import { readdir } from 'fs/promises';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { TestResults } from '../src/tests/testHarness.ts';
+
+const TESTS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../src/tests');
+const SUITE_FILE = /^(.+)Test\.ts$/;
+
+type Suite = () => Promise<TestResults | void> | TestResults | void;
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const files = (await readdir(TESTS_DIR))
+    .filter(file => SUITE_FILE.test(file))
+    .sort();
+  const names = files.map(file => file.match(SUITE_FILE)![1]);
+
+  const unknown = requested.filter(name => !names.includes(name));
+  if (unknown.length) {
+    console.error(`No test suite named ${unknown.join(', ')}. Suites: ${names.join(', ')}`);
+    process.exit(1);
+  }
+
+  const total: TestResults = { passed: 0, failed: 0 };
+  const broken: string[] = [];
+
+  for (const file of files) {
+    const name = file.match(SUITE_FILE)![1];
+    if (requested.length && !requested.includes(name)) continue;
+
+    const module: Record<string, unknown> = await import(pathToFileURL(path.join(TESTS_DIR, file)).href);
+    const suites = Object.entries(module)
+      .filter((entry): entry is [string, Suite] => /^run\w*Tests$/.test(entry[0]) && typeof entry[1] === 'function');
+    if (suites.length === 0) {
+      broken.push(`${file}: exports no run*Tests()`);
+      continue;
+    }
+
+    for (const [suiteName, run] of suites) {
+      try {
+        const results = await run();
+        if (!results) {
+          broken.push(`${file}: ${suiteName}() returned no tally`);
+          continue;
+        }
+        total.passed += results.passed;
+        total.failed += results.failed;
+      } catch (error) {
+        broken.push(`${file}: ${suiteName}() threw ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
+      }
+    }
+  }
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`All suites: ${total.passed} passed, ${total.failed} failed`);
+  broken.forEach(problem => console.log(`❌ ${problem}`));
+
+  if (total.failed > 0 || broken.length > 0) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
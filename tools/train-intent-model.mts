@@ -0,0 +1,133 @@
+#!/usr/bin/env -S npx tsx
+
+// Retrains the intent classifier and reports how well it does.
+// Reads the labeled corpus in src/data/intentCorpus.json plus any labeled files given on the
+// command line (JSON arrays or JSONL of { text, intent }, such as answer feedback exports),
+// cross-validates rules alone, the classifier alone and the blend resolveIntents uses, then
+// writes the model trained on everything to src/data/intentModel.json. The held-out blended
+// scores also fit the confidence temperature, written to src/data/intentCalibration.json.
+//
+//   npm run train:intents -- [extra.jsonl ...] [--folds 5] [--dry-run]
+
+import path from 'path';
+import { readFile, writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { INTENTS, detectIntent, resolveIntents } from '../src/utils/intentDetection.ts';
+import type { Intent } from '../src/utils/intentDetection.ts';
+import { classifyWith, setIntentModel, trainIntentModel } from '../src/utils/intentClassifier.ts';
+import type { IntentModel, LabeledText } from '../src/utils/intentClassifier.ts';
+import { CALIBRATION_VERSION, calibrationError, confidenceOf, fitCalibration } from '../src/utils/intentConfidence.ts';
+import type { CalibrationParameters, CalibrationSample, IntentCalibration } from '../src/utils/intentConfidence.ts';
+import { CLARIFY_BELOW_CONFIDENCE, CLARIFY_BELOW_MARGIN, isUnsure } from '../src/utils/clarification.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, '..');
+
+const CORPUS_PATH = path.join(projectRoot, 'src', 'data', 'intentCorpus.json');
+const MODEL_PATH = path.join(projectRoot, 'src', 'data', 'intentModel.json');
+const CALIBRATION_PATH = path.join(projectRoot, 'src', 'data', 'intentCalibration.json');
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const foldsArg = args.indexOf('--folds');
+const folds = foldsArg >= 0 ? Number(args[foldsArg + 1]) : 5;
+const extraFiles = args.filter((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--folds');
+
+async function readLabeled(file: string): Promise<LabeledText[]> {
+  const text = await readFile(file, 'utf8');
+  const records: unknown[] = text.trimStart().startsWith('[')
+    ? JSON.parse(text)
+    : text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+  return records.flatMap((record, i) => {
+    const { text: example, intent } = (record ?? {}) as Partial<LabeledText>;
+    if (typeof example === 'string' && INTENTS.includes(intent as Intent)) return [{ text: example, intent: intent as Intent }];
+    console.warn(`[train] ${path.relative(projectRoot, file)}:${i + 1} skipped, not a { text, intent } example`);
+    return [];
+  });
+}
+
+function argmax(probabilities: Partial<Record<Intent, number>> | null): Intent | null {
+  const ranked = Object.entries(probabilities ?? {}).sort((a, b) => b[1] - a[1]);
+  return ranked.length ? ranked[0][0] as Intent : null;
+}
+
+const percent = (hits: number, total: number) => `${total ? ((hits / total) * 100).toFixed(1) : '0.0'}%`;
+
+async function main() {
+  if (!Number.isInteger(folds) || folds < 2) {
+    console.error('[train] --folds needs a whole number of at least 2');
+    process.exit(1);
+  }
+
+  const corpus = [CORPUS_PATH, ...extraFiles.map(file => path.resolve(file))];
+  const examples = (await Promise.all(corpus.map(readLabeled))).flat();
+  console.log(`[train] ${examples.length} examples from ${corpus.map(file => path.relative(projectRoot, file)).join(', ')}`);
+
+  // Every n-th example is held out in turn; the corpus is grouped by intent, so each fold
+  // gets a share of every intent
+  const hits = { rules: 0, classifier: 0, blended: 0 };
+  const perIntent = new Map<Intent, { total: number; rules: number; blended: number }>();
+  const heldOut: (CalibrationSample & { primary: Intent })[] = [];
+
+  for (let fold = 0; fold < folds; fold++) {
+    const train = examples.filter((_, i) => i % folds !== fold);
+    const test = examples.filter((_, i) => i % folds === fold);
+    const model = trainIntentModel(train);
+
+    for (const { text, intent } of test) {
+      setIntentModel(null);
+      const rules = detectIntent(text) === intent;
+      setIntentModel(model);
+      const resolution = resolveIntents(text);
+      const blended = resolution.primary === intent;
+      heldOut.push({ scores: resolution.scores, intent, primary: resolution.primary });
+      const classifier = argmax(classifyWith(model, text)) === intent;
+
+      hits.rules += Number(rules);
+      hits.blended += Number(blended);
+      hits.classifier += Number(classifier);
+      const row = perIntent.get(intent) ?? { total: 0, rules: 0, blended: 0 };
+      perIntent.set(intent, { total: row.total + 1, rules: row.rules + Number(rules), blended: row.blended + Number(blended) });
+    }
+  }
+
+  console.log(`\n[train] ${folds}-fold cross-validated accuracy`);
+  console.log(`  rules only   ${percent(hits.rules, examples.length)}`);
+  console.log(`  classifier   ${percent(hits.classifier, examples.length)}`);
+  console.log(`  blended      ${percent(hits.blended, examples.length)}`);
+
+  console.log('\n[train] per intent (rules → blended)');
+  [...perIntent.entries()].sort(([a], [b]) => a.localeCompare(b)).forEach(([intent, row]) => {
+    console.log(`  ${intent.padEnd(18)} ${percent(row.rules, row.total).padStart(6)} → ${percent(row.blended, row.total).padStart(6)}  (${row.total})`);
+  });
+
+  // Confidence of the routed intent against whether it was right, before and after fitting
+  const parameters = fitCalibration(heldOut);
+  const predictions = (p: CalibrationParameters) => heldOut.map(({ scores, intent, primary }) => ({ ...confidenceOf(scores, primary, p), correct: primary === intent }));
+  const fitted = predictions(parameters);
+  const unclear = fitted.filter(p => isUnsure(p.confidence, p.margin));
+  const clear = fitted.filter(p => !unclear.includes(p));
+
+  console.log(`\n[train] confidence calibration (temperature ${parameters.temperature}, unscored ${parameters.unscored})`);
+  console.log(`  calibration error   ${percent(calibrationError(predictions({ temperature: 1, unscored: 0 })) * 100, 100)} unfitted → ${percent(calibrationError(fitted) * 100, 100)}`);
+  console.log(`  routed intent below ${CLARIFY_BELOW_CONFIDENCE} or margin below ${CLARIFY_BELOW_MARGIN}: ${percent(unclear.length, fitted.length)} of messages, ${percent(unclear.filter(p => p.correct).length, unclear.length)} of them right`);
+  console.log(`  above both: ${percent(clear.filter(p => p.correct).length, clear.length)} right`);
+
+  const model: IntentModel = trainIntentModel(examples);
+  const calibration: IntentCalibration = { version: CALIBRATION_VERSION, ...parameters, examples: heldOut.length, fittedAt: new Date().toISOString() };
+  if (dryRun) {
+    console.log('\n[train] --dry-run: model and calibration not written');
+    return;
+  }
+  await writeFile(MODEL_PATH, `${JSON.stringify(model, null, 1)}\n`);
+  await writeFile(CALIBRATION_PATH, `${JSON.stringify(calibration, null, 1)}\n`);
+  console.log(`\n[train] wrote ${path.relative(projectRoot, MODEL_PATH)} (${model.labels.length} intents, ${examples.length} examples)`);
+  console.log(`[train] wrote ${path.relative(projectRoot, CALIBRATION_PATH)} (temperature ${parameters.temperature}, unscored ${parameters.unscored})`);
+}
+
+main().catch(error => {
+  console.error('[train] failed:', error);
+  process.exit(1);
+});